@@ -165,26 +165,52 @@ export function findBlockchainCalls(
 }
 
 /**
- * Find all state writes (this.field.value = ...) in a method.
+ * A write to stored state: `this.field.value = …` (or `+=`, `++`, …) or
+ * `this.map.set(key, …)`.
+ */
+export interface StateWrite {
+    pos: number;
+    field: string;
+    text: string;
+    /** Key argument of a map `.set()` */
+    key?: string;
+}
+
+/**
+ * Find all state writes (this.field.value = ..., this.map.set(...)) in a method.
  */
 export function findStateWrites(
     method: ts.MethodDeclaration,
     sourceFile: ts.SourceFile,
     storedFields: Set<string>,
-): { pos: number; field: string; text: string }[] {
-    const writes: { pos: number; field: string; text: string }[] = [];
+): StateWrite[] {
+    const writes: StateWrite[] = [];
     if (!method.body) return writes;
 
-    walkTree(method.body, (node) => {
-        if (ts.isBinaryExpression(node) && node.operatorToken.kind === ts.SyntaxKind.EqualsToken) {
-            const leftText = node.left.getText(sourceFile);
-            if (leftText.endsWith('.value')) {
-                const fieldMatch = leftText.match(/this\.(\w+)\.value/);
-                if (fieldMatch && storedFields.has(fieldMatch[1])) {
-                    writes.push({ pos: node.getStart(), field: fieldMatch[1], text: leftText });
-                }
+    const valueWrite = (target: ts.Expression, node: ts.Node) => {
+        const leftText = target.getText(sourceFile);
+        if (leftText.endsWith('.value')) {
+            const fieldMatch = leftText.match(/this\.(\w+)\.value/);
+            if (fieldMatch && storedFields.has(fieldMatch[1])) {
+                writes.push({ pos: node.getStart(), field: fieldMatch[1], text: leftText });
             }
         }
+    };
+
+    walkTree(method.body, (node) => {
+        if (
+            ts.isBinaryExpression(node) &&
+            node.operatorToken.kind >= ts.SyntaxKind.FirstAssignment &&
+            node.operatorToken.kind <= ts.SyntaxKind.LastAssignment
+        ) {
+            valueWrite(node.left, node);
+        }
+        if (
+            (ts.isPrefixUnaryExpression(node) || ts.isPostfixUnaryExpression(node)) &&
+            (node.operator === ts.SyntaxKind.PlusPlusToken || node.operator === ts.SyntaxKind.MinusMinusToken)
+        ) {
+            valueWrite(node.operand, node);
+        }
 
         // Also catch .set() calls on stored maps
         if (ts.isCallExpression(node)) {
@@ -192,7 +218,8 @@ export function findStateWrites(
             if (exprText.includes('this.') && exprText.endsWith('.set')) {
                 const fieldMatch = exprText.match(/this\.(\w+)\.set/);
                 if (fieldMatch && storedFields.has(fieldMatch[1])) {
-                    writes.push({ pos: node.getStart(), field: fieldMatch[1], text: exprText });
+                    const key = node.arguments[0]?.getText(sourceFile);
+                    writes.push({ pos: node.getStart(), field: fieldMatch[1], text: exprText, key });
                 }
             }
         }
@@ -247,6 +274,130 @@ export function findGuardChecks(
     return guards;
 }
 
+// ============================================================================
+// Call Graph
+// ============================================================================
+
+/** How deep helper calls are followed (guards against deep or cyclic chains) */
+export const MAX_HELPER_DEPTH = 5;
+
+/**
+ * Class-level call graph over `this.method()` calls.
+ */
+export interface CallGraph {
+    methods: Map<string, ts.MethodDeclaration>;
+    /** Caller → calls to other methods of the same class, in source order */
+    calls: Map<string, { callee: string; pos: number }[]>;
+}
+
+/**
+ * A method reached from a root method through helper calls.
+ */
+export interface ReachedMethod {
+    name: string;
+    method: ts.MethodDeclaration;
+    /** Helper chain from the root, e.g. ['_withdraw', '_doTransfer']; empty for the root itself */
+    via: string[];
+}
+
+/**
+ * Build the call graph of a class.
+ */
+export function buildCallGraph(classDecl: ts.ClassDeclaration): CallGraph {
+    const methods = new Map<string, ts.MethodDeclaration>();
+    for (const method of getClassMethods(classDecl)) {
+        methods.set(getMethodName(method), method);
+    }
+
+    const calls = new Map<string, { callee: string; pos: number }[]>();
+    for (const [name, method] of methods) {
+        const edges: { callee: string; pos: number }[] = [];
+        if (method.body) {
+            walkTree(method.body, (node) => {
+                if (
+                    ts.isCallExpression(node) &&
+                    ts.isPropertyAccessExpression(node.expression) &&
+                    node.expression.expression.kind === ts.SyntaxKind.ThisKeyword &&
+                    methods.has(node.expression.name.text)
+                ) {
+                    edges.push({ callee: node.expression.name.text, pos: node.getStart() });
+                }
+            });
+        }
+        calls.set(name, edges);
+    }
+
+    return { methods, calls };
+}
+
+/**
+ * The method itself followed by every helper it reaches, depth-first in call
+ * order, each once with the first chain found. Chains stop at `maxDepth`; a
+ * helper is expanded again only when reached by a shorter chain, so diamonds
+ * and recursion are not re-explored.
+ */
+export function reachableMethods(
+    graph: CallGraph,
+    method: ts.MethodDeclaration,
+    maxDepth: number = MAX_HELPER_DEPTH,
+): ReachedMethod[] {
+    const reached: ReachedMethod[] = [];
+    /** Shallowest depth each method has been expanded from */
+    const depths = new Map<string, number>();
+
+    function visit(name: string, m: ts.MethodDeclaration, via: string[]): void {
+        if (!depths.has(name)) reached.push({ name, method: m, via });
+        depths.set(name, via.length);
+        if (via.length >= maxDepth) return;
+        for (const call of graph.calls.get(name) ?? []) {
+            const callee = graph.methods.get(call.callee);
+            if (!callee || (depths.get(call.callee) ?? Infinity) <= via.length + 1) continue;
+            visit(call.callee, callee, [...via, call.callee]);
+        }
+    }
+
+    visit(getMethodName(method), method, []);
+    return reached;
+}
+
+/**
+ * A reached method whose helper calls were cut off by the depth limit, so
+ * some helper it calls is missing from `reached`.
+ */
+export function truncatedChain(
+    graph: CallGraph,
+    reached: ReachedMethod[],
+    maxDepth: number = MAX_HELPER_DEPTH,
+): ReachedMethod | undefined {
+    const names = new Set(reached.map((r) => r.name));
+    return reached.find(
+        (r) =>
+            r.via.length >= maxDepth &&
+            (graph.calls.get(r.name) ?? []).some((c) => graph.methods.has(c.callee) && !names.has(c.callee)),
+    );
+}
+
+/** Entry points that dispatch or deploy rather than transition state */
+export const NON_TRANSITION_METHODS = new Set(['execute', 'onDeployment']);
+
+/**
+ * Methods a transaction can start in: those `execute()` dispatches to, and
+ * every other public method apart from `execute()` and `onDeployment()`.
+ */
+export function entryPoints(callGraph: CallGraph): string[] {
+    const dispatched = new Set((callGraph.calls.get('execute') ?? []).map((c) => c.callee));
+    return [...callGraph.methods]
+        .filter(([name, method]) => !NON_TRANSITION_METHODS.has(name) && (dispatched.has(name) || isPublicMethod(method)))
+        .map(([name]) => name);
+}
+
+/**
+ * Render a helper chain for messages, e.g. " (via this._a() → this._b())".
+ */
+export function formatVia(via: string[]): string {
+    return via.length === 0 ? '' : ` (via ${via.map((v) => `this.${v}()`).join(' → ')})`;
+}
+
 /**
  * Check if a method has the @method decorator (OPNet public method).
  */
@@ -0,0 +1,318 @@
+// ============================================================================
+// opspec CFG — Statement-level control-flow graphs for method bodies
+// ============================================================================
+//
+// One node per simple statement or branch condition. Blocks are flattened,
+// `if`/`switch`/loops become condition nodes with labelled edges, and
+// `return`/`throw` edge straight to the exit node. Loop bodies get a back
+// edge, so anything in a loop can follow itself on the next iteration.
+
+import * as ts from 'typescript';
+
+export type CfgNodeKind = 'entry' | 'exit' | 'statement' | 'condition';
+
+export interface CfgEdge {
+    to: number;
+    /** Branch taken, e.g. 'true', 'false', 'case 1', 'default' */
+    label?: string;
+}
+
+export interface CfgNode {
+    id: number;
+    kind: CfgNodeKind;
+    /** The code this node evaluates: a statement, or the condition of a branch */
+    node?: ts.Node;
+    line: number;
+    succ: CfgEdge[];
+}
+
+export interface ControlFlowGraph {
+    nodes: CfgNode[];
+    entry: number;
+    exit: number;
+}
+
+/** Edges still waiting for the node that follows them */
+type Pending = { from: number; label?: string }[];
+
+interface JumpTarget {
+    /** A switch takes `break` but not `continue` */
+    isSwitch: boolean;
+    breaks: Pending;
+    /** Node that `continue` jumps to, when it already exists */
+    continueTo?: number;
+    /** `continue` statements waiting for the loop's latch */
+    continues: Pending;
+}
+
+/**
+ * Build the control-flow graph of a method body.
+ */
+export function buildControlFlowGraph(method: ts.MethodDeclaration, sourceFile: ts.SourceFile): ControlFlowGraph {
+    const nodes: CfgNode[] = [];
+    const targets: JumpTarget[] = [];
+
+    const lineOf = (node: ts.Node): number =>
+        sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile)).line + 1;
+
+    function addNode(kind: CfgNodeKind, node?: ts.Node): number {
+        const id = nodes.length;
+        nodes.push({ id, kind, node, line: node ? lineOf(node) : 0, succ: [] });
+        return id;
+    }
+
+    function connect(pending: Pending, to: number): void {
+        for (const { from, label } of pending) {
+            nodes[from].succ.push(label ? { to, label } : { to });
+        }
+    }
+
+    /** Add a node fed by `pending`; returns its id */
+    function step(pending: Pending, kind: CfgNodeKind, node?: ts.Node): number {
+        const id = addNode(kind, node);
+        connect(pending, id);
+        return id;
+    }
+
+    const entry = addNode('entry');
+    const exit = addNode('exit');
+
+    function visitAll(statements: readonly ts.Statement[], pending: Pending): Pending {
+        let current = pending;
+        for (const stmt of statements) current = visit(stmt, current);
+        return current;
+    }
+
+    function visit(stmt: ts.Statement, pending: Pending): Pending {
+        if (ts.isBlock(stmt)) return visitAll(stmt.statements, pending);
+
+        if (ts.isIfStatement(stmt)) {
+            const cond = step(pending, 'condition', stmt.expression);
+            const thenOut = visit(stmt.thenStatement, [{ from: cond, label: 'true' }]);
+            const elseOut = stmt.elseStatement
+                ? visit(stmt.elseStatement, [{ from: cond, label: 'false' }])
+                : [{ from: cond, label: 'false' }];
+            return [...thenOut, ...elseOut];
+        }
+
+        if (ts.isWhileStatement(stmt)) {
+            const cond = step(pending, 'condition', stmt.expression);
+            const target: JumpTarget = { isSwitch: false, breaks: [], continueTo: cond, continues: [] };
+            targets.push(target);
+            connect(visit(stmt.statement, [{ from: cond, label: 'true' }]), cond);
+            targets.pop();
+            return [{ from: cond, label: 'false' }, ...target.breaks];
+        }
+
+        if (ts.isDoStatement(stmt)) {
+            const target: JumpTarget = { isSwitch: false, breaks: [], continues: [] };
+            targets.push(target);
+            const bodyStart = nodes.length;
+            const bodyOut = visit(stmt.statement, pending);
+            targets.pop();
+            const cond = step([...bodyOut, ...target.continues], 'condition', stmt.expression);
+            if (bodyStart < cond) nodes[cond].succ.push({ to: bodyStart, label: 'true' });
+            return [{ from: cond, label: 'false' }, ...target.breaks];
+        }
+
+        if (ts.isForStatement(stmt) || ts.isForOfStatement(stmt) || ts.isForInStatement(stmt)) {
+            let current = pending;
+            if (ts.isForStatement(stmt) && stmt.initializer) {
+                current = [{ from: step(current, 'statement', stmt.initializer) }];
+            }
+            const head = ts.isForStatement(stmt) ? stmt.condition : stmt.expression;
+            const cond = step(current, 'condition', head);
+            const target: JumpTarget = { isSwitch: false, breaks: [], continues: [] };
+            targets.push(target);
+            const bodyOut = visit(stmt.statement, [{ from: cond, label: 'true' }]);
+            targets.pop();
+            const latch = [...bodyOut, ...target.continues];
+            if (ts.isForStatement(stmt) && stmt.incrementor) {
+                connect([{ from: step(latch, 'statement', stmt.incrementor) }], cond);
+            } else {
+                connect(latch, cond);
+            }
+            return [{ from: cond, label: 'false' }, ...target.breaks];
+        }
+
+        if (ts.isSwitchStatement(stmt)) {
+            const cond = step(pending, 'condition', stmt.expression);
+            const target: JumpTarget = { isSwitch: true, breaks: [], continues: [] };
+            targets.push(target);
+            let fallthrough: Pending = [];
+            let hasDefault = false;
+            for (const clause of stmt.caseBlock.clauses) {
+                const label = ts.isCaseClause(clause) ? `case ${clause.expression.getText(sourceFile)}` : 'default';
+                if (ts.isDefaultClause(clause)) hasDefault = true;
+                fallthrough = visitAll(clause.statements, [...fallthrough, { from: cond, label }]);
+            }
+            targets.pop();
+            return [...fallthrough, ...target.breaks, ...(hasDefault ? [] : [{ from: cond, label: 'no case' }])];
+        }
+
+        if (ts.isTryStatement(stmt)) {
+            const tryOut = visit(stmt.tryBlock, pending);
+            // The catch block may start anywhere in the try block; entering it
+            // from the try's start and end covers the orderings that matter here
+            const catchOut = stmt.catchClause ? visit(stmt.catchClause.block, [...pending, ...tryOut]) : [];
+            const joined = [...tryOut, ...catchOut];
+            return stmt.finallyBlock ? visit(stmt.finallyBlock, joined) : joined;
+        }
+
+        if (ts.isLabeledStatement(stmt)) return visit(stmt.statement, pending);
+
+        if (ts.isReturnStatement(stmt) || ts.isThrowStatement(stmt)) {
+            connect([{ from: step(pending, 'statement', stmt) }], exit);
+            return [];
+        }
+
+        if (ts.isBreakStatement(stmt) || ts.isContinueStatement(stmt)) {
+            const id = step(pending, 'statement', stmt);
+            if (ts.isBreakStatement(stmt)) {
+                targets[targets.length - 1]?.breaks.push({ from: id });
+                return [];
+            }
+            const loop = [...targets].reverse().find((t) => !t.isSwitch);
+            if (loop?.continueTo !== undefined) connect([{ from: id }], loop.continueTo);
+            else loop?.continues.push({ from: id });
+            return [];
+        }
+
+        if (ts.isEmptyStatement(stmt)) return pending;
+
+        return [{ from: step(pending, 'statement', stmt) }];
+    }
+
+    const out = method.body ? visitAll(method.body.statements, [{ from: entry }]) : [{ from: entry }];
+    connect(out, exit);
+    return { nodes, entry, exit };
+}
+
+/**
+ * The node that evaluates the code at `pos`: the innermost statement, or the
+ * branch whose condition or keyword is there.
+ */
+export function cfgNodeAt(cfg: ControlFlowGraph, pos: number, sourceFile: ts.SourceFile): CfgNode | undefined {
+    let best: CfgNode | undefined;
+    let bestWidth = Infinity;
+    for (const node of cfg.nodes) {
+        if (!node.node) continue;
+        // A condition node also owns its statement's keyword, e.g. the `if` in `if (...)`
+        const span = node.kind === 'condition' && node.node.parent ? node.node.parent : node.node;
+        const start = span.getStart(sourceFile);
+        const width = span.getEnd() - start;
+        if (start <= pos && pos < span.getEnd() && width < bestWidth) {
+            best = node;
+            bestWidth = width;
+        }
+    }
+    return best;
+}
+
+/**
+ * Whether every path from the entry to `b` goes through `a` (or, given
+ * several nodes, through one of them).
+ */
+export function dominates(cfg: ControlFlowGraph, a: number | number[], b: number): boolean {
+    const through = new Set(typeof a === 'number' ? [a] : a);
+    if (through.has(b)) return true;
+    const seen = new Set<number>([cfg.entry]);
+    const queue = [cfg.entry];
+    while (queue.length > 0) {
+        const id = queue.shift()!;
+        if (id === b) return false;
+        for (const edge of cfg.nodes[id].succ) {
+            if (!through.has(edge.to) && !seen.has(edge.to)) {
+                seen.add(edge.to);
+                queue.push(edge.to);
+            }
+        }
+    }
+    return true;
+}
+
+/**
+ * Nodes reachable from `from` through at least one edge without entering a
+ * `blocked` node (so `from` itself is included only through a loop).
+ */
+export function reachableNodes(cfg: ControlFlowGraph, from: number, blocked: Set<number> = new Set()): Set<number> {
+    const seen = new Set<number>();
+    const queue = [from];
+    while (queue.length > 0) {
+        const id = queue.shift()!;
+        for (const edge of cfg.nodes[id].succ) {
+            if (!seen.has(edge.to) && !blocked.has(edge.to)) {
+                seen.add(edge.to);
+                queue.push(edge.to);
+            }
+        }
+    }
+    return seen;
+}
+
+/**
+ * Shortest path of at least one edge from `from` to `to` (so a node reaches
+ * itself only through a loop). Returns the node ids, both ends included.
+ */
+export function findCfgPath(cfg: ControlFlowGraph, from: number, to: number): number[] | undefined {
+    const previous = new Map<number, number>();
+    const queue: number[] = [];
+    for (const edge of cfg.nodes[from].succ) {
+        if (!previous.has(edge.to)) {
+            previous.set(edge.to, from);
+            queue.push(edge.to);
+        }
+    }
+
+    while (queue.length > 0) {
+        const id = queue.shift()!;
+        if (id === to) {
+            const path = [to];
+            let cur = previous.get(to)!;
+            while (cur !== from) {
+                path.unshift(cur);
+                cur = previous.get(cur)!;
+            }
+            path.unshift(from);
+            return path;
+        }
+        for (const edge of cfg.nodes[id].succ) {
+            if (!previous.has(edge.to)) {
+                previous.set(edge.to, id);
+                queue.push(edge.to);
+            }
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Render a path for messages, e.g. "L76: const r = Blockchain.call(…) → L77: !r.success is false → L81: …".
+ */
+export function formatCfgPath(cfg: ControlFlowGraph, path: number[], sourceFile: ts.SourceFile): string {
+    const parts: string[] = [];
+    for (const [i, id] of path.entries()) {
+        const node = cfg.nodes[id];
+        if (!node.node) continue;
+        const text = shorten(node.node.getText(sourceFile));
+        if (node.kind === 'condition') {
+            const next = path[i + 1];
+            const label = next === undefined ? undefined : node.succ.find((e) => e.to === next)?.label;
+            parts.push(`L${node.line}: ${describeBranch(text, label)}`);
+        } else {
+            parts.push(`L${node.line}: ${text}`);
+        }
+    }
+    return parts.join(' → ');
+}
+
+function describeBranch(text: string, label: string | undefined): string {
+    if (label === 'true' || label === 'false') return `${text} is ${label}`;
+    if (label) return `${text}: ${label}`;
+    return text;
+}
+
+function shorten(text: string): string {
+    const oneLine = text.replace(/\s+/g, ' ').trim().replace(/;$/, '');
+    return oneLine.length > 60 ? `${oneLine.slice(0, 57)}…` : oneLine;
+}
@@ -12,7 +12,10 @@ import {
     formatReports,
     formatReportsJson,
     formatCoverage,
+    formatDiagnostics,
+    formatStateMachine,
 } from './reporter';
+import { hasErrors, sortDiagnostics } from './diagnostics';
 import {
     generateTemplates,
     formatTemplatesAsAnnotations,
@@ -20,6 +23,16 @@ import {
     generateAnnotatedSource,
 } from './template-generator';
 import { computeCoverage } from './coverage';
+import { loadConfig, solverFromCommandLine } from './config';
+import {
+    generateVerificationConditions,
+    formatVerificationCondition,
+    conditionFileName,
+    solveVerificationConditions,
+    VerificationConditionSet,
+} from './vc';
+import { analyzeStateMachine } from './statemachine';
+import { renderStateGraph, GraphFormat, GRAPH_FORMATS } from './graph';
 import { VerificationReport, ContractSpecs } from './types';
 import * as ts from 'typescript';
 
@@ -62,7 +75,8 @@ program
                     true,
                     ts.ScriptKind.TS,
                 );
-                reports.push(verifyContract(contract, sourceFile));
+                const { roles } = loadConfig(absolutePath);
+                reports.push(verifyContract(contract, sourceFile, { roles }));
             }
 
             if (opts.json) {
@@ -84,11 +98,13 @@ program
 program
     .command('check')
     .description('Parse and validate spec syntax (no verification against code)')
-    .argument('<file>', 'Path to a .ts file')
+    .argument('<path>', 'Path to a .ts file or directory')
     .option('-j, --json', 'Output as JSON', false)
     .action((filePath: string, opts: { json: boolean }) => {
         try {
-            const specTree = parseFile(filePath);
+            const specTree = parsePath(filePath);
+            const diagnostics = sortDiagnostics(specTree.diagnostics);
+            const valid = !hasErrors(diagnostics);
 
             if (opts.json) {
                 const output = {
@@ -97,19 +113,30 @@ program
                         className: c.className,
                         invariants: c.invariants.length,
                         stateTransitions: c.stateTransitions.length,
+                        stateProperties: c.stateProperties.length,
                         opnetConstraints: c.opnetConstraints.length,
+                        nonreentrant: c.nonreentrant !== undefined,
+                        pausable: c.pausable ? { field: c.pausable.field, exceptions: c.pausable.exceptions } : null,
+                        stateField: c.stateField ? { field: c.stateField.field, states: c.stateField.states } : null,
+                        temporal: c.temporal.length,
                         methods: Array.from(c.methods.entries()).map(([name, specs]) => ({
                             name,
                             preconditions: specs.preconditions.length,
                             postconditions: specs.postconditions.length,
+                            reverts: specs.reverts.length,
                             access: specs.access?.level || null,
+                            modifies: specs.modifies?.targets.length ?? null,
+                            purity: specs.purity?.tag ?? null,
+                            nonreentrant: specs.nonreentrant !== undefined,
+                            emits: specs.emits.length,
                             calls: specs.calls.length,
                             stateTransitions: specs.stateTransitions.length,
                             temporal: specs.temporal.length,
                         })),
                     })),
                     unassociated: specTree.unassociated.length,
-                    valid: true,
+                    diagnostics,
+                    valid,
                 };
                 console.log(JSON.stringify(output, null, 2));
             } else {
@@ -124,14 +151,24 @@ program
                         console.log(`\n  Contract: ${contract.className}`);
                         console.log(`    Invariants:       ${contract.invariants.length}`);
                         console.log(`    State transitions: ${contract.stateTransitions.length}`);
+                        if (contract.stateProperties.length) console.log(`    State properties:  ${contract.stateProperties.length}`);
+                        if (contract.stateField) console.log(`    State field:       this.${contract.stateField.field}`);
                         console.log(`    OPNet constraints: ${contract.opnetConstraints.length}`);
+                        if (contract.nonreentrant) console.log('    Non-reentrant:     all entry points');
+                        if (contract.pausable) console.log(`    Pausable:          this.${contract.pausable.field}`);
+                        if (contract.temporal.length) console.log(`    Temporal:          ${contract.temporal.length}`);
                         console.log(`    Methods with specs: ${contract.methods.size}`);
 
                         for (const [name, specs] of contract.methods) {
                             const parts: string[] = [];
                             if (specs.preconditions.length) parts.push(`${specs.preconditions.length} pre`);
                             if (specs.postconditions.length) parts.push(`${specs.postconditions.length} post`);
+                            if (specs.reverts.length) parts.push(`${specs.reverts.length} reverts`);
                             if (specs.access) parts.push(`access: ${specs.access.level}`);
+                            if (specs.modifies) parts.push(`modifies ${specs.modifies.targets.length}`);
+                            if (specs.purity) parts.push(specs.purity.tag);
+                            if (specs.nonreentrant) parts.push('nonreentrant');
+                            if (specs.emits.length) parts.push(`${specs.emits.length} emits`);
                             if (specs.calls.length) parts.push(`${specs.calls.length} calls`);
                             if (specs.stateTransitions.length) parts.push(`${specs.stateTransitions.length} state`);
                             if (specs.temporal.length) parts.push(`${specs.temporal.length} temporal`);
@@ -144,15 +181,176 @@ program
                     console.log(`\n  Unassociated annotations: ${specTree.unassociated.length}`);
                 }
 
-                console.log('\n  ✓ Spec syntax is valid.');
+                if (diagnostics.length > 0) {
+                    console.log('');
+                    console.log(formatDiagnostics(diagnostics));
+                }
+
+                console.log(valid ? '\n  ✓ Spec syntax is valid.' : '\n  ✗ Spec syntax has errors.');
                 console.log('');
             }
+
+            process.exit(valid ? 0 : 1);
         } catch (err) {
             console.error(`Syntax Error: ${(err as Error).message}`);
             process.exit(1);
         }
     });
 
+// ---- vc ----
+program
+    .command('vc')
+    .description('Export verification conditions as SMT-LIB2, optionally checking them with an SMT solver')
+    .argument('<path>', 'Path to a .ts file or directory')
+    .option('-o, --out <dir>', 'Write one .smt2 file per condition instead of printing')
+    .option('-s, --solve', 'Run the solver from opspec.config.json on each condition', false)
+    .option('--solver <command>', 'Solver command line, e.g. "z3 -in" (implies --solve)')
+    .option('-j, --json', 'Output solver results as JSON', false)
+    .action((targetPath: string, opts: { out?: string; solve: boolean; solver?: string; json: boolean }) => {
+        try {
+            const specTree = parsePath(targetPath);
+            const sets: VerificationConditionSet[] = specTree.contracts.map((contract) => {
+                const absolutePath = path.resolve(contract.file);
+                const source = fs.readFileSync(absolutePath, 'utf-8');
+                const sourceFile = ts.createSourceFile(
+                    absolutePath,
+                    source,
+                    ts.ScriptTarget.Latest,
+                    true,
+                    ts.ScriptKind.TS,
+                );
+                return generateVerificationConditions(contract, sourceFile);
+            });
+
+            if (opts.solve || opts.solver) {
+                const config = loadConfig(targetPath);
+                const solver = opts.solver ? solverFromCommandLine(opts.solver) : config.solver;
+                if (!solver) {
+                    console.error('Error: no solver configured — set "solver" in opspec.config.json or pass --solver');
+                    process.exit(2);
+                }
+
+                const reports = sets.map((set) => solveVerificationConditions(set, solver));
+                console.log(opts.json ? formatReportsJson(reports) : formatReports(reports));
+                process.exit(reports.some((r) => r.summary.violated > 0) ? 1 : 0);
+            }
+
+            const conditions = sets.flatMap((set) => set.conditions);
+            if (opts.out) {
+                fs.mkdirSync(opts.out, { recursive: true });
+                for (const vc of conditions) {
+                    fs.writeFileSync(path.join(opts.out, conditionFileName(vc)), formatVerificationCondition(vc));
+                }
+                console.log(`Wrote ${conditions.length} verification condition(s) to ${opts.out}`);
+            } else {
+                console.log(conditions.map(formatVerificationCondition).join('\n'));
+            }
+
+            for (const set of sets) {
+                for (const { spec, methodName, reason } of set.skipped) {
+                    const where = methodName ? ` (${methodName})` : '';
+                    console.error(`Skipped @${spec.tag} L${spec.line}${where}: ${reason}`);
+                }
+            }
+        } catch (err) {
+            console.error(`Error: ${(err as Error).message}`);
+            process.exit(2);
+        }
+    });
+
+// ---- statemachine ----
+program
+    .command('statemachine')
+    .description('Check @state machines: reachability, dead ends, untracked methods and declared properties')
+    .argument('<path>', 'Path to a .ts file or directory')
+    .option('-j, --json', 'Output as JSON', false)
+    .option('-d, --diff', 'Compare the @state transitions with the ones the code implements', false)
+    .action((targetPath: string, opts: { json: boolean; diff: boolean }) => {
+        try {
+            const specTree = parsePath(targetPath);
+            const reports = specTree.contracts
+                .filter((c) => c.stateTransitions.length > 0 || c.stateProperties.length > 0)
+                .map((contract) => {
+                    const absolutePath = path.resolve(contract.file);
+                    const source = fs.readFileSync(absolutePath, 'utf-8');
+                    const sourceFile = ts.createSourceFile(
+                        absolutePath,
+                        source,
+                        ts.ScriptTarget.Latest,
+                        true,
+                        ts.ScriptKind.TS,
+                    );
+                    return analyzeStateMachine(contract, sourceFile, { diff: opts.diff });
+                });
+
+            if (opts.json) {
+                const output = reports.map((r) => ({
+                    contractName: r.contractName,
+                    file: r.file,
+                    graph: r.graph,
+                    findings: r.findings,
+                    properties: r.properties.map((p) => ({
+                        expression: p.spec.expression,
+                        line: p.spec.line,
+                        holds: p.holds,
+                        message: p.message,
+                        run: p.run ?? null,
+                    })),
+                    ...(opts.diff ? { implemented: r.implemented ?? null, diff: r.diff ?? null } : {}),
+                }));
+                console.log(JSON.stringify({ reports: output }, null, 2));
+            } else if (reports.length === 0) {
+                console.log('No @state transitions found.');
+            } else {
+                for (const report of reports) console.log(formatStateMachine(report));
+            }
+
+            process.exit(reports.some((r) => r.properties.some((p) => !p.holds)) ? 1 : 0);
+        } catch (err) {
+            console.error(`Error: ${(err as Error).message}`);
+            process.exit(2);
+        }
+    });
+
+// ---- graph ----
+program
+    .command('graph')
+    .description('Render @state machines as Mermaid or Graphviz, coloured by verification status')
+    .argument('<file>', 'Path to a .ts file')
+    .option('-f, --format <format>', `Output format: ${GRAPH_FORMATS.join(' or ')}`, 'mermaid')
+    .action((filePath: string, opts: { format: string }) => {
+        try {
+            if (!GRAPH_FORMATS.includes(opts.format as GraphFormat)) {
+                console.error(`Error: unknown format "${opts.format}" (use ${GRAPH_FORMATS.join(' or ')})`);
+                process.exit(2);
+            }
+            const specTree = parseFile(filePath);
+            const contracts = specTree.contracts.filter((c) => c.stateTransitions.length > 0);
+            if (contracts.length === 0) {
+                console.log('No @state transitions found.');
+                process.exit(0);
+            }
+
+            const absolutePath = path.resolve(filePath);
+            const source = fs.readFileSync(absolutePath, 'utf-8');
+            const sourceFile = ts.createSourceFile(
+                absolutePath,
+                source,
+                ts.ScriptTarget.Latest,
+                true,
+                ts.ScriptKind.TS,
+            );
+            const { roles } = loadConfig(absolutePath);
+            const graphs = contracts.map((contract) =>
+                renderStateGraph(contract, opts.format as GraphFormat, verifyContract(contract, sourceFile, { roles })),
+            );
+            console.log(graphs.join('\n\n'));
+        } catch (err) {
+            console.error(`Error: ${(err as Error).message}`);
+            process.exit(2);
+        }
+    });
+
 // ---- extract ----
 program
     .command('extract')
@@ -178,10 +376,27 @@ program
                         transition: s.transition,
                         line: s.line,
                     })),
+                    stateProperties: c.stateProperties.map((p) => ({
+                        property: p.property,
+                        line: p.line,
+                    })),
                     opnetConstraints: c.opnetConstraints.map((o) => ({
                         constraint: o.constraint,
                         line: o.line,
                     })),
+                    nonreentrant: c.nonreentrant ? { line: c.nonreentrant.line } : null,
+                    pausable: c.pausable
+                        ? { field: c.pausable.field, exceptions: c.pausable.exceptions, line: c.pausable.line }
+                        : null,
+                    stateField: c.stateField
+                        ? { field: c.stateField.field, states: c.stateField.states, line: c.stateField.line }
+                        : null,
+                    temporal: c.temporal.map((t) => ({
+                        methodName: t.methodName,
+                        condition: t.condition,
+                        form: t.form ?? null,
+                        line: t.line,
+                    })),
                     methods: Object.fromEntries(
                         Array.from(c.methods.entries()).map(([name, specs]) => [
                             name,
@@ -199,9 +414,26 @@ program
                                     line: p.line,
                                     comment: p.comment,
                                 })),
+                                reverts: specs.reverts.map((r) => ({
+                                    tag: r.tag,
+                                    expression: r.expression,
+                                    message: r.message,
+                                    line: r.line,
+                                })),
                                 access: specs.access
                                     ? { level: specs.access.level, line: specs.access.line }
                                     : null,
+                                modifies: specs.modifies
+                                    ? { targets: specs.modifies.targets, line: specs.modifies.line }
+                                    : null,
+                                purity: specs.purity ? { tag: specs.purity.tag, line: specs.purity.line } : null,
+                                nonreentrant: specs.nonreentrant ? { line: specs.nonreentrant.line } : null,
+                                emits: specs.emits.map((e) => ({
+                                    event: e.event,
+                                    args: e.args,
+                                    condition: e.condition,
+                                    line: e.line,
+                                })),
                                 calls: specs.calls.map((c) => ({
                                     target: c.target,
                                     calledMethod: c.calledMethod,
@@ -215,6 +447,7 @@ program
                                 temporal: specs.temporal.map((t) => ({
                                     subject: t.subject,
                                     condition: t.condition,
+                                    form: t.form ?? null,
                                     line: t.line,
                                 })),
                             },
@@ -291,7 +524,10 @@ program
                         file: filePath,
                         invariants: [],
                         stateTransitions: [],
+                        stateProperties: [],
                         opnetConstraints: [],
+                        roles: [],
+                        temporal: [],
                         methods: new Map(),
                     };
 
@@ -0,0 +1,117 @@
+// ============================================================================
+// opspec Config — Project settings from opspec.config.json
+// ============================================================================
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+export const CONFIG_FILE_NAME = 'opspec.config.json';
+
+/**
+ * An external SMT solver that reads SMT-LIB2 on stdin.
+ */
+export interface SolverConfig {
+    /** Executable, e.g. "z3" or "/opt/cvc5/bin/cvc5" */
+    command: string;
+    /** Extra arguments, e.g. ["-in"] for z3 or ["--lang", "smt2"] for cvc5 */
+    args: string[];
+    /** Per-query time limit in milliseconds */
+    timeout: number;
+}
+
+export interface OpspecConfig {
+    solver?: SolverConfig;
+    /** Role name → check, as in `@role NAME : check`, e.g. { "MINTER": "this.minters" } */
+    roles?: Record<string, string>;
+}
+
+const DEFAULT_SOLVER_TIMEOUT = 10_000;
+
+/**
+ * Find opspec.config.json in the directory of `start` or any parent.
+ */
+export function findConfigFile(start: string): string | undefined {
+    let dir = path.resolve(start);
+    if (fs.existsSync(dir) && fs.statSync(dir).isFile()) dir = path.dirname(dir);
+
+    for (;;) {
+        const candidate = path.join(dir, CONFIG_FILE_NAME);
+        if (fs.existsSync(candidate)) return candidate;
+        const parent = path.dirname(dir);
+        if (parent === dir) return undefined;
+        dir = parent;
+    }
+}
+
+/**
+ * Load the config that applies to `start`. Missing config means defaults.
+ */
+export function loadConfig(start: string): OpspecConfig {
+    const file = findConfigFile(start);
+    if (!file) return {};
+
+    let raw: unknown;
+    try {
+        raw = JSON.parse(fs.readFileSync(file, 'utf-8'));
+    } catch (err) {
+        throw new Error(`Invalid ${file}: ${(err as Error).message}`);
+    }
+    if (!raw || typeof raw !== 'object') {
+        throw new Error(`Invalid ${file}: expected a JSON object`);
+    }
+
+    const config: OpspecConfig = {};
+    const { solver, roles } = raw as { solver?: unknown; roles?: unknown };
+    if (solver !== undefined) {
+        config.solver = parseSolverConfig(solver, file);
+    }
+    if (roles !== undefined) {
+        config.roles = parseRoles(roles, file);
+    }
+    return config;
+}
+
+/**
+ * Solver from a command line such as "z3 -in".
+ */
+export function solverFromCommandLine(commandLine: string, timeout = DEFAULT_SOLVER_TIMEOUT): SolverConfig {
+    const [command, ...args] = commandLine.trim().split(/\s+/);
+    return { command, args, timeout };
+}
+
+function parseSolverConfig(value: unknown, file: string): SolverConfig {
+    if (typeof value === 'string') return solverFromCommandLine(value);
+
+    const solver = value as { command?: unknown; args?: unknown; timeout?: unknown };
+    if (!solver || typeof solver.command !== 'string' || solver.command.length === 0) {
+        throw new Error(`Invalid ${file}: solver.command must be a non-empty string`);
+    }
+    if (solver.args !== undefined && (!Array.isArray(solver.args) || solver.args.some((a) => typeof a !== 'string'))) {
+        throw new Error(`Invalid ${file}: solver.args must be an array of strings`);
+    }
+    if (solver.timeout !== undefined && (typeof solver.timeout !== 'number' || solver.timeout <= 0)) {
+        throw new Error(`Invalid ${file}: solver.timeout must be a positive number of milliseconds`);
+    }
+    return {
+        command: solver.command,
+        args: (solver.args as string[] | undefined) ?? [],
+        timeout: (solver.timeout as number | undefined) ?? DEFAULT_SOLVER_TIMEOUT,
+    };
+}
+
+function parseRoles(value: unknown, file: string): Record<string, string> {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        throw new Error(`Invalid ${file}: roles must be an object mapping role names to checks`);
+    }
+    const roles: Record<string, string> = {};
+    for (const [name, check] of Object.entries(value)) {
+        if (!/^\w+$/.test(name)) {
+            throw new Error(`Invalid ${file}: role name "${name}" must be a single word`);
+        }
+        if (typeof check !== 'string' || check.trim() === '') {
+            throw new Error(`Invalid ${file}: roles.${name} must be a check such as "this.minters" or "this.onlyMinter()"`);
+        }
+        roles[name] = check.trim();
+    }
+    return roles;
+}
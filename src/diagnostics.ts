@@ -0,0 +1,148 @@
+// ============================================================================
+// opspec Diagnostics — Errors and warnings about the spec annotations
+// ============================================================================
+
+import { Diagnostic, DiagnosticSeverity, SpecAnnotation } from './types';
+import { walkSpecExpression } from './expression-parser';
+
+// Standard JSDoc tags that may legitimately appear next to spec tags
+const JSDOC_TAGS = new Set<string>([
+    'param',
+    'returns',
+    'return',
+    'throws',
+    'example',
+    'see',
+    'deprecated',
+    'since',
+    'remarks',
+    'internal',
+    'link',
+    'type',
+    'template',
+    'override',
+    'description',
+    'notice',
+    'dev',
+]);
+
+/**
+ * Create a diagnostic.
+ */
+export function makeDiagnostic(
+    severity: DiagnosticSeverity,
+    code: string,
+    message: string,
+    file: string,
+    line: number,
+    column: number,
+): Diagnostic {
+    return { severity, code, message, file, line, column };
+}
+
+/**
+ * Diagnose an unrecognised `@tag`. Unknown tags in `///` lines are errors
+ * (those lines only carry specs); in JSDoc blocks they are warnings, and
+ * standard JSDoc tags are ignored. Returns null when nothing is worth reporting.
+ */
+export function diagnoseUnknownTag(
+    tag: string,
+    knownTags: Iterable<string>,
+    tripleSlash: boolean,
+    file: string,
+    line: number,
+    column: number,
+): Diagnostic | null {
+    if (!tripleSlash && JSDOC_TAGS.has(tag)) return null;
+
+    const suggestion = suggestTag(tag, knownTags);
+    const hint = suggestion ? ` — did you mean @${suggestion}?` : '';
+    return makeDiagnostic(
+        tripleSlash || suggestion ? 'error' : 'warning',
+        'unknown-tag',
+        `Unknown spec tag @${tag}${hint}`,
+        file,
+        line,
+        column,
+    );
+}
+
+/**
+ * Diagnostics that follow from a single annotation's expression:
+ * syntax errors, and old() outside a postcondition.
+ */
+export function diagnoseAnnotation(ann: SpecAnnotation): Diagnostic[] {
+    const diagnostics: Diagnostic[] = [];
+
+    if (ann.syntaxError) {
+        const { message, file, line, column } = ann.syntaxError;
+        diagnostics.push(makeDiagnostic('error', 'syntax-error', message, file, line, column));
+    }
+
+    // Postconditions and @emits conditions are evaluated when the method returns
+    if (ann.parsed && ann.tag !== 'post' && ann.tag !== 'ensures' && ann.tag !== 'emits') {
+        const base = ann.expressionColumn ?? ann.column;
+        walkSpecExpression(ann.parsed, (node) => {
+            if (node.kind === 'old') {
+                diagnostics.push(
+                    makeDiagnostic(
+                        'error',
+                        'old-outside-post',
+                        `old() is only meaningful in a postcondition, not in @${ann.tag}`,
+                        ann.file,
+                        ann.line,
+                        base + node.start,
+                    ),
+                );
+            }
+        });
+    }
+
+    return diagnostics;
+}
+
+/**
+ * Closest known tag within edit distance 2, if any.
+ */
+export function suggestTag(tag: string, knownTags: Iterable<string>): string | undefined {
+    let best: string | undefined;
+    let bestDistance = 3;
+    for (const known of knownTags) {
+        const d = editDistance(tag.toLowerCase(), known);
+        if (d < bestDistance) {
+            best = known;
+            bestDistance = d;
+        }
+    }
+    return best;
+}
+
+/**
+ * Whether any diagnostic is an error.
+ */
+export function hasErrors(diagnostics: Diagnostic[]): boolean {
+    return diagnostics.some((d) => d.severity === 'error');
+}
+
+/**
+ * Sort diagnostics by file, then position.
+ */
+export function sortDiagnostics(diagnostics: Diagnostic[]): Diagnostic[] {
+    return [...diagnostics].sort(
+        (a, b) => a.file.localeCompare(b.file) || a.line - b.line || a.column - b.column,
+    );
+}
+
+function editDistance(a: string, b: string): number {
+    const row: number[] = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+        let prev = row[0];
+        row[0] = i;
+        for (let j = 1; j <= b.length; j++) {
+            const tmp = row[j];
+            row[j] = Math.min(row[j] + 1, row[j - 1] + 1, prev + (a[i - 1] === b[j - 1] ? 0 : 1));
+            prev = tmp;
+        }
+    }
+    return row[b.length];
+}
@@ -0,0 +1,642 @@
+// ============================================================================
+// opspec Expression Parser — Parses spec expressions into a typed AST
+// ============================================================================
+//
+// Grammar (lowest to highest precedence), see docs/grammar.md §3:
+//
+//   expression  := implication
+//   implication := or ('implies' implication)?
+//   or          := and ('||' and)*
+//   and         := equality ('&&' equality)*
+//   equality    := comparison (('==' | '!=') comparison)*
+//   comparison  := additive (('>' | '<' | '>=' | '<=') additive)*
+//   additive    := term (('+' | '-') term)*
+//   term        := unary (('*' | '/') unary)*
+//   unary       := ('!' | '-') unary | postfix
+//   postfix     := primary ('.' IDENT | '(' args ')')*
+//   primary     := NUMBER | STRING | 'true' | 'false' | 'this' | 'return'
+//                | IDENT | 'old' '(' expression ')' | '(' expression ')'
+//                | quantifier
+//   quantifier  := ('forall' | 'exists') IDENT 'in' domain ':' expression
+//   domain      := 'range' '(' expression ',' expression ')' | 'keys' '(' expression ')'
+
+import {
+    SpecExpression,
+    SpecBinaryOperator,
+    SpecQuantifierDomain,
+    SafeMathOperation,
+    AggregateFunction,
+} from './types';
+
+/**
+ * Thrown when an expression is malformed. `offset` is relative to the
+ * expression text; callers translate it into a file location.
+ */
+export class ExpressionParseError extends Error {
+    constructor(
+        message: string,
+        public readonly offset: number,
+    ) {
+        super(message);
+        this.name = 'ExpressionParseError';
+    }
+}
+
+// ============================================================================
+// Lexer
+// ============================================================================
+
+type TokenType = 'ident' | 'number' | 'string' | 'punct' | 'eof';
+
+interface Token {
+    type: TokenType;
+    text: string;
+    start: number;
+    end: number;
+}
+
+// Longest operators first so '>=' wins over '>'
+const PUNCTUATORS = [
+    '==', '!=', '>=', '<=', '&&', '||',
+    '>', '<', '+', '-', '*', '/', '!', '(', ')', ',', '.', ':',
+];
+
+const U256_CONSTANTS: Record<string, bigint> = {
+    Zero: 0n,
+    One: 1n,
+    Max: (1n << 256n) - 1n,
+};
+
+const U256_FACTORIES = new Set(['fromU32', 'fromU64', 'fromI32', 'fromI64']);
+
+const SAFEMATH_OPERATIONS = new Set<string>(['add', 'sub', 'mul', 'div']);
+
+const AGGREGATES = new Set<string>(['sum', 'count', 'max']);
+
+function tokenize(text: string): Token[] {
+    const tokens: Token[] = [];
+    let i = 0;
+
+    while (i < text.length) {
+        const ch = text[i];
+
+        if (/\s/.test(ch)) {
+            i++;
+            continue;
+        }
+
+        if (/[A-Za-z_$]/.test(ch)) {
+            const start = i;
+            while (i < text.length && /[\w$]/.test(text[i])) i++;
+            tokens.push({ type: 'ident', text: text.slice(start, i), start, end: i });
+            continue;
+        }
+
+        if (/[0-9]/.test(ch)) {
+            const start = i;
+            if (ch === '0' && /[xX]/.test(text[i + 1] || '')) {
+                i += 2;
+                while (i < text.length && /[0-9a-fA-F_]/.test(text[i])) i++;
+            } else {
+                while (i < text.length && /[0-9_]/.test(text[i])) i++;
+            }
+            if (i < text.length && /[A-Za-z_$]/.test(text[i])) {
+                throw new ExpressionParseError(`Invalid number literal '${text.slice(start, i + 1)}'`, start);
+            }
+            tokens.push({ type: 'number', text: text.slice(start, i), start, end: i });
+            continue;
+        }
+
+        if (ch === '"' || ch === "'") {
+            const start = i;
+            i++;
+            while (i < text.length && text[i] !== ch) {
+                if (text[i] === '\\') i++;
+                i++;
+            }
+            if (i >= text.length) {
+                throw new ExpressionParseError('Unterminated string literal', start);
+            }
+            i++;
+            tokens.push({ type: 'string', text: text.slice(start, i), start, end: i });
+            continue;
+        }
+
+        const punct = PUNCTUATORS.find((p) => text.startsWith(p, i));
+        if (punct) {
+            if ((punct === '==' || punct === '!=') && text[i + 2] === '=') {
+                throw new ExpressionParseError(`Use '${punct}' instead of '${punct}='`, i);
+            }
+            tokens.push({ type: 'punct', text: punct, start: i, end: i + punct.length });
+            i += punct.length;
+            continue;
+        }
+
+        if (ch === '=') {
+            throw new ExpressionParseError(`Unexpected '=' — use '==' for equality`, i);
+        }
+        if (ch === '&' || ch === '|') {
+            throw new ExpressionParseError(`Unexpected '${ch}' — use '${ch}${ch}'`, i);
+        }
+        throw new ExpressionParseError(`Unexpected character '${ch}'`, i);
+    }
+
+    tokens.push({ type: 'eof', text: '', start: text.length, end: text.length });
+    return tokens;
+}
+
+// ============================================================================
+// Parser
+// ============================================================================
+
+class Parser {
+    private index = 0;
+
+    constructor(private readonly tokens: Token[]) {}
+
+    parse(): SpecExpression {
+        const expr = this.parseImplication();
+        const next = this.peek();
+        if (next.type !== 'eof') {
+            throw new ExpressionParseError(`Unexpected '${next.text}' after expression`, next.start);
+        }
+        return expr;
+    }
+
+    private peek(): Token {
+        return this.tokens[this.index];
+    }
+
+    private advance(): Token {
+        return this.tokens[this.index++];
+    }
+
+    private isPunct(text: string): boolean {
+        const tok = this.peek();
+        return tok.type === 'punct' && tok.text === text;
+    }
+
+    private isKeyword(text: string): boolean {
+        const tok = this.peek();
+        return tok.type === 'ident' && tok.text === text;
+    }
+
+    private expectPunct(text: string, context: string): Token {
+        const tok = this.peek();
+        if (tok.type !== 'punct' || tok.text !== text) {
+            const found = tok.type === 'eof' ? 'end of expression' : `'${tok.text}'`;
+            throw new ExpressionParseError(`Expected '${text}' ${context}, found ${found}`, tok.start);
+        }
+        return this.advance();
+    }
+
+    private binary(
+        operator: SpecBinaryOperator,
+        left: SpecExpression,
+        right: SpecExpression,
+    ): SpecExpression {
+        return { kind: 'binary', operator, left, right, start: left.start, end: right.end };
+    }
+
+    private parseImplication(): SpecExpression {
+        const left = this.parseOr();
+        if (this.isKeyword('implies')) {
+            this.advance();
+            const right = this.parseImplication();
+            return this.binary('implies', left, right);
+        }
+        return left;
+    }
+
+    private parseOr(): SpecExpression {
+        let left = this.parseAnd();
+        while (this.isPunct('||')) {
+            this.advance();
+            left = this.binary('||', left, this.parseAnd());
+        }
+        return left;
+    }
+
+    private parseAnd(): SpecExpression {
+        let left = this.parseEquality();
+        while (this.isPunct('&&')) {
+            this.advance();
+            left = this.binary('&&', left, this.parseEquality());
+        }
+        return left;
+    }
+
+    private parseEquality(): SpecExpression {
+        let left = this.parseComparison();
+        while (this.isPunct('==') || this.isPunct('!=')) {
+            const op = this.advance().text as SpecBinaryOperator;
+            left = this.binary(op, left, this.parseComparison());
+        }
+        return left;
+    }
+
+    private parseComparison(): SpecExpression {
+        let left = this.parseAdditive();
+        while (this.isPunct('>') || this.isPunct('<') || this.isPunct('>=') || this.isPunct('<=')) {
+            const op = this.advance().text as SpecBinaryOperator;
+            left = this.binary(op, left, this.parseAdditive());
+        }
+        return left;
+    }
+
+    private parseAdditive(): SpecExpression {
+        let left = this.parseTerm();
+        while (this.isPunct('+') || this.isPunct('-')) {
+            const op = this.advance().text as SpecBinaryOperator;
+            left = this.binary(op, left, this.parseTerm());
+        }
+        return left;
+    }
+
+    private parseTerm(): SpecExpression {
+        let left = this.parseUnary();
+        while (this.isPunct('*') || this.isPunct('/')) {
+            const op = this.advance().text as SpecBinaryOperator;
+            left = this.binary(op, left, this.parseUnary());
+        }
+        return left;
+    }
+
+    private parseUnary(): SpecExpression {
+        if (this.isPunct('!') || this.isPunct('-')) {
+            const tok = this.advance();
+            const operand = this.parseUnary();
+            return {
+                kind: 'unary',
+                operator: tok.text as '!' | '-',
+                operand,
+                start: tok.start,
+                end: operand.end,
+            };
+        }
+        return this.parsePostfix();
+    }
+
+    private parsePostfix(): SpecExpression {
+        let expr = this.parsePrimary();
+
+        for (;;) {
+            if (this.isPunct('.')) {
+                this.advance();
+                const prop = this.peek();
+                if (prop.type !== 'ident') {
+                    throw new ExpressionParseError(`Expected property name after '.'`, prop.start);
+                }
+                this.advance();
+                expr = { kind: 'member', object: expr, property: prop.text, start: expr.start, end: prop.end };
+                expr = this.specializeMember(expr);
+            } else if (this.isPunct('(')) {
+                this.advance();
+                const args = this.parseArguments();
+                const close = this.expectPunct(')', 'to close argument list');
+                expr = this.specializeCall(expr, args, close.end);
+            } else {
+                return expr;
+            }
+        }
+    }
+
+    private parseArguments(): SpecExpression[] {
+        const args: SpecExpression[] = [];
+        if (this.isPunct(')')) return args;
+        args.push(this.parseImplication());
+        while (this.isPunct(',')) {
+            this.advance();
+            args.push(this.parseImplication());
+        }
+        return args;
+    }
+
+    /**
+     * Turn `u256.Zero` / `u256.One` / `u256.Max` into constants.
+     */
+    private specializeMember(expr: SpecExpression): SpecExpression {
+        if (
+            expr.kind === 'member' &&
+            expr.object.kind === 'identifier' &&
+            expr.object.name === 'u256' &&
+            expr.property in U256_CONSTANTS
+        ) {
+            return { kind: 'u256', value: U256_CONSTANTS[expr.property], start: expr.start, end: expr.end };
+        }
+        return expr;
+    }
+
+    /**
+     * Recognise built-in calls: old(), sum/count/max(map), u256.fromU32(n),
+     * SafeMath.op(a, b).
+     */
+    private specializeCall(callee: SpecExpression, args: SpecExpression[], end: number): SpecExpression {
+        const start = callee.start;
+
+        if (callee.kind === 'identifier' && callee.name === 'old') {
+            if (args.length !== 1) {
+                throw new ExpressionParseError(`old() takes exactly one argument, got ${args.length}`, start);
+            }
+            return { kind: 'old', argument: args[0], start, end };
+        }
+
+        if (callee.kind === 'identifier' && AGGREGATES.has(callee.name)) {
+            if (args.length !== 1) {
+                throw new ExpressionParseError(`${callee.name}() takes exactly one map, got ${args.length} arguments`, start);
+            }
+            return { kind: 'aggregate', aggregate: callee.name as AggregateFunction, map: args[0], start, end };
+        }
+
+        if (callee.kind === 'member' && callee.object.kind === 'identifier') {
+            const owner = callee.object.name;
+            const name = callee.property;
+
+            if (owner === 'u256' && U256_FACTORIES.has(name) && args.length === 1 && args[0].kind === 'number') {
+                return { kind: 'u256', value: args[0].value, start, end };
+            }
+
+            if (owner === 'SafeMath') {
+                if (!SAFEMATH_OPERATIONS.has(name)) {
+                    throw new ExpressionParseError(`Unknown SafeMath operation '${name}'`, callee.end - name.length);
+                }
+                if (args.length !== 2) {
+                    throw new ExpressionParseError(`SafeMath.${name}() takes two arguments, got ${args.length}`, start);
+                }
+                return { kind: 'safemath', operation: name as SafeMathOperation, args, start, end };
+            }
+        }
+
+        return { kind: 'call', callee, args, start, end };
+    }
+
+    /**
+     * `forall i in range(a, b) : body` — the body extends as far right as possible.
+     */
+    private parseQuantifier(keyword: Token): SpecExpression {
+        const variable = this.advance();
+        if (!this.isKeyword('in')) {
+            const tok = this.peek();
+            throw new ExpressionParseError(`Expected 'in' after '${keyword.text} ${variable.text}'`, tok.start);
+        }
+        this.advance();
+        const domain = this.parseDomain();
+        this.expectPunct(':', `after the ${keyword.text} domain`);
+        const body = this.parseImplication();
+        return {
+            kind: 'quantifier',
+            quantifier: keyword.text as 'forall' | 'exists',
+            variable: variable.text,
+            domain,
+            body,
+            start: keyword.start,
+            end: body.end,
+        };
+    }
+
+    private parseDomain(): SpecQuantifierDomain {
+        const tok = this.peek();
+        if (tok.type !== 'ident' || (tok.text !== 'range' && tok.text !== 'keys')) {
+            throw new ExpressionParseError('Quantifier domain must be range(from, to) or keys(this.map)', tok.start);
+        }
+        this.advance();
+        this.expectPunct('(', `after '${tok.text}'`);
+        const args = this.parseArguments();
+        this.expectPunct(')', `to close ${tok.text}()`);
+        if (tok.text === 'range') {
+            if (args.length !== 2) {
+                throw new ExpressionParseError(`range() takes two arguments, got ${args.length}`, tok.start);
+            }
+            return { kind: 'range', from: args[0], to: args[1] };
+        }
+        if (args.length !== 1) {
+            throw new ExpressionParseError(`keys() takes one argument, got ${args.length}`, tok.start);
+        }
+        return { kind: 'keys', map: args[0] };
+    }
+
+    private parsePrimary(): SpecExpression {
+        const tok = this.peek();
+
+        switch (tok.type) {
+            case 'number': {
+                this.advance();
+                return { kind: 'number', value: BigInt(tok.text.replace(/_/g, '')), start: tok.start, end: tok.end };
+            }
+            case 'string': {
+                this.advance();
+                return { kind: 'string', value: tok.text.slice(1, -1), start: tok.start, end: tok.end };
+            }
+            case 'ident': {
+                this.advance();
+                switch (tok.text) {
+                    case 'true':
+                    case 'false':
+                        return { kind: 'boolean', value: tok.text === 'true', start: tok.start, end: tok.end };
+                    case 'this':
+                        return { kind: 'this', start: tok.start, end: tok.end };
+                    case 'return':
+                        return { kind: 'return', start: tok.start, end: tok.end };
+                    case 'implies':
+                        throw new ExpressionParseError(`'implies' needs a left-hand operand`, tok.start);
+                    case 'forall':
+                    case 'exists':
+                        if (this.peek().type === 'ident') return this.parseQuantifier(tok);
+                        return { kind: 'identifier', name: tok.text, start: tok.start, end: tok.end };
+                    default:
+                        return { kind: 'identifier', name: tok.text, start: tok.start, end: tok.end };
+                }
+            }
+            case 'punct': {
+                if (tok.text === '(') {
+                    this.advance();
+                    const inner = this.parseImplication();
+                    this.expectPunct(')', 'to close parenthesis');
+                    return inner;
+                }
+                throw new ExpressionParseError(`Unexpected '${tok.text}'`, tok.start);
+            }
+            case 'eof':
+                throw new ExpressionParseError('Unexpected end of expression', tok.start);
+        }
+    }
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Parse a spec expression. Throws ExpressionParseError on malformed input.
+ */
+export function parseSpecExpression(text: string): SpecExpression {
+    if (text.trim() === '') {
+        throw new ExpressionParseError('Empty expression', 0);
+    }
+    return new Parser(tokenize(text)).parse();
+}
+
+/**
+ * Visit every node in an expression tree (pre-order).
+ */
+export function walkSpecExpression(
+    expr: SpecExpression,
+    callback: (node: SpecExpression) => void,
+): void {
+    callback(expr);
+    for (const child of specExpressionChildren(expr)) {
+        walkSpecExpression(child, callback);
+    }
+}
+
+/**
+ * Direct children of an expression node.
+ */
+export function specExpressionChildren(expr: SpecExpression): SpecExpression[] {
+    switch (expr.kind) {
+        case 'safemath':
+            return expr.args;
+        case 'old':
+            return [expr.argument];
+        case 'aggregate':
+            return [expr.map];
+        case 'member':
+            return [expr.object];
+        case 'call':
+            return [expr.callee, ...expr.args];
+        case 'unary':
+            return [expr.operand];
+        case 'binary':
+            return [expr.left, expr.right];
+        case 'quantifier':
+            return expr.domain.kind === 'range'
+                ? [expr.domain.from, expr.domain.to, expr.body]
+                : [expr.domain.map, expr.body];
+        default:
+            return [];
+    }
+}
+
+/**
+ * Render an expression back to canonical source text.
+ */
+export function formatSpecExpression(expr: SpecExpression): string {
+    switch (expr.kind) {
+        case 'number':
+            return expr.value.toString();
+        case 'boolean':
+            return String(expr.value);
+        case 'string':
+            return JSON.stringify(expr.value);
+        case 'identifier':
+            return expr.name;
+        case 'this':
+            return 'this';
+        case 'return':
+            return 'return';
+        case 'u256':
+            if (expr.value === 0n) return 'u256.Zero';
+            if (expr.value === 1n) return 'u256.One';
+            if (expr.value === U256_CONSTANTS.Max) return 'u256.Max';
+            return `u256.fromU32(${expr.value})`;
+        case 'safemath':
+            return `SafeMath.${expr.operation}(${expr.args.map(formatSpecExpression).join(', ')})`;
+        case 'old':
+            return `old(${formatSpecExpression(expr.argument)})`;
+        case 'aggregate':
+            return `${expr.aggregate}(${formatSpecExpression(expr.map)})`;
+        case 'member':
+            return `${formatSpecExpression(expr.object)}.${expr.property}`;
+        case 'call':
+            return `${formatSpecExpression(expr.callee)}(${expr.args.map(formatSpecExpression).join(', ')})`;
+        case 'unary': {
+            const operand = formatSpecExpression(expr.operand);
+            return expr.operand.kind === 'binary' || expr.operand.kind === 'quantifier'
+                ? `${expr.operator}(${operand})`
+                : `${expr.operator}${operand}`;
+        }
+        case 'binary': {
+            // Operators group to the left, except `implies`: an operand on
+            // the other side with the same precedence needs parentheses
+            const rightAssociative = expr.operator === 'implies';
+            const wrap = (e: SpecExpression, tight: boolean) =>
+                e.kind === 'quantifier' ||
+                (e.kind === 'binary' &&
+                    (tight ? precedence(e.operator) <= precedence(expr.operator) : precedence(e.operator) < precedence(expr.operator)))
+                    ? `(${formatSpecExpression(e)})`
+                    : formatSpecExpression(e);
+            return `${wrap(expr.left, rightAssociative)} ${expr.operator} ${wrap(expr.right, !rightAssociative)}`;
+        }
+        case 'quantifier': {
+            const { domain } = expr;
+            const range = domain.kind === 'range'
+                ? `range(${formatSpecExpression(domain.from)}, ${formatSpecExpression(domain.to)})`
+                : `keys(${formatSpecExpression(domain.map)})`;
+            return `${expr.quantifier} ${expr.variable} in ${range} : ${formatSpecExpression(expr.body)}`;
+        }
+    }
+}
+
+function precedence(op: SpecBinaryOperator): number {
+    switch (op) {
+        case 'implies':
+            return 0;
+        case '||':
+            return 1;
+        case '&&':
+            return 2;
+        case '==':
+        case '!=':
+            return 3;
+        case '>':
+        case '<':
+        case '>=':
+        case '<=':
+            return 4;
+        case '+':
+        case '-':
+            return 5;
+        case '*':
+        case '/':
+            return 6;
+    }
+}
+
+/**
+ * Collect stored-field names referenced as `this.<field>.value`, or as maps
+ * read with `this.<map>.get(...)` / `<map>.get(...)` or aggregated with
+ * `sum(this.<map>)` and friends.
+ */
+export function collectFieldReferences(expr: SpecExpression): string[] {
+    const refs: string[] = [];
+    walkSpecExpression(expr, (node) => {
+        if (node.kind === 'member' && node.object.kind === 'member' && node.object.object.kind === 'this') {
+            if (node.property === 'value') {
+                refs.push(node.object.property);
+            }
+        }
+        if (node.kind === 'call' && node.callee.kind === 'member' && node.callee.property === 'get') {
+            const map = node.callee.object;
+            if (map.kind === 'member' && map.object.kind === 'this') refs.push(map.property);
+            if (map.kind === 'identifier') refs.push(map.name);
+        }
+        if (node.kind === 'aggregate') {
+            if (node.map.kind === 'member' && node.map.object.kind === 'this') refs.push(node.map.property);
+            if (node.map.kind === 'identifier') refs.push(node.map.name);
+        }
+    });
+    return [...new Set(refs)];
+}
+
+/**
+ * Collect the argument text of every old(...) in the expression.
+ */
+export function collectOldReferences(expr: SpecExpression): string[] {
+    const refs: string[] = [];
+    walkSpecExpression(expr, (node) => {
+        if (node.kind === 'old') {
+            refs.push(formatSpecExpression(node.argument));
+        }
+    });
+    return refs;
+}
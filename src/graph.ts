@@ -0,0 +1,143 @@
+// ============================================================================
+// opspec Graph Export — Mermaid and Graphviz renderings of @state machines
+// ============================================================================
+//
+// Draws the graph of `buildStateGraph`, with `!X` already expanded into the
+// states it stands for. Transitions with the same ends, condition and status
+// share one arrow labelled with all their methods, and each arrow is
+// coloured by the verification status of the @state line it comes from.
+
+import { ContractSpecs, StateEdge, VerificationReport, VerificationStatus } from './types';
+import { buildStateGraph } from './statemachine';
+
+export type GraphFormat = 'mermaid' | 'dot';
+
+export const GRAPH_FORMATS: GraphFormat[] = ['mermaid', 'dot'];
+
+const STATUS_COLORS: Record<VerificationStatus, string> = {
+    VERIFIED: '#2e7d32',
+    UNVERIFIED: '#f9a825',
+    VIOLATED: '#c62828',
+    MISSING: '#757575',
+};
+
+/** Worst status first: one failing method makes its whole @state line fail */
+const STATUS_ORDER: VerificationStatus[] = ['VIOLATED', 'MISSING', 'UNVERIFIED', 'VERIFIED'];
+
+interface Arrow {
+    from: string;
+    to: string;
+    methods: string[];
+    condition?: string;
+    status?: VerificationStatus;
+}
+
+/**
+ * Render a contract's @state machine. `report` supplies the colours; without
+ * it every arrow is drawn plain.
+ */
+export function renderStateGraph(contract: ContractSpecs, format: GraphFormat, report?: VerificationReport): string {
+    const graph = buildStateGraph(contract);
+    const statuses = report ? lineStatuses(report) : new Map<number, VerificationStatus>();
+    const arrows = groupEdges(graph.edges, statuses);
+    const terminal = new Set(
+        contract.stateProperties.flatMap((p) => (p.property.kind === 'terminal' ? [p.property.state] : [])),
+    );
+    return format === 'dot'
+        ? renderDot(contract.className, graph.states, graph.initial, terminal, arrows)
+        : renderMermaid(contract.className, graph.states, graph.initial, terminal, arrows);
+}
+
+/**
+ * The status of each @state line: the worst over the methods it names.
+ */
+function lineStatuses(report: VerificationReport): Map<number, VerificationStatus> {
+    const statuses = new Map<number, VerificationStatus>();
+    for (const r of report.results) {
+        if (r.spec.tag !== 'state') continue;
+        const current = statuses.get(r.line);
+        if (!current || STATUS_ORDER.indexOf(r.status) < STATUS_ORDER.indexOf(current)) statuses.set(r.line, r.status);
+    }
+    return statuses;
+}
+
+function groupEdges(edges: StateEdge[], statuses: Map<number, VerificationStatus>): Arrow[] {
+    const arrows = new Map<string, Arrow>();
+    for (const e of edges) {
+        const status = statuses.get(e.line);
+        const key = [e.from, e.to, e.condition ?? '', status ?? ''].join('\u0000');
+        const arrow = arrows.get(key);
+        if (!arrow) {
+            arrows.set(key, { from: e.from, to: e.to, methods: [`${e.method}()`], condition: e.condition, status });
+        } else if (!arrow.methods.includes(`${e.method}()`)) {
+            arrow.methods.push(`${e.method}()`);
+        }
+    }
+    return [...arrows.values()];
+}
+
+// ============================================================================
+// Mermaid
+// ============================================================================
+
+function renderMermaid(
+    name: string,
+    states: string[],
+    initial: string | undefined,
+    terminal: Set<string>,
+    arrows: Arrow[],
+): string {
+    const id = (state: string) => `s_${state.replace(/\W/g, '_')}`;
+    const text = (s: string) => s.replace(/"/g, '#quot;').replace(/</g, '#lt;').replace(/>/g, '#gt;');
+
+    const lines = ['```mermaid', `%% ${name}`, 'flowchart LR'];
+    if (initial) lines.push('    start((" ")) --> ' + id(initial));
+    for (const state of states) {
+        lines.push(terminal.has(state) ? `    ${id(state)}((("${text(state)}")))` : `    ${id(state)}(["${text(state)}"])`);
+    }
+
+    const styles: string[] = [];
+    let index = initial ? 1 : 0;
+    for (const a of arrows) {
+        const label = text(a.methods.join(', ')) + (a.condition ? `<br/>when ${text(a.condition)}` : '');
+        lines.push(`    ${id(a.from)} -->|"${label}"| ${id(a.to)}`);
+        if (a.status) styles.push(`    linkStyle ${index} stroke:${STATUS_COLORS[a.status]},color:${STATUS_COLORS[a.status]}`);
+        index++;
+    }
+    lines.push(...styles, '```');
+    return lines.join('\n');
+}
+
+// ============================================================================
+// Graphviz
+// ============================================================================
+
+function renderDot(
+    name: string,
+    states: string[],
+    initial: string | undefined,
+    terminal: Set<string>,
+    arrows: Arrow[],
+): string {
+    const quote = (s: string) => `"${s.replace(/"/g, '\\"')}"`;
+
+    const lines = [`digraph ${quote(name)} {`, '    rankdir=LR;', '    node [shape=box, style=rounded];'];
+    if (initial) {
+        lines.push('    __start [shape=point, label=""];');
+        lines.push(`    __start -> ${quote(initial)};`);
+    }
+    for (const state of states) {
+        lines.push(`    ${quote(state)}${terminal.has(state) ? ' [peripheries=2]' : ''};`);
+    }
+    for (const a of arrows) {
+        const label = a.methods.join(', ') + (a.condition ? `\\nwhen ${a.condition}` : '');
+        const attrs = [`label=${quote(label)}`];
+        if (a.status) {
+            const color = quote(STATUS_COLORS[a.status]);
+            attrs.push(`color=${color}`, `fontcolor=${color}`, `tooltip=${quote(a.status)}`);
+        }
+        lines.push(`    ${quote(a.from)} -> ${quote(a.to)} [${attrs.join(', ')}];`);
+    }
+    lines.push('}');
+    return lines.join('\n');
+}
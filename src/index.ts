@@ -4,8 +4,34 @@
 
 export * from './types';
 export { parseFile, parseSource, parseDirectory, parsePath } from './spec-parser';
+export {
+    parseSpecExpression,
+    walkSpecExpression,
+    formatSpecExpression,
+    ExpressionParseError,
+} from './expression-parser';
 export { verifyContract, verifyFile } from './verifier';
-export { formatReport, formatReports, formatReportsJson, formatCoverage } from './reporter';
+export { buildSymbolicContext, executeMethod, evaluateSpec } from './symbolic';
+export { prove } from './prover';
+export { proveByInduction } from './quantifiers';
+export { formatTerm } from './terms';
+export { normalizeExpression, normalizeCondition, guardEnforces, findSenderChecks, findEnforcingGuards } from './normalize';
+export {
+    generateVerificationConditions,
+    formatVerificationCondition,
+    solveVerificationConditions,
+} from './vc';
+export { buildSmtScript, runSolver } from './smt';
+export { loadConfig } from './config';
+export {
+    formatReport,
+    formatReports,
+    formatReportsJson,
+    formatCoverage,
+    formatStateMachine,
+    formatDiagnostics,
+} from './reporter';
+export { hasErrors, sortDiagnostics } from './diagnostics';
 export {
     generateTemplates,
     formatTemplatesAsAnnotations,
@@ -13,3 +39,14 @@ export {
     generateAnnotatedSource,
 } from './template-generator';
 export { computeCoverage, computeCoverageFromFile } from './coverage';
+export {
+    buildStateGraph,
+    checkStateProperty,
+    findStateRun,
+    extractStateMachine,
+    diffStateMachines,
+    analyzeStateMachine,
+    analyzeStateMachinesInFile,
+} from './statemachine';
+export { renderStateGraph, GRAPH_FORMATS } from './graph';
+export type { GraphFormat } from './graph';
@@ -0,0 +1,394 @@
+// ============================================================================
+// opspec Intervals — Interval bounds for u256 values on symbolic paths
+// ============================================================================
+//
+// An abstract domain beside the prover: every u256 value is bounded by an
+// interval [lo, hi] within [0, 2^256-1]. The guards of a path narrow the
+// intervals of the fields and locals they compare, and arithmetic carries
+// them forward: SafeMath results stay in range (inputs that would overflow
+// revert instead), while unchecked results that might wrap widen to the
+// whole range. Intervals over-approximate, so a value outside the bounds
+// is only a definite violation when the range is a single value.
+
+import { SpecExpression } from './types';
+import { Term, ArithOperator, CompareOperator, U256_MAX, termKey, walkTerm, negateCompare } from './terms';
+import { isContradictory } from './prover';
+import {
+    SymbolicContext,
+    PathState,
+    executeMethod,
+    writesAny,
+    initialFieldTerm,
+    currentFieldTerm,
+} from './symbolic';
+import { deploymentPaths } from './quantifiers';
+
+export interface Interval {
+    lo: bigint;
+    hi: bigint;
+}
+
+/** Known bounds per symbol, keyed by termKey */
+export type IntervalEnv = Map<string, Interval>;
+
+export const FULL_RANGE: Interval = { lo: 0n, hi: U256_MAX };
+
+/** Guards can narrow each other in turn; stop after this many passes */
+const MAX_NARROWING_ROUNDS = 8;
+
+// ============================================================================
+// Domain
+// ============================================================================
+
+function interval(lo: bigint, hi: bigint): Interval | undefined {
+    const clamped = { lo: lo < 0n ? 0n : lo, hi: hi > U256_MAX ? U256_MAX : hi };
+    return clamped.lo <= clamped.hi ? clamped : undefined;
+}
+
+export function meet(a: Interval, b: Interval): Interval | undefined {
+    return interval(a.lo > b.lo ? a.lo : b.lo, a.hi < b.hi ? a.hi : b.hi);
+}
+
+export function join(a: Interval, b: Interval): Interval {
+    return { lo: a.lo < b.lo ? a.lo : b.lo, hi: a.hi > b.hi ? a.hi : b.hi };
+}
+
+export function contains(outer: Interval, inner: Interval): boolean {
+    return outer.lo <= inner.lo && inner.hi <= outer.hi;
+}
+
+/**
+ * Render an interval for messages, e.g. "[0, 500]" or "[1, u256.Max]".
+ */
+export function formatInterval(i: Interval): string {
+    const bound = (v: bigint) => (v === U256_MAX ? 'u256.Max' : v.toString());
+    return i.lo === i.hi ? bound(i.lo) : `[${bound(i.lo)}, ${bound(i.hi)}]`;
+}
+
+/**
+ * Bounds of an integer term; undefined when no value fits (the path cannot
+ * return, e.g. a SafeMath.sub that always underflows).
+ */
+export function intervalOf(term: Term, env: IntervalEnv): Interval | undefined {
+    switch (term.kind) {
+        case 'const':
+            return interval(term.value, term.value);
+        case 'var':
+        case 'select':
+            return env.get(termKey(term)) ?? FULL_RANGE;
+        case 'ite': {
+            const a = intervalOf(term.then, env);
+            const b = intervalOf(term.else, env);
+            return a && b ? join(a, b) : a ?? b;
+        }
+        case 'arith': {
+            const l = intervalOf(term.left, env);
+            const r = intervalOf(term.right, env);
+            if (!l || !r) return undefined;
+            const exact = arithBounds(term.op, l, r);
+            if (!exact) return undefined;
+            // SafeMath reverts outside the range; unchecked arithmetic wraps into all of it
+            if (term.checked) return interval(exact.lo, exact.hi);
+            return exact.lo >= 0n && exact.hi <= U256_MAX ? exact : FULL_RANGE;
+        }
+        default:
+            return FULL_RANGE;
+    }
+}
+
+/**
+ * Mathematical bounds of `l op r`, before any range check.
+ */
+function arithBounds(op: ArithOperator, l: Interval, r: Interval): Interval | undefined {
+    switch (op) {
+        case 'add':
+            return { lo: l.lo + r.lo, hi: l.hi + r.hi };
+        case 'sub':
+            return { lo: l.lo - r.hi, hi: l.hi - r.lo };
+        case 'mul':
+            return { lo: l.lo * r.lo, hi: l.hi * r.hi };
+        case 'div':
+            if (r.hi === 0n) return undefined;
+            return { lo: l.lo / r.hi, hi: l.hi / (r.lo === 0n ? 1n : r.lo) };
+    }
+}
+
+// ============================================================================
+// Narrowing
+// ============================================================================
+
+/**
+ * Narrow `env` by facts that hold on a path. Returns undefined when they
+ * cannot all hold.
+ */
+export function narrow(facts: Term[], env: IntervalEnv): IntervalEnv | undefined {
+    const result = new Map(env);
+    for (let round = 0; round < MAX_NARROWING_ROUNDS; round++) {
+        const before = snapshot(result);
+        for (const fact of facts) {
+            if (!assume(fact, result)) return undefined;
+        }
+        if (snapshot(result) === before) break;
+    }
+    return result;
+}
+
+function snapshot(env: IntervalEnv): string {
+    return [...env].map(([k, i]) => `${k}:${i.lo}:${i.hi}`).join('|');
+}
+
+/**
+ * Narrow by one fact; false when it cannot hold.
+ */
+function assume(fact: Term, env: IntervalEnv): boolean {
+    switch (fact.kind) {
+        case 'bool':
+            return fact.value;
+        case 'cmp':
+            return assumeCompare(fact.op, fact.left, fact.right, env);
+        case 'and':
+            return fact.args.every((arg) => assume(arg, env));
+        case 'or': {
+            // Keep what every feasible disjunct allows
+            const branches = fact.args
+                .map((arg) => narrow([arg], env))
+                .filter((b): b is IntervalEnv => b !== undefined);
+            if (branches.length === 0) return false;
+            for (const key of new Set(branches.flatMap((b) => [...b.keys()]))) {
+                if (branches.some((b) => !b.has(key))) continue;
+                const joined = branches.map((b) => b.get(key)!).reduce(join);
+                const current = env.get(key);
+                const met = current ? meet(current, joined) : joined;
+                if (!met) return false;
+                env.set(key, met);
+            }
+            return true;
+        }
+        case 'not': {
+            const arg = fact.arg;
+            if (arg.kind === 'cmp') return assumeCompare(negateCompare(arg.op), arg.left, arg.right, env);
+            if (arg.kind === 'not') return assume(arg.arg, env);
+            if (arg.kind === 'bool') return !arg.value;
+            if (arg.kind === 'or') return arg.args.every((a) => assume({ kind: 'not', arg: a }, env));
+            return true;
+        }
+        default:
+            return true;
+    }
+}
+
+function assumeCompare(op: CompareOperator, left: Term, right: Term, env: IntervalEnv): boolean {
+    const l = intervalOf(left, env);
+    const r = intervalOf(right, env);
+    if (!l || !r) return false;
+    switch (op) {
+        case 'lt':
+            return restrict(left, 0n, r.hi - 1n, env) && restrict(right, l.lo + 1n, U256_MAX, env);
+        case 'le':
+            return restrict(left, 0n, r.hi, env) && restrict(right, l.lo, U256_MAX, env);
+        case 'gt':
+            return assumeCompare('lt', right, left, env);
+        case 'ge':
+            return assumeCompare('le', right, left, env);
+        case 'eq':
+            return restrict(left, r.lo, r.hi, env) && restrict(right, l.lo, l.hi, env);
+        case 'ne':
+            return excludeSingle(left, r, env) && excludeSingle(right, l, env);
+    }
+}
+
+/**
+ * `term != v` for a single value v trims v off the ends of term's range.
+ */
+function excludeSingle(term: Term, other: Interval, env: IntervalEnv): boolean {
+    if (other.lo !== other.hi) return true;
+    const current = intervalOf(term, env);
+    if (!current) return false;
+    if (current.lo === other.lo) return restrict(term, current.lo + 1n, current.hi, env);
+    if (current.hi === other.lo) return restrict(term, current.lo, current.hi - 1n, env);
+    return true;
+}
+
+/**
+ * Record that `term` lies in [lo, hi], pushing the bound down into symbols
+ * through checked addition and subtraction. False when no value fits.
+ */
+function restrict(term: Term, lo: bigint, hi: bigint, env: IntervalEnv): boolean {
+    const current = intervalOf(term, env);
+    const bound = interval(lo, hi);
+    if (!current || !bound) return false;
+    const met = meet(current, bound);
+    if (!met) return false;
+
+    if (term.kind === 'var' || term.kind === 'select') {
+        env.set(termKey(term), met);
+        return true;
+    }
+    if (term.kind === 'arith' && term.checked && (term.op === 'add' || term.op === 'sub')) {
+        const l = intervalOf(term.left, env);
+        const r = intervalOf(term.right, env);
+        if (!l || !r) return false;
+        // l + r = m: l in m - r, r in m - l;  l - r = m: l in m + r, r in l - m
+        return term.op === 'add'
+            ? restrict(term.left, met.lo - r.hi, met.hi - r.lo, env) && restrict(term.right, met.lo - l.hi, met.hi - l.lo, env)
+            : restrict(term.left, met.lo + r.lo, met.hi + r.hi, env) && restrict(term.right, l.lo - met.hi, l.hi - met.lo, env);
+    }
+    return true;
+}
+
+// ============================================================================
+// Bound invariants
+// ============================================================================
+
+/**
+ * The field bounds an invariant states, when it is a conjunction of
+ * comparisons between StoredU256 fields and constants, e.g.
+ * `this.platformFeeBps.value <= u256.fromU32(500)`.
+ */
+export function invariantBounds(expr: SpecExpression, ctx: SymbolicContext): Map<string, Interval> | undefined {
+    const bounds = new Map<string, Interval>();
+    const add = (expr: SpecExpression): boolean => {
+        if (expr.kind !== 'binary') return false;
+        if (expr.operator === '&&') return add(expr.left) && add(expr.right);
+
+        const ops: Record<string, CompareOperator> = { '<': 'lt', '<=': 'le', '>': 'gt', '>=': 'ge', '==': 'eq' };
+        let op = ops[expr.operator];
+        let field = storedU256Field(expr.left, ctx);
+        let value = constantOf(expr.right, ctx);
+        if (field === undefined) {
+            field = storedU256Field(expr.right, ctx);
+            value = constantOf(expr.left, ctx);
+            op = op && mirror(op);
+        }
+        if (!op || field === undefined || value === undefined) return false;
+
+        const range = { lt: [0n, value - 1n], le: [0n, value], gt: [value + 1n, U256_MAX], ge: [value, U256_MAX], eq: [value, value] }[
+            op as 'lt' | 'le' | 'gt' | 'ge' | 'eq'
+        ];
+        const met = meet(bounds.get(field) ?? FULL_RANGE, interval(range[0], range[1]) ?? { lo: 1n, hi: 0n });
+        if (!met) return false;
+        bounds.set(field, met);
+        return true;
+    };
+    return add(expr) ? bounds : undefined;
+}
+
+function mirror(op: CompareOperator): CompareOperator {
+    return ({ lt: 'gt', le: 'ge', gt: 'lt', ge: 'le', eq: 'eq', ne: 'ne' } as const)[op];
+}
+
+/** `this.F.value` for a StoredU256 field F */
+function storedU256Field(expr: SpecExpression, ctx: SymbolicContext): string | undefined {
+    if (expr.kind !== 'member' || expr.property !== 'value') return undefined;
+    const inner = expr.object;
+    if (inner.kind !== 'member' || inner.object.kind !== 'this') return undefined;
+    return ctx.storedFields.get(inner.property) === 'StoredU256' ? inner.property : undefined;
+}
+
+/** Literals, u256 constants, and named constants (`MAX_FEE`, `this.MAX_FEE`) */
+function constantOf(expr: SpecExpression, ctx: SymbolicContext): bigint | undefined {
+    if (expr.kind === 'number' || expr.kind === 'u256') return expr.value;
+    const name = expr.kind === 'identifier'
+        ? expr.name
+        : expr.kind === 'member' && expr.object.kind === 'this' ? expr.property : undefined;
+    const term = name === undefined ? undefined : ctx.constants.get(name);
+    return term?.kind === 'const' ? term.value : undefined;
+}
+
+// ============================================================================
+// Checking
+// ============================================================================
+
+export interface BoundsStep {
+    /** The method whose returning paths were bounded; undefined for zeroed storage */
+    methodName?: string;
+    field: string;
+    /** Range of the field over the method's returning paths */
+    range: Interval;
+    holds: boolean;
+    /** A path where the field can leave its bounds */
+    path?: PathState;
+    /** That path leaves the bounds for certain: its range is one value outside them */
+    definite?: boolean;
+}
+
+export interface BoundsCheck {
+    /** The fields after deployment: zeroed storage, then onDeployment() */
+    initial: BoundsStep[];
+    /** Methods that write a bounded field, with the fields assumed in bounds on entry */
+    steps: BoundsStep[];
+    /** Entry points whose paths could not all be explored */
+    truncated: string[];
+}
+
+/**
+ * Check by interval analysis that the fields start within their bounds and
+ * every entry point in `methodNames` that writes them keeps them there.
+ */
+export function checkBounds(bounds: Map<string, Interval>, ctx: SymbolicContext, methodNames: string[]): BoundsCheck {
+    const fields = [...bounds.keys()];
+    const check: BoundsCheck = { initial: [], steps: [], truncated: [] };
+
+    const initialPaths = deploymentPaths(ctx);
+    const deployment = ctx.methods.has('onDeployment') ? 'onDeployment' : undefined;
+    for (const field of fields) {
+        check.initial.push(boundPaths(field, bounds.get(field)!, initialPaths, ctx, zeroedStorage, deployment));
+    }
+
+    const assumed: IntervalEnv = new Map(fields.map((f) => [termKey(initialFieldTerm(f, ctx)), bounds.get(f)!]));
+    for (const methodName of methodNames) {
+        const method = ctx.methods.get(methodName);
+        if (!method) continue;
+        const execution = executeMethod(method, ctx);
+        const paths = execution.paths.filter((p) => p.status === 'returned');
+        // Dropped paths may write the fields unseen
+        if (execution.truncated) check.truncated.push(methodName);
+        for (const field of fields) {
+            const writing = paths.filter((p) => writesAny(p, [field]));
+            if (writing.length === 0) continue;
+            check.steps.push(boundPaths(field, bounds.get(field)!, writing, ctx, () => new Map(assumed), methodName));
+        }
+    }
+    return check;
+}
+
+/**
+ * Every storage read on a path before deployment is zero.
+ */
+function zeroedStorage(path: PathState, final: Term): IntervalEnv {
+    const env: IntervalEnv = new Map();
+    for (const t of [...path.conditions, final]) {
+        walkTerm(t, (s) => {
+            const stored = (s.kind === 'var' && /^old\(this\.\w+\.value\)$/.test(s.name)) || s.kind === 'select';
+            if (stored) env.set(termKey(s), { lo: 0n, hi: 0n });
+        });
+    }
+    return env;
+}
+
+function boundPaths(
+    field: string,
+    bound: Interval,
+    paths: PathState[],
+    ctx: SymbolicContext,
+    entry: (path: PathState, final: Term) => IntervalEnv,
+    methodName: string | undefined,
+): BoundsStep {
+    const step: BoundsStep = { methodName, field, range: bound, holds: true };
+    let range: Interval | undefined;
+    for (const path of paths) {
+        const final = currentFieldTerm(field, path, ctx);
+        const env = narrow(path.conditions, entry(path, final));
+        const reached = env && intervalOf(final, env);
+        // Guards that cannot all hold: the path never returns
+        if (!reached) continue;
+        range = range ? join(range, reached) : reached;
+        if (!contains(bound, reached) && step.holds) {
+            step.holds = false;
+            step.path = path;
+            step.definite = reached.lo === reached.hi && !path.approximate && !isContradictory(path.conditions);
+        }
+    }
+    step.range = range ?? bound;
+    return step;
+}
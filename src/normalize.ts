@@ -0,0 +1,385 @@
+// ============================================================================
+// opspec Normalize — Canonical forms for guard conditions and preconditions
+// ============================================================================
+//
+// Guard conditions (`if (C) throw new Revert(...)`) and @pre expressions are
+// both translated into terms, so that equivalent spellings meet:
+//   x.isZero()                      → x == 0
+//   a.equals(b), u256.eq(a, b)      → a == b
+//   u256.gt(a, b), u256.lt(b, a)    → a > b, b < a (the prover treats both alike)
+//   !(a == b)                       → a != b
+// Locals are replaced by their `const` initializers and constants by their
+// values; anything else (fields, calls) becomes a symbol named by its text.
+// A guard enforces a precondition when violating the precondition provably
+// makes the guard revert.
+
+import * as ts from 'typescript';
+import { SpecExpression } from './types';
+import { parseSpecExpression, formatSpecExpression } from './expression-parser';
+import { CallGraph, walkTree, reachableMethods, findGuardChecks } from './ast-utils';
+import {
+    Term,
+    TermSort,
+    ArithOperator,
+    CompareOperator,
+    mkConst,
+    mkBool,
+    mkVar,
+    mkArith,
+    mkCmp,
+    mkNot,
+    mkAnd,
+    mkOr,
+    mkImplies,
+    termSort,
+} from './terms';
+import { prove } from './prover';
+
+/** Local names and the (already substituted) expressions they stand for */
+export type Bindings = Map<string, SpecExpression>;
+
+const U256_COMPARE: Record<string, CompareOperator> = { eq: 'eq', ne: 'ne', lt: 'lt', le: 'le', gt: 'gt', ge: 'ge' };
+const U256_ARITH: Record<string, ArithOperator> = { add: 'add', sub: 'sub', mul: 'mul', div: 'div' };
+const SPEC_COMPARE: Record<string, CompareOperator> = {
+    '==': 'eq',
+    '!=': 'ne',
+    '<': 'lt',
+    '<=': 'le',
+    '>': 'gt',
+    '>=': 'ge',
+};
+const SPEC_ARITH: Record<string, ArithOperator> = { '+': 'add', '-': 'sub', '*': 'mul', '/': 'div' };
+
+/**
+ * `const` locals of a method, in source order. `initial` holds bindings that
+ * are already in scope, e.g. parameters bound to call arguments.
+ */
+export function collectLocalBindings(
+    method: ts.MethodDeclaration,
+    sourceFile: ts.SourceFile,
+    initial: Bindings = new Map(),
+): Bindings {
+    const bindings: Bindings = new Map(initial);
+    if (!method.body) return bindings;
+
+    walkTree(method.body, (node) => {
+        if (!ts.isVariableDeclarationList(node) || !(node.flags & ts.NodeFlags.Const)) return;
+        for (const decl of node.declarations) {
+            if (!ts.isIdentifier(decl.name) || !decl.initializer) continue;
+            const value = tryParse(decl.initializer.getText(sourceFile));
+            if (value) bindings.set(decl.name.text, substitute(value, bindings));
+            else bindings.delete(decl.name.text);
+        }
+    });
+    return bindings;
+}
+
+/**
+ * Bindings for a helper's parameters from the arguments of a call to it.
+ */
+export function bindCallArguments(
+    helper: ts.MethodDeclaration,
+    call: ts.CallExpression,
+    sourceFile: ts.SourceFile,
+    callerBindings: Bindings,
+): Bindings {
+    const bindings: Bindings = new Map();
+    for (const [i, param] of helper.parameters.entries()) {
+        const arg = call.arguments[i];
+        const value = arg && ts.isIdentifier(param.name) ? tryParse(arg.getText(sourceFile)) : undefined;
+        if (value && ts.isIdentifier(param.name)) bindings.set(param.name.text, substitute(value, callerBindings));
+    }
+    return bindings;
+}
+
+/**
+ * Bindings in scope inside the last helper of `via`: its locals, and its
+ * parameters bound to the arguments of the first call along the chain.
+ */
+export function bindingsAlong(
+    method: ts.MethodDeclaration,
+    via: string[],
+    sourceFile: ts.SourceFile,
+    callGraph: CallGraph,
+    rootBindings: Bindings,
+): Bindings {
+    let caller = method;
+    let bindings = rootBindings;
+    for (const name of via) {
+        const helper = callGraph.methods.get(name)!;
+        let call: ts.CallExpression | undefined;
+        walkTree(caller, (node) => {
+            if (
+                !call &&
+                ts.isCallExpression(node) &&
+                ts.isPropertyAccessExpression(node.expression) &&
+                node.expression.expression.kind === ts.SyntaxKind.ThisKeyword &&
+                node.expression.name.text === name
+            ) {
+                call = node;
+            }
+        });
+        const params = call ? bindCallArguments(helper, call, sourceFile, bindings) : new Map();
+        bindings = collectLocalBindings(helper, sourceFile, params);
+        caller = helper;
+    }
+    return bindings;
+}
+
+/**
+ * Canonical boolean term for a spec expression, or undefined when it uses
+ * constructs that have no term form (old(), return, strings).
+ */
+export function normalizeExpression(
+    expr: SpecExpression,
+    bindings: Bindings = new Map(),
+    constants: Map<string, Term> = new Map(),
+): Term | undefined {
+    return toTerm(substitute(expr, bindings), 'bool', constants);
+}
+
+/**
+ * Canonical boolean term for a code condition such as `u256.eq(x, u256.Zero)`.
+ */
+export function normalizeCondition(
+    text: string,
+    bindings: Bindings = new Map(),
+    constants: Map<string, Term> = new Map(),
+): Term | undefined {
+    const parsed = tryParse(text);
+    return parsed ? normalizeExpression(parsed, bindings, constants) : undefined;
+}
+
+/**
+ * Canonical value term for code or spec text such as a map key, or undefined
+ * when it has no term form.
+ */
+export function normalizeValue(
+    text: string,
+    bindings: Bindings = new Map(),
+    constants: Map<string, Term> = new Map(),
+): Term | undefined {
+    const parsed = tryParse(text);
+    return parsed ? toTerm(substitute(parsed, bindings), 'int', constants) : undefined;
+}
+
+/**
+ * Whether reverting on `guard` enforces `precondition`: every state that
+ * violates the precondition makes the guard fire.
+ */
+export function guardEnforces(guard: Term, precondition: Term): boolean {
+    return prove([mkNot(precondition)], guard).status === 'proved';
+}
+
+// ============================================================================
+// Sender Checks
+// ============================================================================
+
+/** Symbol for the caller of the current transaction */
+export const SENDER = 'Blockchain.tx.sender';
+
+export interface SenderCheck extends GuardMatch {
+    /** Stored address field the caller must match, e.g. 'owner' */
+    field: string;
+}
+
+/**
+ * A guard, in a method or a helper it calls, that enforces some condition.
+ */
+export interface GuardMatch {
+    /** The guard condition as written */
+    condition: string;
+    pos: number;
+    /** Helper chain to the guard; empty when it is in the method itself */
+    via: string[];
+}
+
+/**
+ * Guards in a method, or in helpers it calls, that revert whenever `goal`
+ * is false.
+ */
+export function findEnforcingGuards(
+    method: ts.MethodDeclaration,
+    sourceFile: ts.SourceFile,
+    callGraph: CallGraph,
+    goal: Term,
+    constants: Map<string, Term> = new Map(),
+): GuardMatch[] {
+    const rootBindings = collectLocalBindings(method, sourceFile);
+    const matches: GuardMatch[] = [];
+
+    for (const reached of reachableMethods(callGraph, method)) {
+        const bindings = bindingsAlong(method, reached.via, sourceFile, callGraph, rootBindings);
+        for (const guard of findGuardChecks(reached.method, sourceFile)) {
+            const condition = normalizeCondition(guard.condition, bindings, constants);
+            if (condition && guardEnforces(condition, goal)) {
+                matches.push({ condition: guard.condition, pos: guard.pos, via: reached.via });
+            }
+        }
+    }
+    return matches;
+}
+
+/**
+ * `Blockchain.tx.sender == this.<field>.value`
+ */
+export function senderIs(field: string): Term {
+    return mkCmp('eq', mkVar(SENDER), mkVar(`this.${field}.value`));
+}
+
+/**
+ * Guards in a method, or in helpers it calls, that revert unless
+ * `Blockchain.tx.sender` equals the address stored in one of `addressFields`,
+ * e.g. `if (!Blockchain.tx.sender.equals(this.owner.value)) throw ...`.
+ */
+export function findSenderChecks(
+    method: ts.MethodDeclaration,
+    sourceFile: ts.SourceFile,
+    callGraph: CallGraph,
+    addressFields: Iterable<string>,
+    constants: Map<string, Term> = new Map(),
+): SenderCheck[] {
+    const checks: SenderCheck[] = [];
+    for (const field of addressFields) {
+        for (const match of findEnforcingGuards(method, sourceFile, callGraph, senderIs(field), constants)) {
+            checks.push({ field, ...match });
+        }
+    }
+    return checks.sort((a, b) => a.via.length - b.via.length || a.pos - b.pos);
+}
+
+// ============================================================================
+// Internals
+// ============================================================================
+
+function tryParse(text: string): SpecExpression | undefined {
+    try {
+        return parseSpecExpression(text);
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Replace bound identifiers. Bound values are already substituted, so one
+ * pass is enough.
+ */
+function substitute(expr: SpecExpression, bindings: Bindings): SpecExpression {
+    switch (expr.kind) {
+        case 'identifier':
+            return bindings.get(expr.name) ?? expr;
+        case 'safemath':
+            return { ...expr, args: expr.args.map((a) => substitute(a, bindings)) };
+        case 'old':
+            return { ...expr, argument: substitute(expr.argument, bindings) };
+        case 'member':
+            return { ...expr, object: substitute(expr.object, bindings) };
+        case 'call':
+            return {
+                ...expr,
+                callee: substitute(expr.callee, bindings),
+                args: expr.args.map((a) => substitute(a, bindings)),
+            };
+        case 'unary':
+            return { ...expr, operand: substitute(expr.operand, bindings) };
+        case 'binary':
+            return { ...expr, left: substitute(expr.left, bindings), right: substitute(expr.right, bindings) };
+        default:
+            return expr;
+    }
+}
+
+function toTerm(expr: SpecExpression, sort: TermSort, constants: Map<string, Term>): Term | undefined {
+    const term = translate(expr, sort, constants);
+    return term && termSort(term) === sort ? term : undefined;
+}
+
+function translate(expr: SpecExpression, sort: TermSort, constants: Map<string, Term>): Term | undefined {
+    switch (expr.kind) {
+        case 'number':
+        case 'u256':
+            return mkConst(expr.value);
+        case 'boolean':
+            return mkBool(expr.value);
+        case 'identifier':
+            return constants.get(expr.name) ?? mkVar(expr.name, sort);
+        case 'member':
+            // this.CONSTANT
+            if (expr.object.kind === 'this' && constants.has(expr.property)) {
+                return constants.get(expr.property);
+            }
+            return mkVar(formatSpecExpression(expr), sort);
+        case 'safemath': {
+            const [a, b] = expr.args.map((arg) => toTerm(arg, 'int', constants));
+            return a && b ? mkArith(expr.operation, a, b, true) : undefined;
+        }
+        case 'call':
+            return translateCall(expr, sort, constants);
+        case 'unary': {
+            if (expr.operator !== '!') return undefined;
+            const operand = toTerm(expr.operand, 'bool', constants);
+            return operand && mkNot(operand);
+        }
+        case 'binary': {
+            const op = expr.operator;
+            if (op === '&&' || op === '||' || op === 'implies') {
+                const l = toTerm(expr.left, 'bool', constants);
+                const r = toTerm(expr.right, 'bool', constants);
+                if (!l || !r) return undefined;
+                return op === '&&' ? mkAnd(l, r) : op === '||' ? mkOr(l, r) : mkImplies(l, r);
+            }
+            if (op in SPEC_COMPARE) {
+                // Equality between booleans, e.g. `this.paused.value == false`
+                const operandSort: TermSort =
+                    (op === '==' || op === '!=') && (expr.left.kind === 'boolean' || expr.right.kind === 'boolean')
+                        ? 'bool'
+                        : 'int';
+                const l = toTerm(expr.left, operandSort, constants);
+                const r = toTerm(expr.right, operandSort, constants);
+                return l && r ? mkCmp(SPEC_COMPARE[op], l, r) : undefined;
+            }
+            const l = toTerm(expr.left, 'int', constants);
+            const r = toTerm(expr.right, 'int', constants);
+            return l && r ? mkArith(SPEC_ARITH[op], l, r, true) : undefined;
+        }
+        default:
+            return undefined;
+    }
+}
+
+function translateCall(
+    expr: Extract<SpecExpression, { kind: 'call' }>,
+    sort: TermSort,
+    constants: Map<string, Term>,
+): Term | undefined {
+    const { callee, args } = expr;
+    if (callee.kind === 'member') {
+        const name = callee.property;
+        const int = (e: SpecExpression) => toTerm(e, 'int', constants);
+
+        // u256.eq(a, b), u256.add(a, b), ...
+        if (callee.object.kind === 'identifier' && callee.object.name === 'u256' && args.length === 2) {
+            const [a, b] = args.map(int);
+            if (!a || !b) return undefined;
+            if (name in U256_COMPARE) return mkCmp(U256_COMPARE[name], a, b);
+            if (name in U256_ARITH) return mkArith(U256_ARITH[name], a, b, false);
+        }
+
+        // Address.zero()
+        if (callee.object.kind === 'identifier' && callee.object.name === 'Address' && name === 'zero') {
+            return mkConst(0n);
+        }
+
+        // x.isZero(), a.equals(b)
+        if (name === 'isZero' && args.length === 0) {
+            const x = int(callee.object);
+            return x && mkCmp('eq', x, mkConst(0n));
+        }
+        if ((name === 'equals' || name === 'eq') && args.length === 1) {
+            const a = int(callee.object);
+            const b = int(args[0]);
+            return a && b ? mkCmp('eq', a, b) : undefined;
+        }
+    }
+    return mkVar(formatSpecExpression(expr), sort);
+}
@@ -0,0 +1,583 @@
+// ============================================================================
+// opspec Prover — Decides simple u256 obligations over symbolic terms
+// ============================================================================
+//
+// prove(facts, goal) tries two things:
+//   1. Show facts ∧ ¬goal is infeasible: the negation is split into
+//      disjunctive normal form, equalities between atoms are substituted,
+//      and each clause's linear constraints are checked with integer
+//      Fourier–Motzkin elimination. Non-linear sub-terms become atoms, in
+//      [0, u256.Max] when they are u256 values; exact products and quotients
+//      get no upper bound. Dropping a hard-to-handle
+//      fact only weakens the hypotheses, so "proved" is sound.
+//   2. Otherwise search for a concrete counterexample by evaluating the
+//      terms under deterministic pseudo-random assignments.
+
+import {
+    Term,
+    U256_MAX,
+    TRUE,
+    mkNot,
+    mkAnd,
+    mkOr,
+    mkCmp,
+    mapTerm,
+    walkTerm,
+    termKey,
+    termSort,
+    foldArith,
+    compareValues,
+    negateCompare,
+} from './terms';
+
+export type ProofStatus = 'proved' | 'refuted' | 'unknown';
+
+export interface ProofResult {
+    status: ProofStatus;
+    /** Assignment of free symbols that satisfies the facts but falsifies the goal */
+    counterexample?: Record<string, string>;
+}
+
+// Bounds on the work done per obligation
+const MAX_CLAUSES = 64;
+const MAX_ITE_SPLITS = 4;
+const MAX_DISEQUALITY_SPLITS = 3;
+const MAX_FM_CONSTRAINTS = 400;
+const SEARCH_TRIALS = 400;
+
+/**
+ * Try to prove that `facts` imply `goal`.
+ */
+export function prove(facts: Term[], goal: Term): ProofResult {
+    if (isInfeasible(facts, mkNot(goal))) {
+        return { status: 'proved' };
+    }
+    const counterexample = findModel([...facts, mkNot(goal)]);
+    if (counterexample) {
+        return { status: 'refuted', counterexample };
+    }
+    return { status: 'unknown' };
+}
+
+/**
+ * True when the facts are provably contradictory (the path is infeasible).
+ */
+export function isContradictory(facts: Term[]): boolean {
+    return isInfeasible(facts, TRUE);
+}
+
+// ============================================================================
+// Infeasibility
+// ============================================================================
+
+function isInfeasible(facts: Term[], extra: Term): boolean {
+    // Case-split on if-then-else terms (from possibly-aliased map reads)
+    const ites: Term[] = [];
+    const seen = new Set<string>();
+    for (const t of [...facts, extra]) {
+        walkTerm(t, (s) => {
+            if (s.kind === 'ite' && !seen.has(termKey(s)) && ites.length < MAX_ITE_SPLITS) {
+                seen.add(termKey(s));
+                ites.push(s);
+            }
+        });
+    }
+
+    const cases = 1 << ites.length;
+    for (let mask = 0; mask < cases; mask++) {
+        const chosen = new Map<string, boolean>();
+        ites.forEach((ite, i) => chosen.set(termKey(ite), (mask & (1 << i)) !== 0));
+        const lift = (t: Term) =>
+            mapTerm(t, (s) => {
+                if (s.kind !== 'ite') return undefined;
+                const branch = chosen.get(termKey(s));
+                if (branch === undefined) return undefined;
+                return branch ? s.then : s.else;
+            });
+        const caseFacts = facts.map(lift);
+        ites.forEach((ite, i) => {
+            if (ite.kind === 'ite') {
+                caseFacts.push((mask & (1 << i)) !== 0 ? lift(ite.cond) : mkNot(lift(ite.cond)));
+            }
+        });
+        if (!conjunctionInfeasible(caseFacts, lift(extra))) return false;
+    }
+    return true;
+}
+
+function conjunctionInfeasible(facts: Term[], extra: Term): boolean {
+    let clauses = toDnf(toNnf(extra));
+    if (clauses === null) return false;
+
+    for (const fact of facts) {
+        const factClauses = toDnf(toNnf(fact));
+        if (factClauses === null || factClauses.length * clauses.length > MAX_CLAUSES) {
+            // Dropping a fact is sound: it only weakens the hypotheses
+            continue;
+        }
+        const product: Term[][] = [];
+        for (const a of clauses) {
+            for (const b of factClauses) {
+                product.push([...a, ...b]);
+            }
+        }
+        clauses = product;
+    }
+
+    return clauses.every(clauseInfeasible);
+}
+
+/**
+ * Push negations down to literals.
+ */
+function toNnf(t: Term): Term {
+    if (t.kind === 'and') return mkAnd(...t.args.map(toNnf));
+    if (t.kind === 'or') return mkOr(...t.args.map(toNnf));
+    if (t.kind !== 'not') return t;
+
+    const inner = t.arg;
+    switch (inner.kind) {
+        case 'and':
+            return mkOr(...inner.args.map((a) => toNnf(mkNot(a))));
+        case 'or':
+            return mkAnd(...inner.args.map((a) => toNnf(mkNot(a))));
+        case 'cmp':
+            if (termSort(inner.left) === 'int') {
+                return mkCmp(negateCompare(inner.op), inner.left, inner.right);
+            }
+            return t;
+        default:
+            return t;
+    }
+}
+
+function toDnf(t: Term): Term[][] | null {
+    if (t.kind === 'bool') return t.value ? [[]] : [];
+    if (t.kind === 'or') {
+        const out: Term[][] = [];
+        for (const a of t.args) {
+            const d = toDnf(a);
+            if (d === null) return null;
+            out.push(...d);
+            if (out.length > MAX_CLAUSES) return null;
+        }
+        return out;
+    }
+    if (t.kind === 'and') {
+        let out: Term[][] = [[]];
+        for (const a of t.args) {
+            const d = toDnf(a);
+            if (d === null) return null;
+            const next: Term[][] = [];
+            for (const x of out) for (const y of d) next.push([...x, ...y]);
+            if (next.length > MAX_CLAUSES) return null;
+            out = next;
+        }
+        return out;
+    }
+    return [[t]];
+}
+
+function isAtomic(t: Term): boolean {
+    return t.kind === 'var' || t.kind === 'select' || t.kind === 'const';
+}
+
+/**
+ * Substitute equalities between atoms (congruence for map reads), then
+ * check boolean conflicts and linear feasibility.
+ */
+function clauseInfeasible(input: Term[]): boolean {
+    let literals = input;
+
+    for (let round = 0; round < 5; round++) {
+        const eq = literals.find(
+            (l) =>
+                l.kind === 'cmp' &&
+                l.op === 'eq' &&
+                termSort(l.left) === 'int' &&
+                isAtomic(l.left) &&
+                isAtomic(l.right) &&
+                termKey(l.left) !== termKey(l.right),
+        );
+        if (!eq || eq.kind !== 'cmp') break;
+
+        // Prefer constants, then shorter names, as representatives
+        const [from, to] =
+            eq.right.kind === 'const' || (eq.left.kind !== 'const' && termKey(eq.right) < termKey(eq.left))
+                ? [eq.left, eq.right]
+                : [eq.right, eq.left];
+        if (from.kind === 'const') break;
+        const fromKey = termKey(from);
+        const next: Term[] = [];
+        for (const l of literals) {
+            const rewritten = l === eq ? l : mapTerm(l, (s) => (termKey(s) === fromKey ? to : undefined));
+            if (rewritten.kind === 'bool') {
+                if (!rewritten.value) return true;
+                continue;
+            }
+            next.push(rewritten);
+        }
+        literals = next;
+    }
+
+    // Boolean atoms
+    const polarity = new Map<string, boolean>();
+    const linear: Term[] = [];
+    for (const l of literals) {
+        if (l.kind === 'bool') {
+            if (!l.value) return true;
+            continue;
+        }
+        if (l.kind === 'cmp' && termSort(l.left) === 'int') {
+            linear.push(l);
+            continue;
+        }
+        const positive = l.kind !== 'not';
+        const key = termKey(positive ? l : (l as { arg: Term }).arg);
+        const prev = polarity.get(key);
+        if (prev !== undefined && prev !== positive) return true;
+        polarity.set(key, positive);
+    }
+
+    return linearInfeasible(linear);
+}
+
+// ============================================================================
+// Linear arithmetic
+// ============================================================================
+
+/** Σ coeffs[atom] * atom + constant */
+interface LinearForm {
+    coeffs: Map<string, bigint>;
+    constant: bigint;
+}
+
+function linearize(t: Term, atoms: Map<string, Term>): LinearForm {
+    switch (t.kind) {
+        case 'const':
+            return { coeffs: new Map(), constant: t.value };
+        case 'arith': {
+            if (t.checked && (t.op === 'add' || t.op === 'sub')) {
+                const l = linearize(t.left, atoms);
+                const r = linearize(t.right, atoms);
+                return t.op === 'add' ? addForms(l, r, 1n) : addForms(l, r, -1n);
+            }
+            if (t.checked && t.op === 'mul') {
+                if (t.left.kind === 'const') return scaleForm(linearize(t.right, atoms), t.left.value);
+                if (t.right.kind === 'const') return scaleForm(linearize(t.left, atoms), t.right.value);
+            }
+            break;
+        }
+    }
+    const key = termKey(t);
+    atoms.set(key, t);
+    return { coeffs: new Map([[key, 1n]]), constant: 0n };
+}
+
+/** Whether a term always denotes a u256, i.e. is not exact arithmetic that may leave the range */
+function isU256(t: Term): boolean {
+    if (t.kind === 'const') return t.value >= 0n && t.value <= U256_MAX;
+    if (t.kind === 'arith') return !t.checked;
+    if (t.kind === 'ite') return isU256(t.then) && isU256(t.else);
+    return true;
+}
+
+/** Whether a term is never negative */
+function isNatural(t: Term): boolean {
+    if (t.kind === 'const') return t.value >= 0n;
+    if (t.kind === 'arith') return !t.checked || (t.op !== 'sub' && isNatural(t.left) && isNatural(t.right));
+    if (t.kind === 'ite') return isNatural(t.then) && isNatural(t.else);
+    return true;
+}
+
+function addForms(a: LinearForm, b: LinearForm, sign: bigint): LinearForm {
+    const coeffs = new Map(a.coeffs);
+    for (const [k, v] of b.coeffs) {
+        const sum = (coeffs.get(k) ?? 0n) + sign * v;
+        if (sum === 0n) coeffs.delete(k);
+        else coeffs.set(k, sum);
+    }
+    return { coeffs, constant: a.constant + sign * b.constant };
+}
+
+function scaleForm(a: LinearForm, factor: bigint): LinearForm {
+    const coeffs = new Map<string, bigint>();
+    if (factor !== 0n) {
+        for (const [k, v] of a.coeffs) coeffs.set(k, v * factor);
+    }
+    return { coeffs, constant: a.constant * factor };
+}
+
+function linearInfeasible(literals: Term[]): boolean {
+    const atoms = new Map<string, Term>();
+    const constraints: LinearForm[] = [];
+    const disequalities: LinearForm[] = [];
+
+    for (const l of literals) {
+        if (l.kind !== 'cmp') continue;
+        const d = addForms(linearize(l.left, atoms), linearize(l.right, atoms), -1n);
+        const neg = scaleForm(d, -1n);
+        switch (l.op) {
+            case 'ge':
+                constraints.push(d);
+                break;
+            case 'gt':
+                constraints.push({ coeffs: d.coeffs, constant: d.constant - 1n });
+                break;
+            case 'le':
+                constraints.push(neg);
+                break;
+            case 'lt':
+                constraints.push({ coeffs: neg.coeffs, constant: neg.constant - 1n });
+                break;
+            case 'eq':
+                constraints.push(d, neg);
+                break;
+            case 'ne':
+                disequalities.push(d);
+                break;
+        }
+    }
+
+    // Stored values, inputs and wrapped results are u256; spec-level products
+    // and quotients are mathematical, and a SafeMath one is bounded by its
+    // overflow check, which is already among the facts
+    for (const [key, atom] of atoms) {
+        if (isNatural(atom)) constraints.push({ coeffs: new Map([[key, 1n]]), constant: 0n });
+        if (isU256(atom)) constraints.push({ coeffs: new Map([[key, -1n]]), constant: U256_MAX });
+    }
+
+    // d != 0 splits into d >= 1 or -d >= 1
+    const splits = disequalities.slice(0, MAX_DISEQUALITY_SPLITS);
+    const cases = 1 << splits.length;
+    for (let mask = 0; mask < cases; mask++) {
+        const extra = splits.map((d, i) => {
+            const f = (mask & (1 << i)) !== 0 ? d : scaleForm(d, -1n);
+            return { coeffs: f.coeffs, constant: f.constant - 1n };
+        });
+        if (!fourierMotzkinInfeasible([...constraints, ...extra])) return false;
+    }
+    return true;
+}
+
+function gcd(a: bigint, b: bigint): bigint {
+    a = a < 0n ? -a : a;
+    b = b < 0n ? -b : b;
+    while (b !== 0n) [a, b] = [b, a % b];
+    return a;
+}
+
+function floorDiv(a: bigint, b: bigint): bigint {
+    const q = a / b;
+    return (a % b !== 0n && (a < 0n) !== (b < 0n)) ? q - 1n : q;
+}
+
+/**
+ * Divide by the gcd of the coefficients, rounding the constant down
+ * (valid over the integers).
+ */
+function tighten(f: LinearForm): LinearForm {
+    let g = 0n;
+    for (const v of f.coeffs.values()) g = gcd(g, v);
+    if (g <= 1n) return f;
+    const coeffs = new Map<string, bigint>();
+    for (const [k, v] of f.coeffs) coeffs.set(k, v / g);
+    return { coeffs, constant: floorDiv(f.constant, g) };
+}
+
+function formKey(f: LinearForm): string {
+    return [...f.coeffs.entries()]
+        .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+        .map(([k, v]) => `${v}*${k}`)
+        .join('+') + `+${f.constant}`;
+}
+
+/**
+ * Each form means Σ c·x + k >= 0. Returns true only when the system is
+ * definitely infeasible.
+ */
+function fourierMotzkinInfeasible(input: LinearForm[]): boolean {
+    let constraints = dedupe(input.map(tighten));
+
+    for (;;) {
+        for (const c of constraints) {
+            if (c.coeffs.size === 0 && c.constant < 0n) return true;
+        }
+
+        // Pick the variable whose elimination creates the fewest constraints
+        const counts = new Map<string, { pos: number; neg: number }>();
+        for (const c of constraints) {
+            for (const [k, v] of c.coeffs) {
+                const e = counts.get(k) ?? { pos: 0, neg: 0 };
+                if (v > 0n) e.pos++;
+                else e.neg++;
+                counts.set(k, e);
+            }
+        }
+        if (counts.size === 0) return false;
+
+        let best: string | undefined;
+        let bestCost = Infinity;
+        for (const [k, { pos, neg }] of counts) {
+            const cost = pos * neg - pos - neg;
+            if (cost < bestCost) {
+                best = k;
+                bestCost = cost;
+            }
+        }
+        const x = best!;
+
+        const keep: LinearForm[] = [];
+        const pos: LinearForm[] = [];
+        const neg: LinearForm[] = [];
+        for (const c of constraints) {
+            const v = c.coeffs.get(x);
+            if (v === undefined) keep.push(c);
+            else if (v > 0n) pos.push(c);
+            else neg.push(c);
+        }
+
+        for (const p of pos) {
+            for (const n of neg) {
+                const a = p.coeffs.get(x)!;
+                const b = -n.coeffs.get(x)!;
+                const combined = addForms(scaleForm(p, b), scaleForm(n, a), 1n);
+                combined.coeffs.delete(x);
+                keep.push(tighten(combined));
+            }
+        }
+
+        constraints = dedupe(keep);
+        if (constraints.length > MAX_FM_CONSTRAINTS) return false;
+    }
+}
+
+function dedupe(forms: LinearForm[]): LinearForm[] {
+    const byKey = new Map<string, LinearForm>();
+    for (const f of forms) {
+        // Trivially satisfied constraints carry no information
+        if (f.coeffs.size === 0 && f.constant >= 0n) continue;
+        byKey.set(formKey(f), f);
+    }
+    return [...byKey.values()];
+}
+
+// ============================================================================
+// Counterexample search
+// ============================================================================
+
+type ConcreteValue = bigint | boolean;
+
+interface Model {
+    vars: Map<string, ConcreteValue>;
+    maps: Map<string, bigint>;
+}
+
+/**
+ * Search for an assignment making every term true.
+ */
+function findModel(terms: Term[]): Record<string, string> | undefined {
+    const vars = new Map<string, 'int' | 'bool'>();
+    const pool = new Set<bigint>([0n, 1n, 2n, 3n, 7n, 100n, 1000n, 1n << 64n, U256_MAX - 1n, U256_MAX]);
+    for (const t of terms) {
+        walkTerm(t, (s) => {
+            if (s.kind === 'var') vars.set(s.name, s.sort);
+            if (s.kind === 'const' && s.value <= U256_MAX) {
+                pool.add(s.value);
+                if (s.value > 0n) pool.add(s.value - 1n);
+                if (s.value < U256_MAX) pool.add(s.value + 1n);
+            }
+        });
+    }
+    const values = [...pool];
+    let seed = 0x5eed;
+    const random = (n: number) => {
+        seed = (seed * 1103515245 + 12345) & 0x7fffffff;
+        // The low bits of this generator cycle with a short period; use the high ones
+        return (seed >>> 16) % n;
+    };
+
+    for (let trial = 0; trial < SEARCH_TRIALS; trial++) {
+        const model: Model = { vars: new Map(), maps: new Map() };
+        for (const [name, sort] of vars) {
+            if (sort === 'bool') model.vars.set(name, trial === 0 ? false : random(2) === 1);
+            else if (trial === 0) model.vars.set(name, 0n);
+            else if (trial === 1) model.vars.set(name, 1n);
+            else model.vars.set(name, trial < 20 ? BigInt(random(4)) : values[random(values.length)]);
+        }
+        const pickMapValue = () => (trial < 20 ? BigInt(random(4)) : values[random(values.length)]);
+
+        let ok = true;
+        for (const t of terms) {
+            if (evaluate(t, model, pickMapValue) !== true) {
+                ok = false;
+                break;
+            }
+        }
+        if (ok) {
+            const out: Record<string, string> = {};
+            for (const [k, v] of model.vars) out[k] = v.toString();
+            for (const [k, v] of model.maps) out[k] = v.toString();
+            return out;
+        }
+    }
+    return undefined;
+}
+
+function evaluate(t: Term, model: Model, pick: () => bigint): ConcreteValue | undefined {
+    switch (t.kind) {
+        case 'const':
+            return t.value;
+        case 'bool':
+            return t.value;
+        case 'var':
+            return model.vars.get(t.name);
+        case 'select': {
+            const key = evaluate(t.key, model, pick);
+            if (key === undefined) return undefined;
+            const slot = `old(this.${t.map}.get(${key}))`;
+            if (!model.maps.has(slot)) model.maps.set(slot, pick());
+            return model.maps.get(slot);
+        }
+        case 'arith': {
+            const a = evaluate(t.left, model, pick);
+            const b = evaluate(t.right, model, pick);
+            if (typeof a !== 'bigint' || typeof b !== 'bigint') return undefined;
+            return foldArith(t.op, a, b, t.checked);
+        }
+        case 'cmp': {
+            const a = evaluate(t.left, model, pick);
+            const b = evaluate(t.right, model, pick);
+            if (a === undefined || b === undefined) return undefined;
+            if (typeof a === 'boolean' || typeof b === 'boolean') {
+                return t.op === 'eq' ? a === b : t.op === 'ne' ? a !== b : undefined;
+            }
+            return compareValues(t.op, a, b);
+        }
+        case 'not': {
+            const a = evaluate(t.arg, model, pick);
+            return typeof a === 'boolean' ? !a : undefined;
+        }
+        case 'and': {
+            for (const a of t.args) {
+                const v = evaluate(a, model, pick);
+                if (v !== true) return v === false ? false : undefined;
+            }
+            return true;
+        }
+        case 'or': {
+            let unknown = false;
+            for (const a of t.args) {
+                const v = evaluate(a, model, pick);
+                if (v === true) return true;
+                if (v !== false) unknown = true;
+            }
+            return unknown ? undefined : false;
+        }
+        case 'ite': {
+            const c = evaluate(t.cond, model, pick);
+            if (typeof c !== 'boolean') return undefined;
+            return evaluate(c ? t.then : t.else, model, pick);
+        }
+    }
+}
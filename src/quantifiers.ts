@@ -0,0 +1,413 @@
+// ============================================================================
+// opspec Quantifiers — forall / exists specs over ranges and map keys
+// ============================================================================
+//
+// The prover and SMT export only handle quantifier-free terms, so a top-level
+// quantifier is eliminated before proving:
+//   goal      forall i : P(i)   → P(i@forall) for a fresh i@forall
+//             exists i : P(i)   → P(k1) ∨ P(k2) ∨ … over the keys the path wrote
+//   hypothesis forall i : P(i)  → P(c) for every key the goal looks at
+//             exists i : P(i)   → P(i@exists) for a fresh witness
+// Invariants are proved by induction: they hold on zeroed storage after the
+// constructor and onDeployment(), and every method that writes what they
+// read preserves them.
+
+import { SpecExpression, SpecQuantifierExpression } from './types';
+import { collectFieldReferences, walkSpecExpression } from './expression-parser';
+import {
+    SymbolicContext,
+    PathState,
+    MAP_TYPES,
+    evaluateSpec,
+    executeMethod,
+    executeDeployment,
+    writesAny,
+} from './symbolic';
+import { Term, TRUE, mkAnd, mkCmp, mkConst, mkImplies, mkNot, mkOr, mkVar, termKey, walkTerm } from './terms';
+import { ProofStatus, prove } from './prover';
+
+/**
+ * `facts ⇒ goal`, ready for the prover or a solver.
+ */
+export interface Obligation {
+    facts: Term[];
+    goal: Term;
+    /** The goal depends on a value the executor only over-approximates */
+    approximate: boolean;
+}
+
+/**
+ * One case of an induction proof that did not go through.
+ */
+export interface InductionFailure {
+    /** 'initial' for the base case, otherwise the method that breaks the spec */
+    step: 'initial' | 'preserved';
+    methodName?: string;
+    path?: PathState;
+    counterexample?: Record<string, string>;
+    reason: string;
+}
+
+export interface InductionResult {
+    status: ProofStatus;
+    /** Methods that write what the spec reads, in the order checked */
+    methods: string[];
+    /** Returning paths checked in the inductive step */
+    paths: number;
+    failure?: InductionFailure;
+}
+
+/**
+ * The inductive step for one method.
+ */
+export interface InductionStep {
+    methodName: string;
+    status: ProofStatus;
+    /** Returning paths checked */
+    paths: number;
+    failure?: InductionFailure;
+}
+
+/**
+ * Whether a spec is a quantifier at the top level.
+ */
+export function isQuantified(expr: SpecExpression | undefined): expr is SpecQuantifierExpression {
+    return expr?.kind === 'quantifier';
+}
+
+/**
+ * Whether an invariant needs an induction proof: it is quantified or
+ * aggregates a map, so no guard on a single method can establish it.
+ */
+export function needsInduction(expr: SpecExpression | undefined): expr is SpecExpression {
+    if (!expr) return false;
+    let aggregates = false;
+    walkSpecExpression(expr, (node) => {
+        if (node.kind === 'aggregate') aggregates = true;
+    });
+    return aggregates || isQuantified(expr);
+}
+
+// ============================================================================
+// Obligations
+// ============================================================================
+
+/**
+ * The spec must hold at the end of a path (a postcondition).
+ */
+export function specObligation(expr: SpecExpression, path: PathState, ctx: SymbolicContext): Obligation | undefined {
+    const goal = quantifiedGoal(expr, path, ctx);
+    return goal && obligation(path.conditions, goal.term);
+}
+
+/**
+ * Inductive step: the spec holds on the pre-state, so it must hold at the end
+ * of the path.
+ */
+export function inductionObligation(
+    expr: SpecExpression,
+    path: PathState,
+    ctx: SymbolicContext,
+): Obligation | undefined {
+    const goal = quantifiedGoal(expr, path, ctx);
+    if (!goal) return undefined;
+
+    if (!isQuantified(expr)) {
+        const before = evaluateSpec(expr, path, ctx, true);
+        return before && obligation([before, ...path.conditions], goal.term);
+    }
+
+    const hypotheses: Term[] = [];
+    if (expr.quantifier === 'forall') {
+        for (const key of goal.keys) {
+            const instance = instantiate(expr, key, path, ctx, true);
+            if (!instance) return undefined;
+            hypotheses.push(instance);
+        }
+    } else {
+        const witness = instantiate(expr, skolem(expr), path, ctx, true, false);
+        if (!witness) return undefined;
+        hypotheses.push(witness);
+    }
+    return obligation([...hypotheses, ...path.conditions], goal.term);
+}
+
+/** `old(this.x.value)` and `old(sum(this.m))`: storage read at method entry */
+const PRE_STATE_SYMBOL = /^old\((?:this\.\w+\.value|(?:sum|count|max)\(this\.\w+\))\)$/;
+const INITIAL_AGGREGATE = /^old\((sum|count|max)\(this\.(\w+)\)\)$/;
+/** An aggregate the executor lost track of, e.g. `max(this.m)@L42` */
+const UPDATED_AGGREGATE = /^(?:sum|count|max)\(this\.\w+\)@L\d+$/;
+
+/**
+ * Base case: storage starts zeroed, so the spec must hold at the end of a
+ * path of onDeployment() (or of an empty path when there is none).
+ */
+export function initialObligation(expr: SpecExpression, path: PathState, ctx: SymbolicContext): Obligation | undefined {
+    const final = specObligation(expr, path, ctx);
+    if (!final) return undefined;
+
+    const zeroed: Term[] = [];
+    const seen = new Set<string>();
+    for (const t of [...final.facts, final.goal]) {
+        walkTerm(t, (s) => {
+            const initial = (s.kind === 'var' && PRE_STATE_SYMBOL.test(s.name)) || s.kind === 'select';
+            if (!initial || seen.has(termKey(s))) return;
+            seen.add(termKey(s));
+            zeroed.push(s.kind === 'var' && s.sort === 'bool' ? mkNot(s) : mkCmp('eq', s, mkConst(0n)));
+        });
+    }
+    return { ...final, facts: [...zeroed, ...final.facts] };
+}
+
+/**
+ * Add what is known about aggregates of the pre-state: every entry is at most
+ * the sum and the max, and a non-zero entry means the count is at least one.
+ */
+function obligation(facts: Term[], goal: Term): Obligation {
+    const aggregates: { name: string; aggregate: string; map: string }[] = [];
+    const selects = new Map<string, Term & { kind: 'select' }>();
+    let approximate = false;
+    for (const t of [...facts, goal]) {
+        walkTerm(t, (s) => {
+            if (s.kind === 'select') selects.set(termKey(s), s);
+            if (s.kind !== 'var') return;
+            const initial = INITIAL_AGGREGATE.exec(s.name);
+            if (initial && !aggregates.some((a) => a.name === s.name)) {
+                aggregates.push({ name: s.name, aggregate: initial[1], map: initial[2] });
+            }
+            if (UPDATED_AGGREGATE.test(s.name)) approximate = true;
+        });
+    }
+
+    const axioms: Term[] = [];
+    for (const { name, aggregate, map } of aggregates) {
+        const total = mkVar(name);
+        for (const entry of selects.values()) {
+            if (entry.map !== map) continue;
+            axioms.push(
+                aggregate === 'count'
+                    ? mkImplies(mkCmp('ne', entry, mkConst(0n)), mkCmp('ge', total, mkConst(1n)))
+                    : mkCmp('le', entry, total),
+            );
+        }
+    }
+    return { facts: [...axioms, ...facts], goal, approximate };
+}
+
+// ============================================================================
+// Induction
+// ============================================================================
+
+/**
+ * Prove that a spec holds in every reachable state: initially, and after any
+ * of the entry points in `methodNames` that writes the fields or maps it reads.
+ */
+export function proveByInduction(expr: SpecExpression, ctx: SymbolicContext, methodNames: string[]): InductionResult {
+    const result: InductionResult = { status: 'proved', methods: [], paths: 0 };
+
+    const initial = proveInitially(expr, ctx);
+    if (initial) return settle(result, initial);
+
+    for (const step of proveInductionSteps(expr, ctx, methodNames)) {
+        result.methods.push(step.methodName);
+        result.paths += step.paths;
+        if (step.failure) settle(result, step.failure);
+        if (result.status === 'refuted') return result;
+    }
+    return result;
+}
+
+/**
+ * The base case: the spec holds on zeroed storage after deployment.
+ * Returns why it failed, if it did.
+ */
+export function proveInitially(expr: SpecExpression, ctx: SymbolicContext): InductionFailure | undefined {
+    const methodName = ctx.methods.has('onDeployment') ? 'onDeployment' : undefined;
+    for (const path of deploymentPaths(ctx)) {
+        const failure = check(initialObligation(expr, path, ctx), path);
+        if (failure) return { step: 'initial', methodName, path, ...failure };
+    }
+    return undefined;
+}
+
+/**
+ * The inductive step, for each of the methods that writes what the spec
+ * reads: assuming the spec on entry, it holds on every returning path. A
+ * method with approximated or dropped paths may write it unseen, so it
+ * always gets a step, which can then be undecided at best.
+ */
+export function proveInductionSteps(expr: SpecExpression, ctx: SymbolicContext, methodNames: string[]): InductionStep[] {
+    const references = collectFieldReferences(expr);
+    const steps: InductionStep[] = [];
+    for (const methodName of methodNames) {
+        const method = ctx.methods.get(methodName);
+        if (!method) continue;
+        const execution = executeMethod(method, ctx);
+        const paths = execution.paths.filter((p) => p.status === 'returned');
+        if (!execution.truncated && !paths.some((p) => p.approximate || writesAny(p, references))) continue;
+
+        const step: InductionStep = { methodName, status: 'proved', paths: 0 };
+        steps.push(step);
+        if (execution.truncated) {
+            settle(step, { step: 'preserved', methodName, reason: `${methodName}() has too many paths` });
+            continue;
+        }
+        for (const path of paths) {
+            step.paths++;
+            const failure = check(inductionObligation(expr, path, ctx), path);
+            if (!failure) continue;
+            settle(step, { step: 'preserved', methodName, path, ...failure });
+            if (step.status === 'refuted') break;
+        }
+    }
+    return steps;
+}
+
+/**
+ * Prove one obligation; returns why it failed, if it did.
+ */
+function check(
+    obligation: Obligation | undefined,
+    path: PathState,
+): Pick<InductionFailure, 'reason' | 'counterexample'> | undefined {
+    if (!obligation) return { reason: 'the expression uses constructs the symbolic executor does not model' };
+    const outcome = prove(obligation.facts, obligation.goal);
+    if (outcome.status === 'proved' && !path.approximate) return undefined;
+    const approximate = path.approximate || obligation.approximate;
+    if (outcome.status === 'refuted' && !approximate) {
+        return { reason: 'a counterexample was found', counterexample: outcome.counterexample ?? {} };
+    }
+    return { reason: approximate ? 'the path is over-approximated' : 'the prover could not decide it' };
+}
+
+/**
+ * Record a failure: a counterexample wins over an undecided case.
+ */
+function settle<T extends InductionResult | InductionStep>(result: T, failure: InductionFailure): T {
+    const refuted = failure.counterexample !== undefined;
+    if (refuted && result.status !== 'refuted') {
+        result.status = 'refuted';
+        result.failure = failure;
+    } else if (!refuted && result.status === 'proved') {
+        result.status = 'unknown';
+        result.failure = failure;
+    }
+    return result;
+}
+
+/**
+ * Returning paths of the constructor and onDeployment(), or a single empty
+ * path when neither exists.
+ */
+export function deploymentPaths(ctx: SymbolicContext): PathState[] {
+    const execution = executeDeployment(ctx);
+    return execution ? execution.paths.filter((p) => p.status === 'returned') : [emptyPath()];
+}
+
+function emptyPath(): PathState {
+    return {
+        conditions: [],
+        scopes: [],
+        fields: new Map(),
+        mapWrites: [],
+        events: [],
+        trace: [],
+        status: 'returned',
+        approximate: false,
+    };
+}
+
+// ============================================================================
+// Instantiation
+// ============================================================================
+
+/**
+ * The goal with its quantifier eliminated, and the keys it looks at (which
+ * the hypotheses are instantiated on).
+ */
+function quantifiedGoal(
+    expr: SpecExpression,
+    path: PathState,
+    ctx: SymbolicContext,
+): { term: Term; keys: Term[] } | undefined {
+    if (!isQuantified(expr)) {
+        const term = evaluateSpec(expr, path, ctx);
+        return term && { term, keys: [] };
+    }
+
+    const written = writtenKeys(expr, path);
+    if (expr.quantifier === 'forall') {
+        const x = skolem(expr);
+        const term = instantiate(expr, x, path, ctx, false);
+        return term && { term, keys: [x, ...written] };
+    }
+
+    // exists: the old witness, or one of the keys this path wrote
+    const witnesses = [skolem(expr), ...written];
+    const cases: Term[] = [];
+    for (const key of witnesses) {
+        const instance = instantiate(expr, key, path, ctx, false, false);
+        if (!instance) return undefined;
+        cases.push(instance);
+    }
+    return { term: mkOr(...cases), keys: witnesses };
+}
+
+/**
+ * The body at one key, guarded by domain membership: `in(k) ⇒ P(k)` for
+ * forall (or when `asImplication`), `in(k) ∧ P(k)` otherwise.
+ */
+function instantiate(
+    expr: SpecQuantifierExpression,
+    key: Term,
+    path: PathState,
+    ctx: SymbolicContext,
+    old: boolean,
+    asImplication = expr.quantifier === 'forall',
+): Term | undefined {
+    const bound = new Map([[expr.variable, key]]);
+    const member = inDomain(expr, key, path, ctx, old);
+    const body = evaluateSpec(expr.body, path, ctx, old, bound);
+    if (!member || !body) return undefined;
+    return asImplication ? mkImplies(member, body) : mkAnd(member, body);
+}
+
+function inDomain(
+    expr: SpecQuantifierExpression,
+    key: Term,
+    path: PathState,
+    ctx: SymbolicContext,
+    old: boolean,
+): Term | undefined {
+    const { domain } = expr;
+    if (domain.kind === 'keys') {
+        const map = mapName(domain.map);
+        return map && MAP_TYPES.has(ctx.storedFields.get(map) ?? '') ? TRUE : undefined;
+    }
+    const from = evaluateSpec(domain.from, path, ctx, old);
+    const to = evaluateSpec(domain.to, path, ctx, old);
+    return from && to ? mkAnd(mkCmp('le', from, key), mkCmp('lt', key, to)) : undefined;
+}
+
+/** `this.map` or `map` → map */
+function mapName(expr: SpecExpression): string | undefined {
+    if (expr.kind === 'identifier') return expr.name;
+    if (expr.kind === 'member' && expr.object.kind === 'this') return expr.property;
+    return undefined;
+}
+
+function skolem(expr: SpecQuantifierExpression): Term {
+    return mkVar(`${expr.variable}@${expr.quantifier}`);
+}
+
+/**
+ * Keys the path wrote to maps the quantified spec reads.
+ */
+function writtenKeys(expr: SpecQuantifierExpression, path: PathState): Term[] {
+    const maps = new Set(collectFieldReferences(expr));
+    const keys = new Map<string, Term>();
+    for (const write of path.mapWrites) {
+        if (write.key && maps.has(write.map)) keys.set(termKey(write.key), write.key);
+    }
+    return [...keys.values()];
+}
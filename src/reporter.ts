@@ -3,7 +3,15 @@
 // ============================================================================
 
 import chalk from 'chalk';
-import { VerificationReport, VerificationResult, VerificationStatus, CoverageInfo } from './types';
+import {
+    VerificationReport,
+    VerificationResult,
+    VerificationStatus,
+    CoverageInfo,
+    Diagnostic,
+    StateMachineReport,
+    StateEdge,
+} from './types';
 
 // ============================================================================
 // Status Formatting
@@ -46,15 +54,25 @@ function tagColor(tag: string): string {
             return chalk.magenta(`@${tag}`);
         case 'pre':
         case 'requires':
+        case 'reverts-if':
+        case 'reverts-only-if':
             return chalk.cyan(`@${tag}`);
         case 'post':
         case 'ensures':
+        case 'modifies':
+        case 'view':
+        case 'pure':
+        case 'nonreentrant':
             return chalk.blue(`@${tag}`);
         case 'access':
+        case 'role':
+        case 'pausable':
             return chalk.yellow(`@${tag}`);
         case 'calls':
+        case 'emits':
             return chalk.green(`@${tag}`);
         case 'state':
+        case 'statefield':
             return chalk.red(`@${tag}`);
         case 'temporal':
             return chalk.gray(`@${tag}`);
@@ -95,7 +113,7 @@ export function formatReport(report: VerificationReport): string {
     }
 
     // Display order
-    const displayOrder = ['invariant', 'access', 'pre', 'requires', 'post', 'ensures', 'calls', 'state', 'temporal', 'opnet'];
+    const displayOrder = ['invariant', 'access', 'role', 'pausable', 'pre', 'requires', 'reverts-if', 'reverts-only-if', 'post', 'ensures', 'modifies', 'view', 'pure', 'nonreentrant', 'emits', 'calls', 'statefield', 'state', 'temporal', 'opnet'];
 
     for (const tag of displayOrder) {
         const results = grouped.get(tag);
@@ -108,7 +126,9 @@ export function formatReport(report: VerificationReport): string {
             const loc = chalk.gray(`L${r.line}`);
             lines.push(`    ${icon} ${status} ${loc}  ${r.message}`);
             if (r.details) {
-                lines.push(`      ${chalk.gray('→')} ${chalk.gray(r.details)}`);
+                for (const detail of r.details.split('\n')) {
+                    lines.push(`      ${chalk.gray('→')} ${chalk.gray(detail)}`);
+                }
             }
         }
         lines.push('');
@@ -244,3 +264,112 @@ export function formatCoverage(coverage: CoverageInfo): string {
 
     return lines.join('\n');
 }
+
+/**
+ * Format a state machine analysis: states, transitions, properties, findings.
+ */
+export function formatStateMachine(report: StateMachineReport): string {
+    const lines: string[] = [];
+    const { graph } = report;
+
+    lines.push('');
+    lines.push(chalk.bold.underline(`${report.contractName}`) + chalk.gray(` — ${report.file}`));
+    lines.push('');
+
+    const sources = { declared: 'declared', statefield: 'zero value in @statefield', 'first-transition': 'first transition', none: '' };
+    const initial = graph.initial
+        ? `${graph.initial} ${chalk.gray(`(${sources[graph.initialSource]})`)}`
+        : chalk.gray('unknown — declare one with @state X is initial');
+    lines.push(`  ${chalk.bold('States:')}      ${graph.states.join(', ')}`);
+    lines.push(`  ${chalk.bold('Initial:')}     ${initial}`);
+    lines.push('');
+
+    lines.push(`  ${chalk.bold('Transitions')}`);
+    for (const e of graph.edges) {
+        const when = e.condition ? chalk.gray(`  [when ${e.condition}]`) : '';
+        lines.push(`    ${e.from} ${chalk.cyan(`—${e.method}()→`)} ${e.to}  ${chalk.gray(`L${e.line}`)}${when}`);
+    }
+    lines.push('');
+
+    if (report.properties.length > 0) {
+        lines.push(`  ${chalk.bold('Properties')}`);
+        for (const p of report.properties) {
+            const icon = p.holds ? chalk.green('✓') : chalk.red('✗');
+            lines.push(`    ${icon} ${chalk.gray(`L${p.spec.line}`)}  ${p.spec.expression}: ${p.message}`);
+        }
+        lines.push('');
+    }
+
+    const { implemented, diff } = report;
+    if (implemented && diff) {
+        const states = implemented.states.map((s) => (s.name === s.value ? s.name : `${s.name} = ${s.value}`));
+        lines.push(`  ${chalk.bold('Implemented')}  ${chalk.gray(`this.${implemented.field}: ${states.join(', ')}`)}`);
+        const edge = (e: StateEdge) => `${e.from} ${chalk.cyan(`—${e.method}()→`)} ${e.to}  ${chalk.gray(`L${e.line}`)}`;
+        if (diff.unspecified.length === 0 && diff.unimplemented.length === 0) {
+            lines.push(`    ${chalk.green('✓')} matches the @state transitions`);
+        }
+        if (diff.unspecified.length > 0) {
+            lines.push(`    Implemented but not specified:`);
+            for (const e of diff.unspecified) lines.push(`      ${chalk.green('+')} ${edge(e)}`);
+        }
+        if (diff.unimplemented.length > 0) {
+            lines.push(`    Specified but not implemented:`);
+            for (const e of diff.unimplemented) lines.push(`      ${chalk.red('−')} ${edge(e)}`);
+        }
+        for (const u of implemented.undecided) {
+            lines.push(`    ${chalk.yellow('?')} ${u.method}(): ${u.reason}`);
+        }
+        lines.push('');
+    }
+
+    if (report.findings.length > 0) {
+        lines.push(`  ${chalk.bold('Findings')}`);
+        for (const f of report.findings) {
+            const loc = f.line ? chalk.gray(`L${f.line}  `) : '';
+            lines.push(`    ${chalk.yellow('!')} ${chalk.gray(`[${f.kind}]`)} ${loc}${f.message}`);
+        }
+        lines.push('');
+    }
+
+    const failed = report.properties.filter((p) => !p.holds).length;
+    const parts = [
+        `${graph.states.length} state(s)`,
+        `${graph.edges.length} transition(s)`,
+        report.findings.length > 0 ? chalk.yellow(`${report.findings.length} finding(s)`) : chalk.green('0 findings'),
+    ];
+    if (diff) {
+        const differences = diff.unspecified.length + diff.unimplemented.length;
+        parts.push(differences > 0 ? chalk.yellow(`${differences} difference(s) from code`) : chalk.green('matches code'));
+    }
+    if (report.properties.length > 0) {
+        const held = `${report.properties.length - failed}/${report.properties.length} properties hold`;
+        parts.push(failed > 0 ? chalk.red.bold(held) : chalk.green(held));
+    }
+    lines.push(`  ${chalk.bold('Summary:')} ${parts.join(chalk.gray(' · '))}`);
+    lines.push('');
+
+    return lines.join('\n');
+}
+
+/**
+ * Format spec diagnostics, one per line, as file:line:column.
+ */
+export function formatDiagnostics(diagnostics: Diagnostic[]): string {
+    const lines: string[] = [];
+
+    for (const d of diagnostics) {
+        const loc = chalk.gray(`${d.file}:${d.line}:${d.column}`);
+        const severity = d.severity === 'error' ? chalk.red.bold('error  ') : chalk.yellow('warning');
+        lines.push(`  ${loc}  ${severity} ${chalk.gray(`[${d.code}]`)} ${d.message}`);
+    }
+
+    const errors = diagnostics.filter((d) => d.severity === 'error').length;
+    const warnings = diagnostics.length - errors;
+    const parts: string[] = [];
+    parts.push(errors > 0 ? chalk.red.bold(`${errors} error(s)`) : chalk.green('0 errors'));
+    parts.push(warnings > 0 ? chalk.yellow(`${warnings} warning(s)`) : chalk.gray('0 warnings'));
+    lines.push('');
+    lines.push(`  ${parts.join(chalk.gray(' · '))}`);
+
+    return lines.join('\n');
+}
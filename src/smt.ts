@@ -0,0 +1,167 @@
+// ============================================================================
+// opspec SMT — SMT-LIB2 rendering of terms and external solver calls
+// ============================================================================
+//
+// Free symbols are declared as 256-bit bitvectors, so code arithmetic wraps
+// exactly like u256. Expressions are evaluated at EXACT_WIDTH bits with
+// signed comparisons: wide enough that SafeMath and spec arithmetic (which
+// never wrap) stay exact, while unchecked operations are truncated back to
+// 256 bits with `wrap`.
+
+import { spawnSync } from 'child_process';
+import { Term, ArithOperator, CompareOperator, termSort, walkTerm } from './terms';
+import { SolverConfig } from './config';
+
+/** Enough for the product of two u256 values plus a sign bit */
+export const EXACT_WIDTH = 514;
+const EXTEND = EXACT_WIDTH - 256;
+
+export type SolverStatus = 'sat' | 'unsat' | 'unknown' | 'error';
+
+export interface SolverAnswer {
+    status: SolverStatus;
+    /** Values of the free symbols when the answer is sat */
+    model?: Record<string, string>;
+    /** What went wrong when the status is error */
+    message?: string;
+}
+
+const ARITH: Record<ArithOperator, string> = { add: 'bvadd', sub: 'bvsub', mul: 'bvmul', div: 'bvsdiv' };
+const COMPARE: Record<Exclude<CompareOperator, 'eq' | 'ne'>, string> = {
+    lt: 'bvslt',
+    le: 'bvsle',
+    gt: 'bvsgt',
+    ge: 'bvsge',
+};
+
+/**
+ * Quote a symbol name for SMT-LIB2.
+ */
+function symbol(name: string): string {
+    return `|${name.replace(/[|\\]/g, '_')}|`;
+}
+
+function arraySymbol(map: string): string {
+    return symbol(`old(this.${map})`);
+}
+
+/**
+ * Render a term. Integer terms are EXACT_WIDTH-bit bitvectors.
+ */
+export function termToSmt(t: Term): string {
+    switch (t.kind) {
+        case 'const':
+            return t.value < 0n ? `(bvneg (_ bv${-t.value} ${EXACT_WIDTH}))` : `(_ bv${t.value} ${EXACT_WIDTH})`;
+        case 'bool':
+            return String(t.value);
+        case 'var':
+            return t.sort === 'bool' ? symbol(t.name) : `((_ zero_extend ${EXTEND}) ${symbol(t.name)})`;
+        case 'select':
+            return `((_ zero_extend ${EXTEND}) (select ${arraySymbol(t.map)} ((_ extract 255 0) ${termToSmt(t.key)})))`;
+        case 'arith': {
+            const op = !t.checked && t.op === 'div' ? 'bvudiv' : ARITH[t.op];
+            const body = `(${op} ${termToSmt(t.left)} ${termToSmt(t.right)})`;
+            return t.checked ? body : `(wrap ${body})`;
+        }
+        case 'cmp': {
+            const l = termToSmt(t.left);
+            const r = termToSmt(t.right);
+            if (t.op === 'eq') return `(= ${l} ${r})`;
+            if (t.op === 'ne') return `(not (= ${l} ${r}))`;
+            return `(${COMPARE[t.op]} ${l} ${r})`;
+        }
+        case 'not':
+            return `(not ${termToSmt(t.arg)})`;
+        case 'and':
+            return `(and ${t.args.map(termToSmt).join(' ')})`;
+        case 'or':
+            return `(or ${t.args.map(termToSmt).join(' ')})`;
+        case 'ite':
+            return `(ite ${termToSmt(t.cond)} ${termToSmt(t.then)} ${termToSmt(t.else)})`;
+    }
+}
+
+/**
+ * A complete script asking whether `facts ∧ ¬goal` is satisfiable:
+ * unsat means the goal is proved, sat comes with a counterexample.
+ */
+export function buildSmtScript(facts: Term[], goal: Term, comments: string[] = []): string {
+    const scalars = new Map<string, string>();
+    const arrays = new Set<string>();
+    for (const t of [...facts, goal]) {
+        walkTerm(t, (s) => {
+            if (s.kind === 'var') scalars.set(s.name, s.sort === 'bool' ? 'Bool' : '(_ BitVec 256)');
+            if (s.kind === 'select') arrays.add(s.map);
+        });
+    }
+
+    const lines: string[] = comments.map((c) => `; ${c}`);
+    lines.push('(set-option :produce-models true)');
+    lines.push(`(set-logic ${arrays.size > 0 ? 'QF_ABV' : 'QF_BV'})`);
+    lines.push(
+        `(define-fun wrap ((x (_ BitVec ${EXACT_WIDTH}))) (_ BitVec ${EXACT_WIDTH}) ((_ zero_extend ${EXTEND}) ((_ extract 255 0) x)))`,
+    );
+    for (const [name, sort] of [...scalars].sort(([a], [b]) => a.localeCompare(b))) {
+        lines.push(`(declare-const ${symbol(name)} ${sort})`);
+    }
+    for (const map of [...arrays].sort()) {
+        lines.push(`(declare-const ${arraySymbol(map)} (Array (_ BitVec 256) (_ BitVec 256)))`);
+    }
+
+    if (facts.length > 0) lines.push('; path condition');
+    for (const fact of facts) {
+        if (termSort(fact) === 'bool') lines.push(`(assert ${termToSmt(fact)})`);
+    }
+    lines.push('; negated obligation');
+    lines.push(`(assert (not ${termToSmt(goal)}))`);
+    lines.push('(check-sat)');
+    lines.push('(get-model)');
+    return lines.join('\n') + '\n';
+}
+
+/**
+ * Pipe a script to the solver and interpret its answer.
+ */
+export function runSolver(script: string, solver: SolverConfig): SolverAnswer {
+    const proc = spawnSync(solver.command, solver.args, {
+        input: script,
+        encoding: 'utf-8',
+        timeout: solver.timeout,
+    });
+
+    if (proc.error) {
+        const reason = (proc.error as NodeJS.ErrnoException).code === 'ETIMEDOUT'
+            ? `timed out after ${solver.timeout}ms`
+            : proc.error.message;
+        return { status: 'error', message: `${solver.command}: ${reason}` };
+    }
+
+    const output = proc.stdout ?? '';
+    const first = output.split('\n').map((l) => l.trim()).find((l) => l.length > 0);
+    if (first === 'sat') return { status: 'sat', model: parseModel(output) };
+    if (first === 'unsat' || first === 'unknown') return { status: first };
+
+    const detail = (first ?? proc.stderr?.trim()) || `exit code ${proc.status}`;
+    return { status: 'error', message: `${solver.command}: unexpected output: ${detail}` };
+}
+
+/**
+ * Extract scalar values from a (get-model) response.
+ */
+export function parseModel(output: string): Record<string, string> {
+    const model: Record<string, string> = {};
+    const re = /\(define-fun\s+(\|[^|]*\||[^\s()]+)\s+\(\)\s+(?:\(_\s+BitVec\s+\d+\)|Bool)\s+(#x[0-9a-fA-F]+|#b[01]+|\(_\s+bv\d+\s+\d+\)|true|false)\s*\)/g;
+    let m: RegExpExecArray | null;
+    while ((m = re.exec(output)) !== null) {
+        const name = m[1].replace(/^\|(.*)\|$/, '$1');
+        model[name] = smtValue(m[2]);
+    }
+    return model;
+}
+
+function smtValue(text: string): string {
+    if (text.startsWith('#x')) return BigInt(`0x${text.slice(2)}`).toString();
+    if (text.startsWith('#b')) return BigInt(`0b${text.slice(2)}`).toString();
+    const bv = text.match(/\(_\s+bv(\d+)/);
+    return bv ? bv[1] : text;
+}
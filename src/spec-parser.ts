@@ -13,22 +13,43 @@ import {
     PostconditionSpec,
     StateSpec,
     StateTransition,
+    StateFieldSpec,
+    StateProperty,
+    StatePropertySpec,
     AccessSpec,
     AccessLevel,
+    AccessRequirement,
+    RoleSpec,
+    ModifiesSpec,
+    FrameTarget,
+    EmitsSpec,
+    RevertsSpec,
+    PuritySpec,
+    NonReentrantSpec,
+    PausableSpec,
     CallsSpec,
     TemporalSpec,
+    TemporalForm,
     OpnetSpec,
     OpnetConstraint,
     MethodSpecs,
     ContractSpecs,
     SpecTree,
+    Diagnostic,
 } from './types';
+import {
+    parseSpecExpression,
+    collectFieldReferences,
+    collectOldReferences,
+    ExpressionParseError,
+} from './expression-parser';
+import { makeDiagnostic, diagnoseUnknownTag, diagnoseAnnotation } from './diagnostics';
 
 // ---- Annotation-line regex ----
 // Matches: /// @tag expression // optional comment
 // or:      *  @tag expression // optional comment  (inside JSDoc blocks)
 const ANNOTATION_RE =
-    /(?:\/\/\/\s*@(\w+)\s+(.*?)(?:\s*\/\/\s*(.*))?\s*$)|(?:\*\s*@(\w+)\s+(.*?)(?:\s*\/\/\s*(.*))?\s*$)/;
+    /(?:\/\/\/\s*@([\w-]+)(?:\s+(.*?))?(?:\s*\/\/\s*(.*))?\s*$)|(?:\*\s*@([\w-]+)(?:\s+(.*?))?(?:\s*\/\/\s*(.*))?\s*$)/;
 
 // Recognised spec tags
 const SPEC_TAGS = new Set<string>([
@@ -38,14 +59,88 @@ const SPEC_TAGS = new Set<string>([
     'post',
     'ensures',
     'state',
+    'statefield',
     'access',
     'calls',
     'temporal',
     'opnet',
+    'role',
+    'modifies',
+    'emits',
+    'reverts-if',
+    'reverts-only-if',
+    'view',
+    'pure',
+    'nonreentrant',
+    'pausable',
 ]);
 
+// Tags whose body is a spec expression (docs/grammar.md §3)
+const EXPRESSION_TAGS = new Set<string>(['invariant', 'pre', 'requires', 'post', 'ensures', 'reverts-if', 'reverts-only-if']);
+
+/**
+ * Parse the expression of an annotation, attaching either the tree or a
+ * located syntax error. `@ensures CEI` is a keyword, not an expression.
+ */
+function attachParsedExpression(ann: SpecAnnotation): void {
+    if (ann.tag === 'emits') {
+        attachEmitsCondition(ann);
+        return;
+    }
+    if (!EXPRESSION_TAGS.has(ann.tag)) return;
+    if (ann.tag === 'ensures' && ann.expression.trim().toUpperCase() === 'CEI') return;
+
+    try {
+        ann.parsed = parseSpecExpression(ann.expression);
+    } catch (err) {
+        const offset = err instanceof ExpressionParseError ? err.offset : 0;
+        ann.syntaxError = {
+            message: (err as Error).message,
+            file: ann.file,
+            line: ann.line,
+            column: (ann.expressionColumn ?? ann.column) + offset,
+        };
+    }
+}
+
+/**
+ * `@emits Name(args) when <condition>`: only the condition is an expression.
+ */
+function attachEmitsCondition(ann: SpecAnnotation): void {
+    const emits = parseEmits(ann.expression);
+    if (!emits?.condition) return;
+
+    const start = ann.expression.lastIndexOf(emits.condition);
+    try {
+        ann.parsed = parseSpecExpression(emits.condition);
+    } catch (err) {
+        const offset = err instanceof ExpressionParseError ? err.offset : 0;
+        ann.syntaxError = {
+            message: (err as Error).message,
+            file: ann.file,
+            line: ann.line,
+            column: (ann.expressionColumn ?? ann.column) + start + offset,
+        };
+    }
+}
+
+/**
+ * Field references of an annotation, from its parsed tree when available.
+ */
+function fieldReferencesOf(ann: SpecAnnotation): string[] {
+    return ann.parsed ? collectFieldReferences(ann.parsed) : extractFieldReferences(ann.expression);
+}
+
+/**
+ * old() references of an annotation, from its parsed tree when available.
+ */
+function oldReferencesOf(ann: SpecAnnotation): string[] {
+    return ann.parsed ? collectOldReferences(ann.parsed) : extractOldReferences(ann.expression);
+}
+
 /**
  * Extract field references from an expression (e.g. this.foo.value, this.bar.value).
+ * Regex fallback for expressions that don't parse.
  */
 function extractFieldReferences(expr: string): string[] {
     const refs: string[] = [];
@@ -59,6 +154,7 @@ function extractFieldReferences(expr: string): string[] {
 
 /**
  * Extract old() references from a postcondition expression.
+ * Regex fallback for expressions that don't parse.
  */
 function extractOldReferences(expr: string): string[] {
     const refs: string[] = [];
@@ -70,15 +166,253 @@ function extractOldReferences(expr: string): string[] {
     return refs;
 }
 
+// from -> to : methods [when condition]
+const STATE_TRANSITION_RE = /^([^\->]+)\s*->\s*([^:]+):\s*(.+)$/;
+
+// STATE is initial | STATE is terminal | STATE never reaches STATE
+const STATE_PROPERTY_RE = /^(\w+)\s+(?:is\s+(initial|terminal)|never\s+reaches\s+(\w+))$/;
+
+// target : method(args) -> expectation
+const CALLS_RE = /^(.+?)\s*:\s*(.+?)\s*->\s*(.+)$/;
+
+const CALL_EXPECTATIONS = new Set(['must-succeed', 'may-fail', 'unchecked']);
+
+// level [(argument)]
+const ACCESS_RE = /^([\w-]+)\s*(?:\((.*)\))?$/s;
+const ACCESS_FIELD_RE = /^this\.(\w+)(?:\.value)?$/;
+
+// NAME : this.field | this.helper()
+const ROLE_RE = /^(\w+)\s*:\s*(.+)$/;
+const ROLE_CHECK_RE = /^this\.\w+(?:\(\)|\.value)?$/;
+
+// [method()] within N blocks of this.field | not before this.field + N | expires after N blocks
+const TEMPORAL_SUBJECT_RE = /^(\w+)\(\)\s+(.*)$/s;
+const TEMPORAL_KEYWORD_RE = /^(?:within|not\s+before|expires)\b/;
+const TEMPORAL_WITHIN_RE = /^within\s+(.+?)\s+blocks?\s+of\s+this\.(\w+)(?:\.value)?$/s;
+const TEMPORAL_NOT_BEFORE_RE = /^not\s+before\s+this\.(\w+)(?:\.value)?\s*\+\s*(.+)$/s;
+const TEMPORAL_EXPIRES_RE = /^expires\s+after\s+(.+?)\s+blocks?$/s;
+
+// this.flag [except method, ...]
+const PAUSABLE_RE = /^this\.(\w+)(?:\.value)?(?:\s+except\s+(.+))?$/s;
+
+// this.field [{ NAME = value, ... }]
+const STATEFIELD_RE = /^this\.(\w+)(?:\.value)?(?:\s*\{(.*)\})?$/s;
+
+// this.field | this.field.value | this.map[key]
+const FRAME_TARGET_RE = /^this\.(\w+)(?:\.value)?(?:\[(.+)\])?$/s;
+
+/**
+ * Parse an @access value: `deployer-only`, `owner-only`, `owner-only(this.owner)`,
+ * `anyone`, `role(MINTER)` or `any-of(owner, role(PAUSER))`. Other bare words
+ * are custom levels without a requirement. Returns undefined when malformed.
+ */
+function parseAccessLevel(expr: string): { level: string; field?: string; requirement?: AccessRequirement } | undefined {
+    const m = ACCESS_RE.exec(expr.trim());
+    if (!m) return undefined;
+    const requirement = parseAccessRequirement(m[1], m[2], false);
+    if (requirement === null) return undefined;
+    if (!requirement) return m[2] === undefined ? { level: m[1] } : undefined;
+    return {
+        level: m[1],
+        field: requirement.kind === 'owner' ? requirement.field : undefined,
+        requirement,
+    };
+}
+
+/**
+ * Requirement for one level. Inside any-of(), `owner` and `deployer` are
+ * accepted as short forms. Returns undefined for an unknown level and null
+ * for a known one with a bad argument.
+ */
+function parseAccessRequirement(
+    name: string,
+    arg: string | undefined,
+    nested: boolean,
+): AccessRequirement | null | undefined {
+    const argument = arg?.trim();
+    switch (name) {
+        case 'deployer':
+        case 'deployer-only':
+            if (name === 'deployer' && !nested) return undefined;
+            return argument === undefined ? { kind: 'deployer' } : null;
+        case 'owner':
+        case 'owner-only': {
+            if (name === 'owner' && !nested) return undefined;
+            if (argument === undefined) return { kind: 'owner' };
+            const field = ACCESS_FIELD_RE.exec(argument);
+            return field ? { kind: 'owner', field: field[1] } : null;
+        }
+        case 'anyone':
+            return argument === undefined ? { kind: 'anyone' } : null;
+        case 'role':
+            return argument !== undefined && /^\w+$/.test(argument) ? { kind: 'role', role: argument } : null;
+        case 'any-of': {
+            if (!argument) return null;
+            const options: AccessRequirement[] = [];
+            for (const part of splitTopLevel(argument)) {
+                const m = ACCESS_RE.exec(part.trim());
+                const option = m ? parseAccessRequirement(m[1], m[2], true) : null;
+                if (!option) return null;
+                options.push(option);
+            }
+            return { kind: 'any-of', options };
+        }
+        default:
+            return undefined;
+    }
+}
+
+/**
+ * Split on commas that are not inside parentheses or brackets.
+ */
+function splitTopLevel(text: string): string[] {
+    const parts: string[] = [];
+    let depth = 0;
+    let start = 0;
+    for (let i = 0; i < text.length; i++) {
+        if (text[i] === '(' || text[i] === '[') depth++;
+        else if (text[i] === ')' || text[i] === ']') depth--;
+        else if (text[i] === ',' && depth === 0) {
+            parts.push(text.slice(start, i));
+            start = i + 1;
+        }
+    }
+    parts.push(text.slice(start));
+    return parts;
+}
+
+/**
+ * Split a @role value like `MINTER : this.minters` into name and check.
+ */
+function parseRoleDeclaration(expr: string): { name: string; check: string } | undefined {
+    const m = ROLE_RE.exec(expr.trim());
+    if (!m || !ROLE_CHECK_RE.test(m[2].trim())) return undefined;
+    return { name: m[1], check: m[2].trim() };
+}
+
+/**
+ * Parse a @modifies frame: `this.a, this.b[key]`, or `nothing` for an empty
+ * frame. Returns undefined when any entry is malformed.
+ */
+function parseFrame(expr: string): FrameTarget[] | undefined {
+    const text = expr.trim();
+    if (text === 'nothing') return [];
+    if (text === '') return undefined;
+    const targets: FrameTarget[] = [];
+    for (const part of splitTopLevel(text)) {
+        const m = FRAME_TARGET_RE.exec(part.trim());
+        if (!m) return undefined;
+        targets.push(m[2] === undefined ? { field: m[1] } : { field: m[1], key: m[2].trim() });
+    }
+    return targets;
+}
+
+/**
+ * Parse a @pausable value: `this.paused`, optionally followed by
+ * `except unpause, setPauser()`. Returns undefined when malformed.
+ */
+function parsePausable(expr: string): { field: string; exceptions: string[] } | undefined {
+    const m = PAUSABLE_RE.exec(expr.trim());
+    if (!m) return undefined;
+    const exceptions = m[2] === undefined ? [] : m[2].split(',').map((e) => e.trim().replace(/\(\)$/, ''));
+    if (exceptions.some((e) => !/^\w+$/.test(e))) return undefined;
+    return { field: m[1], exceptions };
+}
+
+/**
+ * Parse a @statefield value: `this.status`, optionally followed by
+ * `{ INACTIVE = 0, ACTIVE = 1 }`. Values are spec expressions. Returns
+ * undefined when malformed.
+ */
+function parseStateField(expr: string): { field: string; states: { name: string; value: string }[] } | undefined {
+    const m = STATEFIELD_RE.exec(expr.trim());
+    if (!m) return undefined;
+    const states: { name: string; value: string }[] = [];
+    if (m[2] !== undefined) {
+        for (const entry of m[2].split(',')) {
+            const state = /^\s*(\w+)\s*=\s*(.+?)\s*$/s.exec(entry);
+            if (!state || states.some((s) => s.name === state[1])) return undefined;
+            try {
+                parseSpecExpression(state[2]);
+            } catch {
+                return undefined;
+            }
+            states.push({ name: state[1], value: state[2] });
+        }
+    }
+    return { field: m[1], states };
+}
+
+/**
+ * Parse a @temporal value. A leading `name()` names the method; the rest is
+ * structured when it starts with `within`, `not before` or `expires`, and free
+ * text otherwise. Returns undefined when a structured form is malformed.
+ */
+function parseTemporal(expr: string): { method?: string; form?: TemporalForm } | undefined {
+    let text = expr.trim();
+    let method: string | undefined;
+    const subject = TEMPORAL_SUBJECT_RE.exec(text);
+    if (subject) {
+        method = subject[1];
+        text = subject[2].trim();
+    }
+    if (!TEMPORAL_KEYWORD_RE.test(text)) return { method };
+
+    let form: TemporalForm | undefined;
+    let m: RegExpExecArray | null;
+    if ((m = TEMPORAL_WITHIN_RE.exec(text))) {
+        form = { kind: 'within', blocks: m[1].trim(), field: m[2] };
+    } else if ((m = TEMPORAL_NOT_BEFORE_RE.exec(text))) {
+        form = { kind: 'not-before', blocks: m[2].trim(), field: m[1] };
+    } else if ((m = TEMPORAL_EXPIRES_RE.exec(text))) {
+        form = { kind: 'expires', blocks: m[1].trim() };
+    }
+    if (!form) return undefined;
+    try {
+        parseSpecExpression(form.blocks);
+    } catch {
+        return undefined;
+    }
+    return { method, form };
+}
+
+/**
+ * Parse an @emits value: `Name`, `Name(arg, ...)`, either optionally followed
+ * by `when <condition>`. Returns undefined when malformed.
+ */
+function parseEmits(expr: string): { event: string; args: string[]; condition?: string } | undefined {
+    const text = expr.trim();
+    const name = /^\w+/.exec(text);
+    if (!name) return undefined;
+
+    let rest = text.slice(name[0].length).trimStart();
+    let args: string[] = [];
+    if (rest.startsWith('(')) {
+        let depth = 0;
+        let close = -1;
+        for (let i = 0; i < rest.length && close < 0; i++) {
+            if (rest[i] === '(') depth++;
+            else if (rest[i] === ')' && --depth === 0) close = i;
+        }
+        if (close < 0) return undefined;
+        const inner = rest.slice(1, close).trim();
+        args = inner === '' ? [] : splitTopLevel(inner).map((a) => a.trim());
+        if (args.some((a) => a === '')) return undefined;
+        rest = rest.slice(close + 1).trim();
+    }
+
+    if (rest === '') return { event: name[0], args };
+    const when = /^when\s+(.+)$/s.exec(rest);
+    return when ? { event: name[0], args, condition: when[1].trim() } : undefined;
+}
+
 /**
  * Parse a state transition line like:
  *   ACTIVE -> GRADUATED : buy() [when realPillAccumulated >= graduationThreshold]
  *   !GRADUATED -> !GRADUATED : buy(), sell()
  */
 function parseStateTransition(expr: string): StateTransition {
-    // from -> to : methods [when condition]
-    const mainRe = /^([^\->]+)\s*->\s*([^:]+):\s*(.+)$/;
-    const m = mainRe.exec(expr.trim());
+    const m = STATE_TRANSITION_RE.exec(expr.trim());
     if (!m) {
         return { fromState: '?', toState: '?', methods: [], condition: expr.trim() };
     }
@@ -102,6 +436,17 @@ function parseStateTransition(expr: string): StateTransition {
     return { fromState, toState, methods, condition };
 }
 
+/**
+ * Parse a state machine property like `TRIGGERED is terminal` or
+ * `CANCELLED never reaches ACTIVE`. Returns undefined for anything else.
+ */
+function parseStateProperty(expr: string): StateProperty | undefined {
+    const m = STATE_PROPERTY_RE.exec(expr.trim());
+    if (!m) return undefined;
+    if (m[3] !== undefined) return { kind: 'never-reaches', from: m[1], to: m[3] };
+    return { kind: m[2] as 'initial' | 'terminal', state: m[1] };
+}
+
 /**
  * Parse a @calls annotation like:
  *   this.pillAddress.value : transferFrom(sender, this, amount) -> must-succeed
@@ -114,8 +459,7 @@ function parseCallsSpec(
     column: number,
     comment?: string,
 ): CallsSpec {
-    const re = /^(.+?)\s*:\s*(.+?)\s*->\s*(.+)$/;
-    const m = re.exec(expr.trim());
+    const m = CALLS_RE.exec(expr.trim());
     if (!m) {
         return {
             tag: 'calls',
@@ -144,6 +488,121 @@ function parseCallsSpec(
     };
 }
 
+/**
+ * Diagnose tag-specific structure that the expression parser doesn't cover.
+ */
+function diagnoseTagSyntax(ann: SpecAnnotation): Diagnostic[] {
+    const at = (severity: 'error' | 'warning', code: string, message: string) =>
+        makeDiagnostic(severity, code, message, ann.file, ann.line, ann.expressionColumn ?? ann.column);
+
+    switch (ann.tag) {
+        case 'state': {
+            if (parseStateProperty(ann.expression)) return [];
+            if (!STATE_TRANSITION_RE.test(ann.expression.trim())) {
+                return [
+                    at(
+                        'error',
+                        'malformed-state',
+                        `@state must have the form \`from -> to : methods\` or be a property such as \`X is terminal\`, got "${ann.expression}"`,
+                    ),
+                ];
+            }
+            const transition = parseStateTransition(ann.expression);
+            if (transition.methods.length === 0) {
+                return [at('error', 'malformed-state', `@state transition ${transition.fromState} -> ${transition.toState} lists no methods`)];
+            }
+            return [];
+        }
+        case 'calls': {
+            const m = CALLS_RE.exec(ann.expression.trim());
+            if (!m) {
+                const missing = ann.expression.includes('->') ? `':'` : `'->'`;
+                return [at('error', 'malformed-calls', `@calls must have the form \`target : method(args) -> expectation\` (missing ${missing})`)];
+            }
+            if (!CALL_EXPECTATIONS.has(m[3].trim())) {
+                return [at('warning', 'unknown-expectation', `Unknown @calls expectation "${m[3].trim()}" — expected must-succeed, may-fail or unchecked`)];
+            }
+            return [];
+        }
+        case 'access': {
+            if (ann.expression.trim() === '') {
+                return [at('error', 'empty-expression', `@${ann.tag} needs a value`)];
+            }
+            if (!parseAccessLevel(ann.expression)) {
+                return [at('error', 'malformed-access', '@access must be a level such as `owner-only(this.owner)`, `role(MINTER)` or `any-of(owner, role(PAUSER))`')];
+            }
+            return [];
+        }
+        case 'role': {
+            if (!parseRoleDeclaration(ann.expression)) {
+                return [at('error', 'malformed-role', '@role must have the form `NAME : this.field` or `NAME : this.helper()`')];
+            }
+            return [];
+        }
+        case 'view':
+        case 'pure': {
+            if (ann.expression.trim() !== '') {
+                return [at('error', 'malformed-purity', `@${ann.tag} takes no value, got "${ann.expression.trim()}"`)];
+            }
+            return [];
+        }
+        case 'statefield': {
+            if (!parseStateField(ann.expression)) {
+                return [
+                    at(
+                        'error',
+                        'malformed-statefield',
+                        '@statefield must have the form `this.field`, optionally followed by `{ NAME = value, ... }` with distinct names',
+                    ),
+                ];
+            }
+            return [];
+        }
+        case 'pausable': {
+            if (!parsePausable(ann.expression)) {
+                return [at('error', 'malformed-pausable', '@pausable must have the form `this.flag`, optionally followed by `except method, ...`')];
+            }
+            return [];
+        }
+        case 'nonreentrant': {
+            if (ann.expression.trim() !== '') {
+                return [at('error', 'malformed-nonreentrant', `@nonreentrant takes no value, got "${ann.expression.trim()}"`)];
+            }
+            return [];
+        }
+        case 'emits': {
+            if (!parseEmits(ann.expression)) {
+                return [at('error', 'malformed-emits', '@emits must have the form `EventName(arg, ...)`, optionally followed by `when <condition>`')];
+            }
+            return [];
+        }
+        case 'modifies': {
+            if (!parseFrame(ann.expression)) {
+                return [at('error', 'malformed-modifies', '@modifies must list stored fields such as `this.total, this.balances[to]`, or be `nothing`')];
+            }
+            return [];
+        }
+        case 'opnet':
+        case 'temporal': {
+            if (ann.expression.trim() === '') {
+                return [at('error', 'empty-expression', `@${ann.tag} needs a value`)];
+            }
+            if (ann.tag === 'temporal' && !parseTemporal(ann.expression)) {
+                return [
+                    at(
+                        'error',
+                        'malformed-temporal',
+                        '@temporal must be `within N blocks of this.field`, `not before this.field + N` or `expires after N blocks`',
+                    ),
+                ];
+            }
+            return [];
+        }
+        default:
+            return [];
+    }
+}
+
 /**
  * Parse all spec annotations from the leading comments of a node.
  */
@@ -151,6 +610,7 @@ function parseAnnotationsFromNode(
     node: ts.Node,
     sourceFile: ts.SourceFile,
     fileName: string,
+    diagnostics: Diagnostic[],
 ): SpecAnnotation[] {
     const annotations: SpecAnnotation[] = [];
     const fullText = sourceFile.getFullText();
@@ -174,17 +634,34 @@ function parseAnnotationsFromNode(
                 const expression = (match[2] || match[5] || '').trim();
                 const comment = match[3] || match[6];
 
+                const { line } = sourceFile.getLineAndCharacterOfPosition(currentLineOffset);
+                const indent = rawLine.length - rawLine.trimStart().length;
+                const tagOffset = trimmed.indexOf(`@${tag}`);
+
                 if (SPEC_TAGS.has(tag)) {
-                    const { line, character } =
-                        sourceFile.getLineAndCharacterOfPosition(currentLineOffset);
-                    annotations.push({
+                    const exprOffset = trimmed.indexOf(expression, tagOffset + tag.length + 1);
+                    const ann: SpecAnnotation = {
                         tag: tag as SpecTag,
                         expression,
                         comment: comment?.trim(),
                         file: fileName,
                         line: line + 1,
-                        column: character + 1,
-                    });
+                        column: indent + tagOffset + 1,
+                        expressionColumn: indent + exprOffset + 1,
+                    };
+                    attachParsedExpression(ann);
+                    diagnostics.push(...diagnoseAnnotation(ann), ...diagnoseTagSyntax(ann));
+                    annotations.push(ann);
+                } else {
+                    const diagnostic = diagnoseUnknownTag(
+                        tag,
+                        SPEC_TAGS,
+                        trimmed.startsWith('///'),
+                        fileName,
+                        line + 1,
+                        indent + tagOffset + 1,
+                    );
+                    if (diagnostic) diagnostics.push(diagnostic);
                 }
             }
         }
@@ -201,13 +678,17 @@ function buildMethodSpecs(
     methodName: string,
     annotations: SpecAnnotation[],
     fileName: string,
+    diagnostics: Diagnostic[],
 ): MethodSpecs {
     const specs: MethodSpecs = {
         methodName,
         preconditions: [],
         postconditions: [],
+        reverts: [],
+        emits: [],
         calls: [],
         stateTransitions: [],
+        stateProperties: [],
         temporal: [],
     };
 
@@ -219,6 +700,7 @@ function buildMethodSpecs(
                     ...ann,
                     tag: ann.tag as 'pre' | 'requires',
                     methodName,
+                    fieldReferences: fieldReferencesOf(ann),
                 };
                 specs.preconditions.push(pre);
                 break;
@@ -229,8 +711,8 @@ function buildMethodSpecs(
                     tag: 'post',
                     methodName,
                     isCEI: false,
-                    oldReferences: extractOldReferences(ann.expression),
-                    fieldReferences: extractFieldReferences(ann.expression),
+                    oldReferences: oldReferencesOf(ann),
+                    fieldReferences: fieldReferencesOf(ann),
                 };
                 specs.postconditions.push(post);
                 break;
@@ -242,20 +724,101 @@ function buildMethodSpecs(
                     tag: 'ensures',
                     methodName,
                     isCEI,
-                    oldReferences: isCEI ? [] : extractOldReferences(ann.expression),
-                    fieldReferences: isCEI ? [] : extractFieldReferences(ann.expression),
+                    oldReferences: isCEI ? [] : oldReferencesOf(ann),
+                    fieldReferences: isCEI ? [] : fieldReferencesOf(ann),
                 };
                 specs.postconditions.push(post);
                 break;
             }
             case 'access': {
+                const parsedLevel = parseAccessLevel(ann.expression) ?? { level: ann.expression.trim() };
                 const access: AccessSpec = {
                     ...ann,
                     tag: 'access',
-                    level: ann.expression.trim() as AccessLevel,
+                    level: parsedLevel.level as AccessLevel,
+                    field: parsedLevel.field,
+                    requirement: parsedLevel.requirement,
                     methodName,
                 };
-                specs.access = access;
+                if (specs.access) {
+                    // Keep the first @access; a second one is either redundant or contradictory
+                    const first = specs.access;
+                    const conflicting = first.expression.replace(/\s+/g, '') !== access.expression.replace(/\s+/g, '');
+                    diagnostics.push(
+                        makeDiagnostic(
+                            conflicting ? 'error' : 'warning',
+                            conflicting ? 'conflicting-access' : 'duplicate-access',
+                            conflicting
+                                ? `${methodName}() has conflicting @access levels: ${first.expression.trim()} (L${first.line}) and ${access.expression.trim()}`
+                                : `${methodName}() repeats @access ${access.expression.trim()} (already declared at L${first.line})`,
+                            ann.file,
+                            ann.line,
+                            ann.column,
+                        ),
+                    );
+                } else {
+                    specs.access = access;
+                }
+                break;
+            }
+            case 'modifies': {
+                const targets = parseFrame(ann.expression);
+                if (!targets) break;
+                if (specs.modifies) {
+                    // Frames are additive: `@modifies this.a` + `@modifies this.b` = both
+                    specs.modifies.targets.push(...targets);
+                } else {
+                    const modifies: ModifiesSpec = { ...ann, tag: 'modifies', targets, methodName };
+                    specs.modifies = modifies;
+                }
+                break;
+            }
+            case 'reverts-if':
+            case 'reverts-only-if': {
+                const message = /^["'](.*)["']$/.exec(ann.comment?.trim() ?? '');
+                const reverts: RevertsSpec = {
+                    ...ann,
+                    tag: ann.tag,
+                    message: message?.[1],
+                    methodName,
+                };
+                specs.reverts.push(reverts);
+                break;
+            }
+            case 'view':
+            case 'pure': {
+                const purity: PuritySpec = { ...ann, tag: ann.tag, methodName };
+                if (specs.purity) {
+                    // @pure implies @view; the stronger claim is the one verified
+                    diagnostics.push(
+                        makeDiagnostic(
+                            'warning',
+                            'duplicate-purity',
+                            `${methodName}() is already declared @${specs.purity.tag} at L${specs.purity.line}`,
+                            ann.file,
+                            ann.line,
+                            ann.column,
+                        ),
+                    );
+                    if (purity.tag === 'pure') specs.purity = purity;
+                } else {
+                    specs.purity = purity;
+                }
+                break;
+            }
+            case 'nonreentrant': {
+                // A repeated @nonreentrant says nothing new
+                if (!specs.nonreentrant) {
+                    const nonreentrant: NonReentrantSpec = { ...ann, tag: 'nonreentrant', methodName };
+                    specs.nonreentrant = nonreentrant;
+                }
+                break;
+            }
+            case 'emits': {
+                const emits = parseEmits(ann.expression);
+                if (!emits) break;
+                const spec: EmitsSpec = { ...ann, tag: 'emits', ...emits, methodName };
+                specs.emits.push(spec);
                 break;
             }
             case 'calls': {
@@ -271,6 +834,12 @@ function buildMethodSpecs(
                 break;
             }
             case 'state': {
+                const property = parseStateProperty(ann.expression);
+                if (property) {
+                    const spec: StatePropertySpec = { ...ann, tag: 'state', property };
+                    specs.stateProperties.push(spec);
+                    break;
+                }
                 const transition = parseStateTransition(ann.expression);
                 const stateSpec: StateSpec = {
                     ...ann,
@@ -281,11 +850,14 @@ function buildMethodSpecs(
                 break;
             }
             case 'temporal': {
+                const parsed = parseTemporal(ann.expression);
                 const temporal: TemporalSpec = {
                     ...ann,
                     tag: 'temporal',
-                    subject: ann.expression.split(/\s+/)[0] || '',
+                    subject: parsed?.form ? `${parsed.method ?? methodName}()` : ann.expression.split(/\s+/)[0] || '',
                     condition: ann.expression,
+                    form: parsed?.form,
+                    methodName: parsed?.method ?? methodName,
                 };
                 specs.temporal.push(temporal);
                 break;
@@ -320,22 +892,25 @@ export function parseSource(source: string, fileName: string): SpecTree {
     const tree: SpecTree = {
         contracts: [],
         unassociated: [],
+        diagnostics: [],
     };
 
     // Walk top-level statements looking for class declarations
     for (const stmt of sourceFile.statements) {
         if (ts.isClassDeclaration(stmt)) {
-            const contractSpecs = parseClassSpecs(stmt, sourceFile, fileName);
+            const contractSpecs = parseClassSpecs(stmt, sourceFile, fileName, tree.diagnostics);
             if (contractSpecs) {
                 tree.contracts.push(contractSpecs);
             }
         }
     }
 
-    // Also extract any file-level annotations (before the first class)
-    if (sourceFile.statements.length > 0) {
+    // Also extract any file-level annotations (before the first class).
+    // When the first statement is itself a class, its leading comments were
+    // already parsed as class-level annotations.
+    if (sourceFile.statements.length > 0 && !ts.isClassDeclaration(sourceFile.statements[0])) {
         const first = sourceFile.statements[0];
-        const preClassAnns = parseAnnotationsFromNode(first, sourceFile, fileName);
+        const preClassAnns = parseAnnotationsFromNode(first, sourceFile, fileName, tree.diagnostics);
         // File-level annotations that aren't associated with a class
         // (e.g., @opnet selectors-sha256 at the top of a file)
         for (const ann of preClassAnns) {
@@ -352,7 +927,7 @@ export function parseSource(source: string, fileName: string): SpecTree {
                         tree.contracts[0].invariants.push({
                             ...ann,
                             tag: 'invariant',
-                            fieldReferences: extractFieldReferences(ann.expression),
+                            fieldReferences: fieldReferencesOf(ann),
                         });
                     }
                 } else {
@@ -372,6 +947,7 @@ function parseClassSpecs(
     classDecl: ts.ClassDeclaration,
     sourceFile: ts.SourceFile,
     fileName: string,
+    diagnostics: Diagnostic[],
 ): ContractSpecs | null {
     const className = classDecl.name?.text || '<anonymous>';
 
@@ -380,23 +956,32 @@ function parseClassSpecs(
         file: fileName,
         invariants: [],
         stateTransitions: [],
+        stateProperties: [],
         opnetConstraints: [],
+        roles: [],
+        temporal: [],
         methods: new Map(),
     };
 
     // Parse class-level annotations (before the class keyword)
-    const classAnns = parseAnnotationsFromNode(classDecl, sourceFile, fileName);
+    const classAnns = parseAnnotationsFromNode(classDecl, sourceFile, fileName, diagnostics);
     for (const ann of classAnns) {
         switch (ann.tag) {
             case 'invariant': {
                 contract.invariants.push({
                     ...ann,
                     tag: 'invariant',
-                    fieldReferences: extractFieldReferences(ann.expression),
+                    fieldReferences: fieldReferencesOf(ann),
                 });
                 break;
             }
             case 'state': {
+                const property = parseStateProperty(ann.expression);
+                if (property) {
+                    const spec: StatePropertySpec = { ...ann, tag: 'state', property };
+                    contract.stateProperties.push(spec);
+                    break;
+                }
                 contract.stateTransitions.push({
                     ...ann,
                     tag: 'state',
@@ -412,6 +997,99 @@ function parseClassSpecs(
                 });
                 break;
             }
+            case 'role': {
+                const decl = parseRoleDeclaration(ann.expression);
+                if (!decl) break;
+                const first = contract.roles.find((r) => r.name === decl.name);
+                if (first) {
+                    diagnostics.push(
+                        makeDiagnostic(
+                            'warning',
+                            'duplicate-role',
+                            `Role ${decl.name} is already declared at L${first.line} (the first declaration is used)`,
+                            ann.file,
+                            ann.line,
+                            ann.column,
+                        ),
+                    );
+                    break;
+                }
+                const role: RoleSpec = { ...ann, tag: 'role', name: decl.name, check: decl.check };
+                contract.roles.push(role);
+                break;
+            }
+            case 'pausable': {
+                const policy = parsePausable(ann.expression);
+                if (!policy) break;
+                if (contract.pausable) {
+                    diagnostics.push(
+                        makeDiagnostic(
+                            'warning',
+                            'duplicate-pausable',
+                            `@pausable is already declared at L${contract.pausable.line} (the first declaration is used)`,
+                            ann.file,
+                            ann.line,
+                            ann.column,
+                        ),
+                    );
+                    break;
+                }
+                const pausable: PausableSpec = { ...ann, tag: 'pausable', ...policy };
+                contract.pausable = pausable;
+                break;
+            }
+            case 'statefield': {
+                const machine = parseStateField(ann.expression);
+                if (!machine) break;
+                if (contract.stateField) {
+                    diagnostics.push(
+                        makeDiagnostic(
+                            'warning',
+                            'duplicate-statefield',
+                            `@statefield is already declared at L${contract.stateField.line} (the first declaration is used)`,
+                            ann.file,
+                            ann.line,
+                            ann.column,
+                        ),
+                    );
+                    break;
+                }
+                const stateField: StateFieldSpec = { ...ann, tag: 'statefield', ...machine };
+                contract.stateField = stateField;
+                break;
+            }
+            case 'temporal': {
+                const parsed = parseTemporal(ann.expression);
+                if (parsed?.form && !parsed.method) {
+                    diagnostics.push(
+                        makeDiagnostic(
+                            'error',
+                            'malformed-temporal',
+                            'A class-level @temporal must name its method, e.g. `checkin() expires after this.interval.value blocks`',
+                            ann.file,
+                            ann.line,
+                            ann.expressionColumn ?? ann.column,
+                        ),
+                    );
+                    break;
+                }
+                const temporal: TemporalSpec = {
+                    ...ann,
+                    tag: 'temporal',
+                    subject: parsed?.form ? `${parsed.method}()` : ann.expression.split(/\s+/)[0] || '',
+                    condition: ann.expression,
+                    form: parsed?.form,
+                    methodName: parsed?.method,
+                };
+                contract.temporal.push(temporal);
+                break;
+            }
+            case 'nonreentrant': {
+                if (!contract.nonreentrant) {
+                    contract.nonreentrant = { ...ann, tag: 'nonreentrant' };
+                }
+                break;
+            }
         }
     }
 
@@ -422,16 +1100,17 @@ function parseClassSpecs(
                 ? member.name.text
                 : member.name.getText(sourceFile);
 
-            const methodAnns = parseAnnotationsFromNode(member, sourceFile, fileName);
+            const methodAnns = parseAnnotationsFromNode(member, sourceFile, fileName, diagnostics);
 
             if (methodAnns.length > 0) {
-                const methodSpecs = buildMethodSpecs(methodName, methodAnns, fileName);
+                const methodSpecs = buildMethodSpecs(methodName, methodAnns, fileName, diagnostics);
                 contract.methods.set(methodName, methodSpecs);
 
-                // Promote state transitions to contract level too
+                // Promote state transitions and properties to contract level too
                 for (const st of methodSpecs.stateTransitions) {
                     contract.stateTransitions.push(st);
                 }
+                contract.stateProperties.push(...methodSpecs.stateProperties);
             }
         }
     }
@@ -440,7 +1119,13 @@ function parseClassSpecs(
     const hasSpecs =
         contract.invariants.length > 0 ||
         contract.stateTransitions.length > 0 ||
+        contract.stateProperties.length > 0 ||
         contract.opnetConstraints.length > 0 ||
+        contract.roles.length > 0 ||
+        contract.nonreentrant !== undefined ||
+        contract.pausable !== undefined ||
+        contract.stateField !== undefined ||
+        contract.temporal.length > 0 ||
         contract.methods.size > 0;
 
     return hasSpecs ? contract : null;
@@ -450,7 +1135,7 @@ function parseClassSpecs(
  * Parse all .ts files in a directory recursively.
  */
 export function parseDirectory(dirPath: string): SpecTree {
-    const tree: SpecTree = { contracts: [], unassociated: [] };
+    const tree: SpecTree = { contracts: [], unassociated: [], diagnostics: [] };
     const absolutePath = path.resolve(dirPath);
 
     function walk(dir: string): void {
@@ -465,6 +1150,7 @@ export function parseDirectory(dirPath: string): SpecTree {
                     const fileTree = parseFile(fullPath);
                     tree.contracts.push(...fileTree.contracts);
                     tree.unassociated.push(...fileTree.unassociated);
+                    tree.diagnostics.push(...fileTree.diagnostics);
                 } catch (err) {
                     // Skip files that can't be parsed
                     console.error(`Warning: Could not parse ${fullPath}: ${(err as Error).message}`);
@@ -488,5 +1174,5 @@ export function parsePath(targetPath: string): SpecTree {
     } else if (stat.isDirectory()) {
         return parseDirectory(targetPath);
     }
-    return { contracts: [], unassociated: [] };
+    return { contracts: [], unassociated: [], diagnostics: [] };
 }
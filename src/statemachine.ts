@@ -0,0 +1,491 @@
+// ============================================================================
+// opspec State Machines — The @state transition graph and its reachability
+// ============================================================================
+//
+// The @state lines of a contract form a graph over named states, with one
+// edge per (from, to, method). A negated state `!X` stands for every known
+// state other than X. As a target it keeps a state that already satisfies
+// it, so `!X -> !X : m()` is a self-loop on each state other than X.
+//
+// The same kind of graph can be read off the code: the constants a status
+// field is compared to and set to are the states, and each method's paths
+// give its edges. Diffing the two shows where specs and code disagree.
+
+import * as ts from 'typescript';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+    ContractSpecs,
+    StateFieldSpec,
+    StatePropertySpec,
+    ImplementedStateMachine,
+    StateMachineDiff,
+    StateEdge,
+    StateGraph,
+    StateMachineFinding,
+    StatePropertyResult,
+    StateMachineReport,
+} from './types';
+import {
+    findClassDeclarations,
+    getClassName,
+    buildCallGraph,
+    entryPoints,
+    reachableMethods,
+    createSourceFile,
+} from './ast-utils';
+import { SymbolicContext, buildSymbolicContext, executeMethod, evaluateSpec } from './symbolic';
+import { prove } from './prover';
+import { Term, mkNot, termKey } from './terms';
+import { parseSpecExpression } from './expression-parser';
+
+// ============================================================================
+// Graph
+// ============================================================================
+
+/**
+ * Collect the @state transitions of a contract into a graph. `knownStates`
+ * adds states that negated names (`!X`) should also cover.
+ */
+export function buildStateGraph(contract: ContractSpecs, knownStates: string[] = []): StateGraph {
+    const names: string[] = [];
+    const addName = (state: string) => {
+        const name = state.replace(/^!/, '');
+        if (name !== '?' && !names.includes(name)) names.push(name);
+    };
+    for (const s of contract.stateField?.states ?? []) addName(s.name);
+    for (const s of knownStates) addName(s);
+    for (const st of contract.stateTransitions) {
+        addName(st.transition.fromState);
+        addName(st.transition.toState);
+    }
+    for (const prop of contract.stateProperties) {
+        const p = prop.property;
+        if (p.kind === 'never-reaches') {
+            addName(p.from);
+            addName(p.to);
+        } else {
+            addName(p.state);
+        }
+    }
+
+    const edges: StateEdge[] = [];
+    for (const st of contract.stateTransitions) {
+        for (const from of expandState(st.transition.fromState, names)) {
+            const targets = st.transition.toState.startsWith('!') && matches(from, st.transition.toState)
+                ? [from]
+                : expandState(st.transition.toState, names);
+            for (const to of targets) {
+                for (const method of st.transition.methods) {
+                    const edge: StateEdge = { from, to, method, line: st.line };
+                    if (st.transition.condition) edge.condition = st.transition.condition;
+                    edges.push(edge);
+                }
+            }
+        }
+    }
+
+    const graph: StateGraph = { states: names, initialSource: 'none', edges };
+    const declared = contract.stateProperties.find((p) => p.property.kind === 'initial');
+    const zero = contract.stateField?.states.find((s) => /^(?:0|u256\.Zero)$/.test(s.value));
+    const first = contract.stateTransitions.find((st) => !st.transition.fromState.startsWith('!') && st.transition.fromState !== '?');
+    if (declared && declared.property.kind === 'initial') {
+        graph.initial = declared.property.state;
+        graph.initialSource = 'declared';
+    } else if (zero) {
+        graph.initial = zero.name;
+        graph.initialSource = 'statefield';
+    } else if (first) {
+        graph.initial = first.transition.fromState;
+        graph.initialSource = 'first-transition';
+    }
+    return graph;
+}
+
+function matches(state: string, pattern: string): boolean {
+    return pattern.startsWith('!') ? state !== pattern.slice(1) : state === pattern;
+}
+
+function expandState(pattern: string, names: string[]): string[] {
+    if (pattern === '?') return [];
+    return pattern.startsWith('!') ? names.filter((n) => matches(n, pattern)) : [pattern];
+}
+
+/**
+ * Shortest run of at least one transition from `from` to `to`.
+ */
+export function findStateRun(graph: StateGraph, from: string, to: string): StateEdge[] | undefined {
+    const previous = new Map<string, StateEdge>();
+    const queue: string[] = [from];
+    const seen = new Set<string>();
+    while (queue.length > 0) {
+        const state = queue.shift()!;
+        for (const edge of graph.edges.filter((e) => e.from === state)) {
+            if (seen.has(edge.to)) continue;
+            seen.add(edge.to);
+            previous.set(edge.to, edge);
+            if (edge.to === to) {
+                const run = [edge];
+                while (run[0].from !== from) run.unshift(previous.get(run[0].from)!);
+                return run;
+            }
+            queue.push(edge.to);
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Render a run, e.g. "ACTIVE —trigger()→ TRIGGERED —cancel()→ ACTIVE".
+ */
+export function formatStateRun(run: StateEdge[]): string {
+    if (run.length === 0) return '';
+    return [run[0].from, ...run.map((e) => `—${e.method}()→ ${e.to}`)].join(' ');
+}
+
+// ============================================================================
+// Properties
+// ============================================================================
+
+/**
+ * Check a declared property against the transition graph.
+ */
+export function checkStateProperty(spec: StatePropertySpec, graph: StateGraph): StatePropertyResult {
+    const p = spec.property;
+    switch (p.kind) {
+        case 'initial': {
+            if (graph.initial !== p.state) {
+                return { spec, holds: false, message: `${p.state} is declared initial, but so is ${graph.initial}` };
+            }
+            const reached = reachableStates(graph, p.state);
+            return {
+                spec,
+                holds: true,
+                message: `${p.state} is the initial state; ${reached.size} of ${graph.states.length} state(s) reachable from it`,
+            };
+        }
+        case 'terminal': {
+            const leaving = graph.edges.find((e) => e.from === p.state && e.to !== p.state);
+            if (leaving) {
+                return {
+                    spec,
+                    holds: false,
+                    message: `${p.state} is not terminal: ${leaving.method}() leaves it for ${leaving.to} (L${leaving.line})`,
+                    run: [leaving],
+                };
+            }
+            return { spec, holds: true, message: `No transition leaves ${p.state}` };
+        }
+        case 'never-reaches': {
+            const run = findStateRun(graph, p.from, p.to);
+            if (run) {
+                return { spec, holds: false, message: `${p.from} reaches ${p.to}: ${formatStateRun(run)}`, run };
+            }
+            return { spec, holds: true, message: `No sequence of transitions leads from ${p.from} to ${p.to}` };
+        }
+    }
+}
+
+function reachableStates(graph: StateGraph, from: string): Set<string> {
+    const seen = new Set<string>([from]);
+    const queue = [from];
+    while (queue.length > 0) {
+        const state = queue.shift()!;
+        for (const edge of graph.edges) {
+            if (edge.from === state && !seen.has(edge.to)) {
+                seen.add(edge.to);
+                queue.push(edge.to);
+            }
+        }
+    }
+    return seen;
+}
+
+// ============================================================================
+// Extraction
+// ============================================================================
+
+/**
+ * Resolve a state name: a value declared in @statefield, else a constant
+ * named after it (`ACTIVE`, or a unique `STATUS_ACTIVE`).
+ */
+export function resolveState(name: string, spec: StateFieldSpec | undefined, constants: Map<string, Term>): string | undefined {
+    if (spec && spec.states.length > 0) return spec.states.find((s) => s.name === name)?.value;
+    if (constants.has(name)) return name;
+    const prefixed = [...constants.keys()].filter((c) => c.endsWith(`_${name}`));
+    return prefixed.length === 1 ? prefixed[0] : undefined;
+}
+
+const STATUS_FIELD_RE = /status|state|phase|stage/i;
+
+/**
+ * Read off the state machine a class implements. The state field is the
+ * @statefield, else a StoredU256 named like a status that some method sets
+ * to a constant. Every returning path of every entry point that touches the
+ * field is tried in each state: a state its guards let through is a
+ * from-state, and the state the field provably ends in is the to-state.
+ * `@view` and `@pure` methods are left out.
+ */
+export function extractStateMachine(
+    classDecl: ts.ClassDeclaration,
+    sourceFile: ts.SourceFile,
+    contract?: ContractSpecs,
+): ImplementedStateMachine | undefined {
+    const ctx = buildSymbolicContext(classDecl, sourceFile);
+    const callGraph = buildCallGraph(classDecl);
+    const entries = entryPoints(callGraph).filter((name) => !contract?.methods.get(name)?.purity);
+
+    const field = contract?.stateField?.field
+        ?? [...ctx.storedFields]
+            .filter(([name, type]) => type === 'StoredU256' && STATUS_FIELD_RE.test(name))
+            .map(([name]) => name)
+            .find((name) => writtenConstants(name, entries, ctx).length > 0);
+    if (!field) return undefined;
+
+    const states = implementedStates(field, entries, ctx, contract);
+    if (states.length === 0) return undefined;
+
+    const machine: ImplementedStateMachine = { field, states, edges: [], undecided: [] };
+    const test = (value: string) => parseSpecExpression(`this.${field}.value == ${value}`);
+    for (const name of entries) {
+        const method = callGraph.methods.get(name)!;
+        const touches = reachableMethods(callGraph, method).some((r) => r.method.body?.getText(sourceFile).includes(`this.${field}.value`));
+        if (!touches) continue;
+
+        const execution = executeMethod(method, ctx);
+        if (execution.truncated) {
+            machine.undecided.push({ method: name, reason: 'too many paths' });
+            continue;
+        }
+        const line = sourceFile.getLineAndCharacterOfPosition(method.name.getStart(sourceFile)).line + 1;
+        const undecided = new Set<string>();
+        for (const path of execution.paths.filter((p) => p.status === 'returned')) {
+            for (const from of states) {
+                const inFrom = evaluateSpec(test(from.value), path, ctx, true);
+                if (!inFrom) {
+                    undecided.add(`this.${field} == ${from.value} cannot be evaluated`);
+                    continue;
+                }
+                // The path's guards rule this state out
+                if (prove(path.conditions, mkNot(inFrom)).status === 'proved') continue;
+
+                const to = states.find((t) => {
+                    const inTo = evaluateSpec(test(t.value), path, ctx, false);
+                    return inTo !== undefined && prove([inFrom, ...path.conditions], inTo).status === 'proved';
+                });
+                if (!to) {
+                    undecided.add(`from ${from.name}, this.${field} may end in no known state (L${line})`);
+                    continue;
+                }
+                if (!machine.edges.some((e) => e.from === from.name && e.to === to.name && e.method === name)) {
+                    machine.edges.push({ from: from.name, to: to.name, method: name, line });
+                }
+            }
+        }
+        for (const reason of undecided) machine.undecided.push({ method: name, reason });
+    }
+    return machine;
+}
+
+/**
+ * Constants that some returning path of the methods stores in the field.
+ */
+function writtenConstants(field: string, methods: string[], ctx: SymbolicContext): string[] {
+    const byKey = new Map([...ctx.constants].map(([name, term]) => [termKey(term), name]));
+    const written: string[] = [];
+    for (const name of methods) {
+        for (const path of executeMethod(ctx.methods.get(name)!, ctx).paths) {
+            const value = path.status === 'returned' ? path.fields.get(field) : undefined;
+            const constant = value && byKey.get(termKey(value));
+            if (constant && !written.includes(constant)) written.push(constant);
+        }
+    }
+    return written;
+}
+
+/**
+ * The states of the field: those declared in @statefield, else the constants
+ * written to it, the constants the @state names resolve to, and the other
+ * constants that share the written ones' prefix (`STATUS_CANCELLED` next to
+ * `STATUS_ACTIVE`). Constants are named as in the specs, or without the
+ * shared prefix.
+ */
+function implementedStates(
+    field: string,
+    methods: string[],
+    ctx: SymbolicContext,
+    contract: ContractSpecs | undefined,
+): { name: string; value: string }[] {
+    const declared = contract?.stateField?.states ?? [];
+    if (declared.length > 0) return declared;
+
+    const written = writtenConstants(field, methods, ctx);
+    const specNames = new Map<string, string>();
+    for (const st of contract?.stateTransitions ?? []) {
+        for (const state of [st.transition.fromState, st.transition.toState]) {
+            const name = state.replace(/^!/, '');
+            const constant = resolveState(name, undefined, ctx.constants);
+            if (constant) specNames.set(constant, name);
+        }
+    }
+
+    const prefix = commonPrefix(written);
+    const constants = [...written, ...specNames.keys()];
+    if (prefix) constants.push(...[...ctx.constants.keys()].filter((c) => c.startsWith(prefix)));
+    return [...new Set(constants)].map((c) => ({
+        name: specNames.get(c) ?? (prefix && c.startsWith(prefix) ? c.slice(prefix.length) : c),
+        value: c,
+    }));
+}
+
+/**
+ * Longest shared prefix ending in `_`, e.g. `STATUS_` for STATUS_ACTIVE and STATUS_TRIGGERED.
+ */
+function commonPrefix(names: string[]): string {
+    if (names.length === 0) return '';
+    let prefix = names[0];
+    for (const name of names) {
+        while (!name.startsWith(prefix)) prefix = prefix.slice(0, -1);
+    }
+    return prefix.slice(0, prefix.lastIndexOf('_') + 1);
+}
+
+/**
+ * Compare the specified transitions with the implemented ones, by state
+ * name and method. Negated spec states cover the implemented states too.
+ */
+export function diffStateMachines(contract: ContractSpecs, implemented: ImplementedStateMachine): StateMachineDiff {
+    const specified = buildStateGraph(contract, implemented.states.map((s) => s.name)).edges;
+    const key = (e: StateEdge) => `${e.from}\u0000${e.to}\u0000${e.method}`;
+    const specifiedKeys = new Set(specified.map(key));
+    const implementedKeys = new Set(implemented.edges.map(key));
+    const seen = new Set<string>();
+    return {
+        unspecified: implemented.edges.filter((e) => !specifiedKeys.has(key(e))),
+        unimplemented: specified.filter((e) => {
+            if (implementedKeys.has(key(e)) || seen.has(key(e))) return false;
+            seen.add(key(e));
+            return true;
+        }),
+    };
+}
+
+// ============================================================================
+// Analysis
+// ============================================================================
+
+/**
+ * Check a contract's state machine: reachability from the initial state,
+ * dead ends, entry points outside every transition, transitions naming
+ * unknown methods, nondeterminism, and the declared properties. With
+ * `diff`, also extract the implemented machine and compare the two.
+ */
+export function analyzeStateMachine(
+    contract: ContractSpecs,
+    sourceFile: ts.SourceFile,
+    options: { diff?: boolean } = {},
+): StateMachineReport {
+    const graph = buildStateGraph(contract);
+    const findings: StateMachineFinding[] = [];
+    const terminal = new Set(
+        contract.stateProperties.flatMap((p) => (p.property.kind === 'terminal' ? [p.property.state] : [])),
+    );
+
+    if (graph.initial) {
+        const reached = reachableStates(graph, graph.initial);
+        for (const state of graph.states) {
+            if (!reached.has(state)) {
+                findings.push({ kind: 'unreachable-state', message: `${state} cannot be reached from ${graph.initial}` });
+            }
+        }
+    }
+
+    for (const state of graph.states) {
+        if (!terminal.has(state) && !graph.edges.some((e) => e.from === state)) {
+            findings.push({
+                kind: 'dead-end',
+                message: `${state} has no outgoing transition (declare \`@state ${state} is terminal\` if that is intended)`,
+            });
+        }
+    }
+
+    const classDecl = findClassDeclarations(sourceFile).find((c) => getClassName(c) === contract.className);
+    if (classDecl) {
+        const callGraph = buildCallGraph(classDecl);
+        const inTransitions = new Set(contract.stateTransitions.flatMap((st) => st.transition.methods));
+        for (const st of contract.stateTransitions) {
+            for (const method of st.transition.methods) {
+                if (!callGraph.methods.has(method)) {
+                    findings.push({ kind: 'unknown-method', message: `${method}() is not a method of ${contract.className}`, line: st.line });
+                }
+            }
+        }
+        for (const name of entryPoints(callGraph)) {
+            if (inTransitions.has(name) || contract.methods.get(name)?.purity) continue;
+            findings.push({ kind: 'untracked-method', message: `${name}() appears in no transition` });
+        }
+    }
+
+    findings.push(...findNondeterminism(graph));
+
+    const properties = contract.stateProperties.map((p) => checkStateProperty(p, graph));
+    const report: StateMachineReport = { file: contract.file, contractName: contract.className, graph, findings, properties };
+    if (options.diff) {
+        const implemented = classDecl && extractStateMachine(classDecl, sourceFile, contract);
+        if (implemented) {
+            report.implemented = implemented;
+            report.diff = diffStateMachines(contract, implemented);
+        } else {
+            findings.push({
+                kind: 'no-state-field',
+                message: 'no status field set to named constants was found; declare it with @statefield',
+            });
+        }
+    }
+    return report;
+}
+
+/**
+ * Transitions where one method can take one state to two different states.
+ */
+function findNondeterminism(graph: StateGraph): StateMachineFinding[] {
+    const findings: StateMachineFinding[] = [];
+    const groups = new Map<string, StateEdge[]>();
+    for (const edge of graph.edges) {
+        const key = `${edge.from}\u0000${edge.method}`;
+        groups.set(key, [...(groups.get(key) ?? []), edge]);
+    }
+    for (const edges of groups.values()) {
+        const targets = [...new Set(edges.map((e) => e.to))];
+        if (targets.length < 2) continue;
+        const { from, method } = edges[0];
+        const options = targets.map((to) => {
+            const edge = edges.find((e) => e.to === to)!;
+            return `${to} (L${edge.line}${edge.condition ? `, when ${edge.condition}` : ''})`;
+        });
+        const guarded = edges.every((e) => e.condition) ? '; the conditions must exclude each other' : '';
+        findings.push({
+            kind: 'nondeterministic',
+            message: `${method}() from ${from} can lead to ${options.join(' or ')}${guarded}`,
+            line: Math.min(...edges.map((e) => e.line)),
+        });
+    }
+    return findings;
+}
+
+/**
+ * Analyze the state machines of the contracts declared in a file.
+ */
+export function analyzeStateMachinesInFile(
+    filePath: string,
+    contracts: ContractSpecs[],
+    options: { diff?: boolean } = {},
+): StateMachineReport[] {
+    const absolutePath = path.resolve(filePath);
+    const source = fs.readFileSync(absolutePath, 'utf-8');
+    const sourceFile = createSourceFile(absolutePath, source);
+    return contracts
+        .filter((c) => path.resolve(c.file) === absolutePath)
+        .filter((c) => c.stateTransitions.length > 0 || c.stateProperties.length > 0)
+        .map((c) => analyzeStateMachine(c, sourceFile, options));
+}
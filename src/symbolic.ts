@@ -0,0 +1,1458 @@
+// ============================================================================
+// opspec Symbolic Executor — Explores a method's paths over symbolic state
+// ============================================================================
+//
+// Each path carries its path condition, the current value of every stored
+// field, the writes made to stored maps, and the locals in scope. Stored
+// fields start as free symbols named `old(this.X.value)`, so a postcondition
+// can be evaluated on a finished path and handed to the prover.
+//
+// Modelled: StoredU256/StoredBoolean/StoredAddress `.value` reads and writes,
+// StoredMapU256 get/set, SafeMath (which reverts on overflow, underflow and
+// division by zero), u256 comparisons and arithmetic, `throw new Revert()`,
+// if/switch forks, private helper calls (inlined), and the events passed to
+// `this.emitEvent()`. Loops are havocked: everything they assign becomes
+// unknown, and the path is marked approximate. The body still runs once from
+// the entry state and once from the havocked state, so a `return` or `throw`
+// inside a loop keeps its paths.
+
+import * as ts from 'typescript';
+import { AggregateFunction, SpecExpression } from './types';
+import {
+    Term,
+    TermSort,
+    U256_MAX,
+    TRUE,
+    FALSE,
+    mkConst,
+    mkBool,
+    mkVar,
+    mkSelect,
+    mkArith,
+    mkCmp,
+    mkNot,
+    mkAnd,
+    mkOr,
+    mkImplies,
+    mkIte,
+    termSort,
+    termKey,
+    ArithOperator,
+    CompareOperator,
+} from './terms';
+import { MAX_HELPER_DEPTH, NON_TRANSITION_METHODS, detectStoredFields, getClassMethods, getMethodName, walkTree } from './ast-utils';
+
+/** A BytesWriter under construction: the values written so far */
+export interface WriterValue {
+    kind: 'writer';
+    items: Term[];
+}
+
+export type SymValue = Term | WriterValue;
+
+export type PathStatus = 'running' | 'returned' | 'reverted' | 'break' | 'continue';
+
+/** A write to a stored map; `key` is undefined when a loop havocked the whole map */
+interface MapWrite {
+    map: string;
+    key?: Term;
+    value: Term;
+    line: number;
+}
+
+/** An event passed to `this.emitEvent(new Name(args))` */
+export interface EmittedEvent {
+    name: string;
+    /** Argument values; undefined where the value is not a term */
+    args: (Term | undefined)[];
+    /** Argument source text */
+    argText: string[];
+    line: number;
+}
+
+export interface PathState {
+    /** Facts that hold on this path */
+    conditions: Term[];
+    /** Local variable scopes, innermost last */
+    scopes: Map<string, SymValue>[];
+    /** Current value of each stored (non-map) field that has been written */
+    fields: Map<string, Term>;
+    mapWrites: MapWrite[];
+    events: EmittedEvent[];
+    /** Human-readable branch decisions, for counterexamples */
+    trace: string[];
+    status: PathStatus;
+    returnValue?: SymValue;
+    revertMessage?: string;
+    /** Locals of the analysed method where it returned or reverted */
+    finalLocals?: Map<string, SymValue>;
+    /** The path went through code that is only over-approximated */
+    approximate: boolean;
+}
+
+export interface SymbolicExecution {
+    /** Finished paths (returned or reverted) */
+    paths: PathState[];
+    /** Some paths were dropped because the path budget ran out */
+    truncated: boolean;
+}
+
+/**
+ * Everything the executor needs to know about the contract class.
+ */
+export interface SymbolicContext {
+    sourceFile: ts.SourceFile;
+    /** Stored field name → storage type (StoredU256, StoredMapU256, ...) */
+    storedFields: Map<string, string>;
+    methods: Map<string, ts.MethodDeclaration>;
+    /** The class constructor, which runs before onDeployment() at deployment */
+    constructorDecl?: ts.ConstructorDeclaration;
+    /** Module-level consts and readonly class constants with known values */
+    constants: Map<string, Term>;
+    /** Executions already computed, per method */
+    executions: Map<ts.MethodDeclaration, SymbolicExecution>;
+    /** Stored fields a method may write, from its verified @modifies frame */
+    frames: Map<string, Set<string>>;
+}
+
+const MAX_PATHS = 256;
+
+export const MAP_TYPES = new Set(['StoredMapU256', 'AddressMemoryMap']);
+
+export { NON_TRANSITION_METHODS };
+
+const SAFE_MATH_OPS: Record<string, ArithOperator> = { add: 'add', sub: 'sub', mul: 'mul', div: 'div' };
+
+const U256_COMPARISONS: Record<string, CompareOperator> = {
+    eq: 'eq',
+    ne: 'ne',
+    lt: 'lt',
+    le: 'le',
+    gt: 'gt',
+    ge: 'ge',
+};
+
+const U256_CONSTRUCTORS = new Set(['fromU32', 'fromU64', 'fromI32', 'fromI64']);
+
+// ============================================================================
+// Context
+// ============================================================================
+
+/**
+ * Collect stored fields, methods and constants for a class.
+ */
+export function buildSymbolicContext(classDecl: ts.ClassDeclaration, sourceFile: ts.SourceFile): SymbolicContext {
+    const methods = new Map<string, ts.MethodDeclaration>();
+    for (const method of getClassMethods(classDecl)) {
+        methods.set(getMethodName(method), method);
+    }
+
+    const constants = new Map<string, Term>();
+    for (const stmt of sourceFile.statements) {
+        if (ts.isVariableStatement(stmt) && stmt.declarationList.flags & ts.NodeFlags.Const) {
+            for (const decl of stmt.declarationList.declarations) {
+                const value = decl.initializer && constantValue(decl.initializer, sourceFile);
+                if (ts.isIdentifier(decl.name) && value) constants.set(decl.name.text, value);
+            }
+        }
+    }
+    for (const member of classDecl.members) {
+        if (!ts.isPropertyDeclaration(member) || !member.initializer) continue;
+        const isReadonly = member.modifiers?.some((m) => m.kind === ts.SyntaxKind.ReadonlyKeyword);
+        const value = constantValue(member.initializer, sourceFile);
+        if (isReadonly && value && ts.isIdentifier(member.name)) {
+            constants.set(member.name.text, value);
+        }
+    }
+
+    return {
+        sourceFile,
+        storedFields: detectStoredFields(classDecl, sourceFile),
+        methods,
+        constructorDecl: classDecl.members.find(ts.isConstructorDeclaration),
+        constants,
+        executions: new Map(),
+        frames: new Map(),
+    };
+}
+
+/**
+ * Value of a constant initializer: literals, u256.Zero/One/Max, u256.fromU32(n).
+ */
+function constantValue(node: ts.Expression, sourceFile: ts.SourceFile): Term | undefined {
+    if (ts.isParenthesizedExpression(node)) return constantValue(node.expression, sourceFile);
+    if (ts.isNumericLiteral(node)) return mkConst(BigInt(node.text));
+    if (node.kind === ts.SyntaxKind.TrueKeyword) return TRUE;
+    if (node.kind === ts.SyntaxKind.FalseKeyword) return FALSE;
+
+    const text = node.getText(sourceFile);
+    if (text === 'u256.Zero') return mkConst(0n);
+    if (text === 'u256.One') return mkConst(1n);
+    if (text === 'u256.Max') return mkConst(U256_MAX);
+
+    if (
+        ts.isCallExpression(node) &&
+        ts.isPropertyAccessExpression(node.expression) &&
+        node.expression.expression.getText(sourceFile) === 'u256' &&
+        U256_CONSTRUCTORS.has(node.expression.name.text) &&
+        node.arguments.length === 1 &&
+        ts.isNumericLiteral(node.arguments[0])
+    ) {
+        return mkConst(BigInt(node.arguments[0].text));
+    }
+    return undefined;
+}
+
+/**
+ * Symbol for a stored field's value at method entry.
+ */
+export function initialFieldTerm(field: string, ctx: SymbolicContext): Term {
+    const sort: TermSort = ctx.storedFields.get(field) === 'StoredBoolean' ? 'bool' : 'int';
+    return mkVar(`old(this.${field}.value)`, sort);
+}
+
+/**
+ * Current value of a stored field on a path.
+ */
+export function currentFieldTerm(field: string, path: PathState, ctx: SymbolicContext): Term {
+    return path.fields.get(field) ?? initialFieldTerm(field, ctx);
+}
+
+// ============================================================================
+// Execution
+// ============================================================================
+
+interface ExecEnv {
+    ctx: SymbolicContext;
+    /** Identifies the inlined call chain, so fresh names stay distinct */
+    frame: string;
+    /** Stored fields the executed method may write, when it has a verified frame */
+    writable?: Set<string>;
+    depth: number;
+    names: Map<string, string>;
+    taken: Set<string>;
+    truncated: boolean;
+}
+
+interface Outcome {
+    state: PathState;
+    value: SymValue;
+}
+
+/**
+ * Execute a method symbolically from an unconstrained pre-state.
+ */
+export function executeMethod(method: ts.MethodDeclaration, ctx: SymbolicContext): SymbolicExecution {
+    const cached = ctx.executions.get(method);
+    if (cached) return cached;
+
+    const execution = executeStatements(method.body?.statements ?? [], method.parameters, ctx, ctx.frames.get(getMethodName(method)));
+    ctx.executions.set(method, execution);
+    return execution;
+}
+
+/**
+ * Execute deployment symbolically from zeroed storage: the constructor's
+ * statements, then onDeployment()'s. The pre-state symbols stand for zero;
+ * callers assume that. Undefined when the class declares neither.
+ */
+export function executeDeployment(ctx: SymbolicContext): SymbolicExecution | undefined {
+    const deployment = ctx.methods.get('onDeployment');
+    if (!ctx.constructorDecl && !deployment) return undefined;
+    return executeStatements(
+        [...(ctx.constructorDecl?.body?.statements ?? []), ...(deployment?.body?.statements ?? [])],
+        [...(ctx.constructorDecl?.parameters ?? []), ...(deployment?.parameters ?? [])],
+        ctx,
+        undefined,
+    );
+}
+
+function executeStatements(
+    statements: readonly ts.Statement[],
+    parameters: readonly ts.ParameterDeclaration[],
+    ctx: SymbolicContext,
+    writable: Set<string> | undefined,
+): SymbolicExecution {
+    const env: ExecEnv = {
+        ctx,
+        frame: '',
+        writable,
+        depth: 0,
+        names: new Map(),
+        taken: new Set(),
+        truncated: false,
+    };
+    const params = new Map<string, SymValue>();
+    for (const param of parameters) {
+        if (ts.isIdentifier(param.name)) {
+            env.taken.add(param.name.text);
+            params.set(param.name.text, mkVar(param.name.text));
+        }
+    }
+
+    const initial: PathState = {
+        conditions: [],
+        scopes: [params],
+        fields: new Map(),
+        mapWrites: [],
+        events: [],
+        trace: [],
+        status: 'running',
+        approximate: false,
+    };
+
+    const finished = execStatements(statements, [initial], env);
+    for (const path of finished) {
+        // Falling off the end is a (void) return
+        if (path.status === 'running') {
+            path.status = 'returned';
+            path.finalLocals = flattenScopes(path.scopes);
+        }
+        if (path.status === 'reverted') path.finalLocals = flattenScopes(path.scopes);
+    }
+    return { paths: finished, truncated: env.truncated };
+}
+
+/**
+ * Whether a path changes any of the fields (this.X.value references or bare names).
+ */
+export function writesAny(path: PathState, fieldReferences: string[]): boolean {
+    const fields = fieldReferences.map((f) => f.replace(/^this\./, '').replace(/\.value$/, ''));
+    return fields.some(
+        (f) =>
+            (path.fields.has(f) && termKey(path.fields.get(f)!) !== `old(this.${f}.value)`) ||
+            path.mapWrites.some((w) => w.map === f),
+    );
+}
+
+function fork(s: PathState): PathState {
+    return {
+        ...s,
+        conditions: [...s.conditions],
+        scopes: s.scopes.map((m) => new Map(m)),
+        fields: new Map(s.fields),
+        mapWrites: [...s.mapWrites],
+        events: [...s.events],
+        trace: [...s.trace],
+    };
+}
+
+function flattenScopes(scopes: Map<string, SymValue>[]): Map<string, SymValue> {
+    const flat = new Map<string, SymValue>();
+    for (const scope of scopes) {
+        for (const [k, v] of scope) flat.set(k, v);
+    }
+    return flat;
+}
+
+function lineOf(node: ts.Node, env: ExecEnv): number {
+    const sf = env.ctx.sourceFile;
+    return sf.getLineAndCharacterOfPosition(node.getStart(sf)).line + 1;
+}
+
+function isTerm(v: SymValue): v is Term {
+    return v.kind !== 'writer';
+}
+
+function asTerm(v: SymValue): Term {
+    return isTerm(v) ? v : mkVar('<writer>');
+}
+
+function asBool(v: SymValue): Term {
+    const t = asTerm(v);
+    return termSort(t) === 'bool' ? t : mkCmp('ne', t, mkConst(0n));
+}
+
+/**
+ * A fresh symbol, named after the hint (usually the local being declared).
+ * Names are stable per (inline frame, node), so every path agrees on them.
+ */
+function fresh(env: ExecEnv, node: ts.Node, base: string, sort: TermSort = 'int'): Term {
+    const key = `${env.frame}:${node.pos}:${base}`;
+    let name = env.names.get(key);
+    if (!name) {
+        name = base;
+        for (let i = 2; env.taken.has(name); i++) name = `${base}#${i}`;
+        env.taken.add(name);
+        env.names.set(key, name);
+    }
+    return mkVar(name, sort);
+}
+
+function execStatements(statements: readonly ts.Statement[], states: PathState[], env: ExecEnv): PathState[] {
+    for (const stmt of statements) {
+        const next: PathState[] = [];
+        for (const s of states) {
+            if (s.status !== 'running') next.push(s);
+            else next.push(...execStatement(stmt, s, env));
+        }
+        states = enforceBudget(next, env);
+    }
+    return states;
+}
+
+function enforceBudget(states: PathState[], env: ExecEnv): PathState[] {
+    const running = states.filter((s) => s.status === 'running');
+    if (running.length <= MAX_PATHS) return states;
+    env.truncated = true;
+    const dropped = new Set(running.slice(MAX_PATHS));
+    return states.filter((s) => !dropped.has(s));
+}
+
+function execStatement(stmt: ts.Statement, s: PathState, env: ExecEnv): PathState[] {
+    const sf = env.ctx.sourceFile;
+
+    if (ts.isBlock(stmt)) {
+        s.scopes.push(new Map());
+        const out = execStatements(stmt.statements, [s], env);
+        for (const o of out) o.scopes.pop();
+        return out;
+    }
+
+    if (ts.isVariableStatement(stmt)) {
+        let states = [s];
+        for (const decl of stmt.declarationList.declarations) {
+            if (!ts.isIdentifier(decl.name)) continue;
+            const name = decl.name.text;
+            const next: PathState[] = [];
+            for (const st of states) {
+                if (st.status !== 'running') {
+                    next.push(st);
+                    continue;
+                }
+                if (!decl.initializer) {
+                    st.scopes[st.scopes.length - 1].set(name, fresh(env, decl, name));
+                    next.push(st);
+                    continue;
+                }
+                for (const o of evalExpr(decl.initializer, st, env, name)) {
+                    if (o.state.status === 'running') {
+                        o.state.scopes[o.state.scopes.length - 1].set(name, o.value);
+                    }
+                    next.push(o.state);
+                }
+            }
+            states = next;
+        }
+        return states;
+    }
+
+    if (ts.isExpressionStatement(stmt)) {
+        return evalExpr(stmt.expression, s, env).map((o) => o.state);
+    }
+
+    if (ts.isIfStatement(stmt)) {
+        const out: PathState[] = [];
+        const condText = stmt.expression.getText(sf);
+        const line = lineOf(stmt, env);
+        for (const o of evalExpr(stmt.expression, s, env)) {
+            if (o.state.status !== 'running') {
+                out.push(o.state);
+                continue;
+            }
+            const cond = asBool(o.value);
+            if (cond.kind === 'bool') {
+                const branch = cond.value ? stmt.thenStatement : stmt.elseStatement;
+                out.push(...(branch ? execStatement(branch, o.state, env) : [o.state]));
+                continue;
+            }
+            const taken = fork(o.state);
+            taken.conditions.push(cond);
+            taken.trace.push(`L${line}: ${condText} is true`);
+            out.push(...execStatement(stmt.thenStatement, taken, env));
+
+            const skipped = o.state;
+            skipped.conditions.push(mkNot(cond));
+            skipped.trace.push(`L${line}: ${condText} is false`);
+            out.push(...(stmt.elseStatement ? execStatement(stmt.elseStatement, skipped, env) : [skipped]));
+        }
+        return out;
+    }
+
+    if (ts.isReturnStatement(stmt)) {
+        const line = lineOf(stmt, env);
+        const outcomes: Outcome[] = stmt.expression
+            ? evalExpr(stmt.expression, s, env)
+            : [{ state: s, value: FALSE }];
+        return outcomes.map((o) => {
+            if (o.state.status !== 'running') return o.state;
+            o.state.status = 'returned';
+            o.state.returnValue = stmt.expression ? o.value : undefined;
+            if (env.depth === 0) {
+                o.state.finalLocals = flattenScopes(o.state.scopes);
+                o.state.trace.push(`L${line}: return`);
+            }
+            return o.state;
+        });
+    }
+
+    if (ts.isThrowStatement(stmt)) {
+        s.status = 'reverted';
+        s.revertMessage = revertMessage(stmt.expression, sf);
+        s.trace.push(`L${lineOf(stmt, env)}: revert${s.revertMessage ? ` "${s.revertMessage}"` : ''}`);
+        return [s];
+    }
+
+    if (ts.isBreakStatement(stmt)) {
+        s.status = 'break';
+        return [s];
+    }
+
+    if (ts.isContinueStatement(stmt)) {
+        s.status = 'continue';
+        return [s];
+    }
+
+    if (ts.isSwitchStatement(stmt)) {
+        return execSwitch(stmt, s, env);
+    }
+
+    if (
+        ts.isForStatement(stmt) ||
+        ts.isWhileStatement(stmt) ||
+        ts.isDoStatement(stmt) ||
+        ts.isForOfStatement(stmt) ||
+        ts.isForInStatement(stmt)
+    ) {
+        let states = [s];
+        if (ts.isForStatement(stmt) && stmt.initializer) {
+            if (ts.isVariableDeclarationList(stmt.initializer)) {
+                for (const decl of stmt.initializer.declarations) {
+                    if (ts.isIdentifier(decl.name)) {
+                        s.scopes[s.scopes.length - 1].set(decl.name.text, fresh(env, decl, decl.name.text));
+                    }
+                }
+            } else {
+                states = evalExpr(stmt.initializer, s, env).map((o) => o.state);
+            }
+        }
+        const out: PathState[] = [];
+        for (const st of states) {
+            if (st.status !== 'running') {
+                out.push(st);
+                continue;
+            }
+            const first = fork(st);
+            if (ts.isForOfStatement(stmt) || ts.isForInStatement(stmt)) first.approximate = true;
+            out.push(...loopExits(stmt, first, env));
+            havocLoop(stmt, st, env);
+            out.push(...loopExits(stmt, fork(st), env), st);
+        }
+        return out;
+    }
+
+    if (ts.isTryStatement(stmt)) {
+        // Only the try block is followed; a catch would need exception modelling
+        s.approximate = true;
+        return execStatement(stmt.tryBlock, s, env);
+    }
+
+    return [s];
+}
+
+function revertMessage(expr: ts.Expression | undefined, sf: ts.SourceFile): string | undefined {
+    if (expr && ts.isNewExpression(expr) && expr.arguments?.length) {
+        const arg = expr.arguments[0];
+        if (ts.isStringLiteral(arg) || ts.isNoSubstitutionTemplateLiteral(arg)) return arg.text;
+        return arg.getText(sf);
+    }
+    return undefined;
+}
+
+function execSwitch(stmt: ts.SwitchStatement, s: PathState, env: ExecEnv): PathState[] {
+    const sf = env.ctx.sourceFile;
+    const out: PathState[] = [];
+
+    for (const o of evalExpr(stmt.expression, s, env)) {
+        if (o.state.status !== 'running') {
+            out.push(o.state);
+            continue;
+        }
+        const discriminant = asTerm(o.value);
+        const matched: Term[] = [];
+        let pending: Term[] = [];
+        let defaultClause: ts.DefaultClause | undefined;
+
+        for (const clause of stmt.caseBlock.clauses) {
+            if (ts.isDefaultClause(clause)) {
+                defaultClause = clause;
+                continue;
+            }
+            const caseValue = evalPure(clause.expression, o.state, env);
+            const cond = mkCmp('eq', discriminant, caseValue);
+            matched.push(cond);
+            pending.push(cond);
+            if (clause.statements.length === 0) continue;
+
+            const entry = fork(o.state);
+            entry.conditions.push(mkOr(...pending));
+            entry.trace.push(`L${lineOf(clause, env)}: case ${clause.expression.getText(sf)}`);
+            pending = [];
+            out.push(...finishClause(clause.statements, entry, env));
+        }
+
+        const rest = o.state;
+        rest.conditions.push(...matched.map(mkNot));
+        if (defaultClause) {
+            rest.trace.push(`L${lineOf(defaultClause, env)}: default`);
+            out.push(...finishClause(defaultClause.statements, rest, env));
+        } else {
+            out.push(rest);
+        }
+    }
+    return out;
+}
+
+function finishClause(statements: readonly ts.Statement[], s: PathState, env: ExecEnv): PathState[] {
+    return execStatements(statements, [s], env).map((st) => {
+        if (st.status === 'break') st.status = 'running';
+        else if (st.status === 'running') st.approximate = true; // fallthrough is not modelled
+        return st;
+    });
+}
+
+/**
+ * Run one iteration of a loop body and keep the paths that return or revert
+ * inside it. Paths that finish the iteration are dropped: the havocked state
+ * after the loop covers them. From the entry state this is the first
+ * iteration; from a havocked state it stands for any later one.
+ */
+function loopExits(loop: ts.IterationStatement, s: PathState, env: ExecEnv): PathState[] {
+    const sf = env.ctx.sourceFile;
+    const line = lineOf(loop, env);
+    let states = [s];
+
+    if ((ts.isForOfStatement(loop) || ts.isForInStatement(loop)) && ts.isVariableDeclarationList(loop.initializer)) {
+        for (const decl of loop.initializer.declarations) {
+            if (ts.isIdentifier(decl.name)) {
+                s.scopes[s.scopes.length - 1].set(decl.name.text, fresh(env, decl, decl.name.text));
+            }
+        }
+    }
+
+    const head = ts.isForStatement(loop) ? loop.condition : ts.isWhileStatement(loop) ? loop.expression : undefined;
+    if (head) {
+        states = [];
+        for (const o of evalExpr(head, s, env)) {
+            if (o.state.status !== 'running') {
+                states.push(o.state);
+                continue;
+            }
+            const cond = asBool(o.value);
+            if (cond.kind === 'bool' && !cond.value) continue;
+            if (cond.kind !== 'bool') o.state.conditions.push(cond);
+            o.state.trace.push(`L${line}: ${head.getText(sf)} is true`);
+            states.push(o.state);
+        }
+    }
+
+    return execStatements([loop.statement], states, env).filter(
+        (st) => st.status === 'returned' || st.status === 'reverted',
+    );
+}
+
+/**
+ * Forget everything a loop body may assign.
+ */
+function havocLoop(loop: ts.Statement, s: PathState, env: ExecEnv): void {
+    const { ctx } = env;
+    const line = lineOf(loop, env);
+    s.approximate = true;
+    s.trace.push(`L${line}: loop (approximated)`);
+
+    const locals = new Set<string>();
+    const fields = new Set<string>();
+    const maps = new Set<string>();
+    let callsHelpers = false;
+
+    walkTree(loop, (node) => {
+        let target: ts.Expression | undefined;
+        if (ts.isBinaryExpression(node) && isAssignmentOperator(node.operatorToken.kind)) target = node.left;
+        if (
+            (ts.isPrefixUnaryExpression(node) || ts.isPostfixUnaryExpression(node)) &&
+            (node.operator === ts.SyntaxKind.PlusPlusToken || node.operator === ts.SyntaxKind.MinusMinusToken)
+        ) {
+            target = node.operand;
+        }
+        if (target) {
+            if (ts.isIdentifier(target)) locals.add(target.text);
+            const field = storedValueField(target, ctx);
+            if (field) fields.add(field);
+        }
+        if (ts.isCallExpression(node) && ts.isPropertyAccessExpression(node.expression)) {
+            const receiver = node.expression.expression;
+            const map = storedMapField(receiver, ctx);
+            if (map && node.expression.name.text === 'set') maps.add(map);
+            if (receiver.kind === ts.SyntaxKind.ThisKeyword && ctx.methods.has(node.expression.name.text)) {
+                callsHelpers = true;
+            }
+        }
+    });
+
+    if (callsHelpers) writableStorage(env, fields, maps);
+
+    for (const name of locals) {
+        for (let i = s.scopes.length - 1; i >= 0; i--) {
+            if (s.scopes[i].has(name)) {
+                s.scopes[i].set(name, fresh(env, loop, `${name}@L${line}`));
+                break;
+            }
+        }
+    }
+    havocStorage(fields, maps, s, env, loop, line);
+}
+
+/**
+ * Add every stored field the executed method may write: its verified frame,
+ * or all of them.
+ */
+function writableStorage(env: ExecEnv, fields: Set<string>, maps: Set<string>): void {
+    for (const [name, type] of env.ctx.storedFields) {
+        if (env.writable && !env.writable.has(name)) continue;
+        if (MAP_TYPES.has(type)) maps.add(name);
+        else fields.add(name);
+    }
+}
+
+/**
+ * Give the fields fresh values and mark the maps as written with unknown
+ * entries, so both count as writes.
+ */
+function havocStorage(
+    fields: Set<string>,
+    maps: Set<string>,
+    s: PathState,
+    env: ExecEnv,
+    node: ts.Node,
+    line: number,
+): void {
+    for (const field of fields) {
+        const sort = termSort(initialFieldTerm(field, env.ctx));
+        s.fields.set(field, fresh(env, node, `this.${field}.value@L${line}`, sort));
+    }
+    for (const map of maps) {
+        s.mapWrites.push({ map, value: FALSE, line });
+    }
+}
+
+function isAssignmentOperator(kind: ts.SyntaxKind): boolean {
+    return kind >= ts.SyntaxKind.FirstAssignment && kind <= ts.SyntaxKind.LastAssignment;
+}
+
+/** `this.X.value` with X a stored (non-map) field → X */
+function storedValueField(node: ts.Expression, ctx: SymbolicContext): string | undefined {
+    if (!ts.isPropertyAccessExpression(node) || node.name.text !== 'value') return undefined;
+    const obj = node.expression;
+    if (!ts.isPropertyAccessExpression(obj) || obj.expression.kind !== ts.SyntaxKind.ThisKeyword) return undefined;
+    const type = ctx.storedFields.get(obj.name.text);
+    return type && !MAP_TYPES.has(type) ? obj.name.text : undefined;
+}
+
+/** `this.M` with M a stored map → M */
+function storedMapField(node: ts.Expression, ctx: SymbolicContext): string | undefined {
+    if (!ts.isPropertyAccessExpression(node) || node.expression.kind !== ts.SyntaxKind.ThisKeyword) return undefined;
+    const type = ctx.storedFields.get(node.name.text);
+    return type && MAP_TYPES.has(type) ? node.name.text : undefined;
+}
+
+/**
+ * Read a stored map on a path: the latest matching write, else the pre-state.
+ */
+function readMap(map: string, key: Term, path: PathState): Term {
+    return readMapAfter(map, key, path.mapWrites);
+}
+
+/** Value of `map[key]` after a sequence of writes to the pre-state */
+function readMapAfter(map: string, key: Term, writes: readonly MapWrite[]): Term {
+    let value: Term = mkSelect(map, key);
+    for (const write of writes) {
+        if (write.map !== map) continue;
+        value = write.key
+            ? mkIte(mkCmp('eq', key, write.key), write.value, value)
+            : mkVar(`${map}[${termKey(key)}]@L${write.line}`);
+    }
+    return value;
+}
+
+// ============================================================================
+// Expressions
+// ============================================================================
+
+/**
+ * Evaluate an expression that cannot fork (case labels and the like).
+ */
+function evalPure(node: ts.Expression, s: PathState, env: ExecEnv): Term {
+    const outcomes = evalExpr(node, fork(s), env);
+    return outcomes.length === 1 ? asTerm(outcomes[0].value) : fresh(env, node, node.getText(env.ctx.sourceFile));
+}
+
+function evalAll(
+    nodes: readonly ts.Expression[],
+    s: PathState,
+    env: ExecEnv,
+): { state: PathState; values: SymValue[] }[] {
+    let acc = [{ state: s, values: [] as SymValue[] }];
+    for (const node of nodes) {
+        const next: { state: PathState; values: SymValue[] }[] = [];
+        for (const a of acc) {
+            if (a.state.status !== 'running') {
+                next.push(a);
+                continue;
+            }
+            for (const o of evalExpr(node, a.state, env)) {
+                next.push({ state: o.state, values: [...a.values, o.value] });
+            }
+        }
+        acc = next;
+    }
+    return acc;
+}
+
+function mapOutcomes(
+    nodes: readonly ts.Expression[],
+    s: PathState,
+    env: ExecEnv,
+    fn: (state: PathState, values: SymValue[]) => Outcome[],
+): Outcome[] {
+    const out: Outcome[] = [];
+    for (const a of evalAll(nodes, s, env)) {
+        if (a.state.status !== 'running') out.push({ state: a.state, value: FALSE });
+        else out.push(...fn(a.state, a.values));
+    }
+    return out;
+}
+
+function one(state: PathState, value: SymValue): Outcome[] {
+    return [{ state, value }];
+}
+
+function evalExpr(node: ts.Expression, s: PathState, env: ExecEnv, hint?: string): Outcome[] {
+    const { ctx } = env;
+    const sf = ctx.sourceFile;
+
+    if (
+        ts.isParenthesizedExpression(node) ||
+        ts.isAsExpression(node) ||
+        ts.isNonNullExpression(node) ||
+        ts.isTypeAssertionExpression(node)
+    ) {
+        return evalExpr(node.expression, s, env, hint);
+    }
+
+    const constant = constantValue(node, sf);
+    if (constant) return one(s, constant);
+
+    if (ts.isIdentifier(node)) {
+        for (let i = s.scopes.length - 1; i >= 0; i--) {
+            const local = s.scopes[i].get(node.text);
+            if (local) return one(s, local);
+        }
+        return one(s, ctx.constants.get(node.text) ?? mkVar(node.text));
+    }
+
+    if (ts.isPropertyAccessExpression(node)) {
+        return evalPropertyAccess(node, s, env, hint);
+    }
+
+    if (ts.isCallExpression(node)) {
+        return evalCall(node, s, env, hint);
+    }
+
+    if (ts.isNewExpression(node)) {
+        if (node.expression.getText(sf) === 'BytesWriter') return one(s, { kind: 'writer', items: [] });
+        return mapOutcomes(node.arguments ?? [], s, env, (st) => one(st, fresh(env, node, hint ?? 'new')));
+    }
+
+    if (ts.isPrefixUnaryExpression(node)) {
+        if (node.operator === ts.SyntaxKind.PlusPlusToken || node.operator === ts.SyntaxKind.MinusMinusToken) {
+            return evalIncrement(node, node.operand, node.operator, true, s, env);
+        }
+        return mapOutcomes([node.operand], s, env, (st, [v]) => {
+            switch (node.operator) {
+                case ts.SyntaxKind.ExclamationToken:
+                    return one(st, mkNot(asBool(v)));
+                case ts.SyntaxKind.MinusToken:
+                    return one(st, mkArith('sub', mkConst(0n), asTerm(v), false));
+                default:
+                    return one(st, fresh(env, node, hint ?? node.getText(sf)));
+            }
+        });
+    }
+
+    if (ts.isPostfixUnaryExpression(node)) {
+        return evalIncrement(node, node.operand, node.operator, false, s, env);
+    }
+
+    if (ts.isBinaryExpression(node)) {
+        return evalBinary(node, s, env, hint);
+    }
+
+    if (ts.isConditionalExpression(node)) {
+        return mapOutcomes([node.condition, node.whenTrue, node.whenFalse], s, env, (st, [c, a, b]) =>
+            one(st, mkIte(asBool(c), asTerm(a), asTerm(b))),
+        );
+    }
+
+    if (node.kind === ts.SyntaxKind.ThisKeyword) {
+        return one(s, mkVar('this'));
+    }
+
+    if (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) {
+        return one(s, fresh(env, node, JSON.stringify(node.text)));
+    }
+
+    return one(s, fresh(env, node, hint ?? node.getText(sf)));
+}
+
+function evalIncrement(
+    node: ts.Expression,
+    operand: ts.Expression,
+    operator: ts.SyntaxKind,
+    prefix: boolean,
+    s: PathState,
+    env: ExecEnv,
+): Outcome[] {
+    const op: ArithOperator = operator === ts.SyntaxKind.PlusPlusToken ? 'add' : 'sub';
+    return mapOutcomes([operand], s, env, (st, [v]) => {
+        const before = asTerm(v);
+        const after = mkArith(op, before, mkConst(1n), false);
+        assign(operand, after, st, env);
+        return one(st, prefix ? after : before);
+    });
+}
+
+function evalPropertyAccess(node: ts.PropertyAccessExpression, s: PathState, env: ExecEnv, hint?: string): Outcome[] {
+    const { ctx } = env;
+    const sf = ctx.sourceFile;
+    const prop = node.name.text;
+
+    const field = storedValueField(node, ctx);
+    if (field) return one(s, currentFieldTerm(field, s, ctx));
+
+    if (node.expression.kind === ts.SyntaxKind.ThisKeyword) {
+        return one(s, ctx.constants.get(prop) ?? mkVar(`this.${prop}`));
+    }
+
+    const text = node.getText(sf);
+    if (text.startsWith('Blockchain.')) {
+        return one(s, mkVar(text));
+    }
+
+    return mapOutcomes([node.expression], s, env, (st, [obj]) => {
+        if (isTerm(obj) && obj.kind === 'var') {
+            return one(st, mkVar(`${obj.name}.${prop}`, prop === 'success' ? 'bool' : 'int'));
+        }
+        return one(st, fresh(env, node, hint ?? text));
+    });
+}
+
+function evalBinary(node: ts.BinaryExpression, s: PathState, env: ExecEnv, hint?: string): Outcome[] {
+    const kind = node.operatorToken.kind;
+
+    if (isAssignmentOperator(kind)) {
+        const compound = COMPOUND_ASSIGNMENTS[kind];
+        const operands = compound ? [node.left, node.right] : [node.right];
+        return mapOutcomes(operands, s, env, (st, values) => {
+            const value = compound
+                ? mkArith(compound, asTerm(values[0]), asTerm(values[1]), false)
+                : values[0];
+            assign(node.left, value, st, env);
+            return one(st, value);
+        });
+    }
+
+    return mapOutcomes([node.left, node.right], s, env, (st, [l, r]) => {
+        const a = asTerm(l);
+        const b = asTerm(r);
+        switch (kind) {
+            case ts.SyntaxKind.PlusToken:
+                return one(st, mkArith('add', a, b, false));
+            case ts.SyntaxKind.MinusToken:
+                return one(st, mkArith('sub', a, b, false));
+            case ts.SyntaxKind.AsteriskToken:
+                return one(st, mkArith('mul', a, b, false));
+            case ts.SyntaxKind.SlashToken:
+                return one(st, mkArith('div', a, b, false));
+            case ts.SyntaxKind.EqualsEqualsToken:
+            case ts.SyntaxKind.EqualsEqualsEqualsToken:
+                return one(st, mkCmp('eq', a, b));
+            case ts.SyntaxKind.ExclamationEqualsToken:
+            case ts.SyntaxKind.ExclamationEqualsEqualsToken:
+                return one(st, mkCmp('ne', a, b));
+            case ts.SyntaxKind.LessThanToken:
+                return one(st, mkCmp('lt', a, b));
+            case ts.SyntaxKind.LessThanEqualsToken:
+                return one(st, mkCmp('le', a, b));
+            case ts.SyntaxKind.GreaterThanToken:
+                return one(st, mkCmp('gt', a, b));
+            case ts.SyntaxKind.GreaterThanEqualsToken:
+                return one(st, mkCmp('ge', a, b));
+            case ts.SyntaxKind.AmpersandAmpersandToken:
+                return one(st, mkAnd(asBool(l), asBool(r)));
+            case ts.SyntaxKind.BarBarToken:
+                return one(st, mkOr(asBool(l), asBool(r)));
+            default:
+                return one(st, fresh(env, node, hint ?? node.getText(env.ctx.sourceFile)));
+        }
+    });
+}
+
+const COMPOUND_ASSIGNMENTS: Partial<Record<ts.SyntaxKind, ArithOperator>> = {
+    [ts.SyntaxKind.PlusEqualsToken]: 'add',
+    [ts.SyntaxKind.MinusEqualsToken]: 'sub',
+    [ts.SyntaxKind.AsteriskEqualsToken]: 'mul',
+    [ts.SyntaxKind.SlashEqualsToken]: 'div',
+};
+
+function assign(target: ts.Expression, value: SymValue, s: PathState, env: ExecEnv): void {
+    const field = storedValueField(target, env.ctx);
+    if (field) {
+        s.fields.set(field, asTerm(value));
+        return;
+    }
+    if (ts.isIdentifier(target)) {
+        for (let i = s.scopes.length - 1; i >= 0; i--) {
+            if (s.scopes[i].has(target.text)) {
+                s.scopes[i].set(target.text, value);
+                return;
+            }
+        }
+        s.scopes[s.scopes.length - 1].set(target.text, value);
+    }
+}
+
+function evalCall(node: ts.CallExpression, s: PathState, env: ExecEnv, hint?: string): Outcome[] {
+    const { ctx } = env;
+    const sf = ctx.sourceFile;
+    const callee = node.expression;
+    const line = lineOf(node, env);
+    const opaque = (st: PathState) => one(st, fresh(env, node, hint ?? callee.getText(sf)));
+
+    if (!ts.isPropertyAccessExpression(callee)) {
+        return mapOutcomes(node.arguments, s, env, opaque);
+    }
+
+    const receiver = callee.expression;
+    const method = callee.name.text;
+    const receiverText = receiver.getText(sf);
+
+    // SafeMath reverts instead of wrapping
+    if (receiverText === 'SafeMath' && SAFE_MATH_OPS[method] && node.arguments.length === 2) {
+        return mapOutcomes(node.arguments, s, env, (st, [l, r]) =>
+            safeMath(SAFE_MATH_OPS[method], asTerm(l), asTerm(r), st, line),
+        );
+    }
+
+    if (receiverText === 'u256') {
+        const cmp = U256_COMPARISONS[method];
+        const arith = SAFE_MATH_OPS[method];
+        if ((cmp || arith) && node.arguments.length === 2) {
+            return mapOutcomes(node.arguments, s, env, (st, [l, r]) =>
+                one(st, cmp ? mkCmp(cmp, asTerm(l), asTerm(r)) : mkArith(arith, asTerm(l), asTerm(r), false)),
+            );
+        }
+        return mapOutcomes(node.arguments, s, env, opaque);
+    }
+
+    if (receiverText === 'Blockchain' && method === 'call') {
+        return mapOutcomes(node.arguments, s, env, (st) => {
+            st.trace.push(`L${line}: Blockchain.call`);
+            return one(st, fresh(env, node, hint ?? `call@L${line}`));
+        });
+    }
+
+    // Stored maps
+    const map = storedMapField(receiver, ctx);
+    if (map && method === 'get' && node.arguments.length >= 1) {
+        return mapOutcomes(node.arguments, s, env, (st, [key]) => one(st, readMap(map, asTerm(key), st)));
+    }
+    if (map && method === 'set' && node.arguments.length >= 2) {
+        return mapOutcomes(node.arguments, s, env, (st, [key, value]) => {
+            st.mapWrites.push({ map, key: asTerm(key), value: asTerm(value), line });
+            return one(st, FALSE);
+        });
+    }
+
+    if (receiver.kind === ts.SyntaxKind.ThisKeyword) {
+        if (method === 'onlyDeployer') {
+            return mapOutcomes(node.arguments, s, env, (st, args) => {
+                const isDeployer = mkCmp('eq', asTerm(args[0] ?? mkVar('Blockchain.tx.sender')), mkVar('Blockchain.contractDeployer'));
+                return guard(isDeployer, st, `L${line}: onlyDeployer`, 'Only deployer can call this method');
+            });
+        }
+        if (method === 'emitEvent' && node.arguments.length === 1) {
+            const event = eventConstruction(node.arguments[0], sf);
+            if (event) {
+                const args = event.arguments ?? [];
+                return mapOutcomes(args, s, env, (st, values) => {
+                    st.events.push({
+                        name: event.expression.getText(sf),
+                        args: values.map((v) => (isTerm(v) ? v : undefined)),
+                        argText: args.map((a) => a.getText(sf)),
+                        line,
+                    });
+                    st.trace.push(`L${line}: emit ${event.expression.getText(sf)}`);
+                    return one(st, FALSE);
+                });
+            }
+        }
+        const helper = ctx.methods.get(method);
+        if (helper?.body && env.depth < MAX_HELPER_DEPTH) {
+            return mapOutcomes(node.arguments, s, env, (st, args) => inline(helper, args, node, st, env));
+        }
+        return mapOutcomes(node.arguments, s, env, (st) => {
+            // Unknown behaviour: the call may revert, and a helper of the
+            // class may write any field it is allowed to
+            st.approximate = true;
+            if (helper) {
+                const fields = new Set<string>();
+                const maps = new Set<string>();
+                writableStorage(env, fields, maps);
+                havocStorage(fields, maps, st, env, node, line);
+                st.trace.push(`L${line}: this.${method}() (not followed)`);
+            }
+            return opaque(st);
+        });
+    }
+
+    return mapOutcomes([receiver, ...node.arguments], s, env, (st, [obj, ...args]) => {
+        if (!isTerm(obj)) {
+            if (method.startsWith('write')) {
+                const writer: WriterValue = { kind: 'writer', items: [...obj.items, asTerm(args[0] ?? FALSE)] };
+                assign(receiver, writer, st, env);
+            }
+            return one(st, FALSE);
+        }
+        if (method === 'isZero' && args.length === 0) return one(st, mkCmp('eq', obj, mkConst(0n)));
+        if (method === 'equals' && args.length === 1) return one(st, mkCmp('eq', obj, asTerm(args[0])));
+        return opaque(st);
+    });
+}
+
+/**
+ * The `new Name(...)` an emitEvent() argument stands for: the expression
+ * itself, or the initializer of the `const` it names.
+ */
+function eventConstruction(arg: ts.Expression, sf: ts.SourceFile): ts.NewExpression | undefined {
+    if (ts.isNewExpression(arg)) return arg;
+    if (!ts.isIdentifier(arg)) return undefined;
+
+    let scope: ts.Node | undefined = arg.parent;
+    while (scope && !ts.isFunctionLike(scope)) scope = scope.parent;
+    let found: ts.NewExpression | undefined;
+    if (scope) {
+        walkTree(scope, (node) => {
+            if (
+                ts.isVariableDeclaration(node) &&
+                ts.isIdentifier(node.name) &&
+                node.name.text === arg.getText(sf) &&
+                node.initializer &&
+                ts.isNewExpression(node.initializer)
+            ) {
+                found = node.initializer;
+            }
+        });
+    }
+    return found;
+}
+
+/**
+ * SafeMath semantics: the exact result, or a revert.
+ */
+function safeMath(op: ArithOperator, l: Term, r: Term, s: PathState, line: number): Outcome[] {
+    const result = mkArith(op, l, r, true);
+    let ok: Term;
+    switch (op) {
+        case 'add':
+        case 'mul':
+            ok = mkCmp('le', result, mkConst(U256_MAX));
+            break;
+        case 'sub':
+            ok = mkCmp('ge', l, r);
+            break;
+        case 'div':
+            ok = mkCmp('ne', r, mkConst(0n));
+            break;
+    }
+    const outcomes = guard(ok, s, `L${line}: SafeMath.${op} ${op === 'sub' ? 'underflow' : op === 'div' ? 'division by zero' : 'overflow'}`, `SafeMath: ${op} failed`);
+    return outcomes.map((o) => (o.state.status === 'running' ? { state: o.state, value: result } : o));
+}
+
+/**
+ * Continue when `ok` holds; revert otherwise.
+ */
+function guard(ok: Term, s: PathState, traceEntry: string, message: string): Outcome[] {
+    if (ok.kind === 'bool') {
+        if (ok.value) return one(s, FALSE);
+        s.status = 'reverted';
+        s.revertMessage = message;
+        s.trace.push(traceEntry);
+        return one(s, FALSE);
+    }
+    const failed = fork(s);
+    failed.conditions.push(mkNot(ok));
+    failed.status = 'reverted';
+    failed.revertMessage = message;
+    failed.trace.push(traceEntry);
+
+    s.conditions.push(ok);
+    return [
+        { state: s, value: FALSE },
+        { state: failed, value: FALSE },
+    ];
+}
+
+/**
+ * Execute a class method's body in place of the call.
+ */
+function inline(
+    helper: ts.MethodDeclaration,
+    args: SymValue[],
+    call: ts.CallExpression,
+    s: PathState,
+    env: ExecEnv,
+): Outcome[] {
+    const params = new Map<string, SymValue>();
+    helper.parameters.forEach((param, i) => {
+        if (ts.isIdentifier(param.name)) {
+            params.set(param.name.text, args[i] ?? fresh(env, param, param.name.text));
+        }
+    });
+
+    const callerScopes = s.scopes;
+    s.scopes = [params];
+    const inner: ExecEnv = { ...env, frame: `${env.frame}${call.pos}>`, depth: env.depth + 1 };
+    const finished = execStatements(helper.body!.statements, [s], inner);
+    env.truncated = env.truncated || inner.truncated;
+
+    return finished.map((st) => {
+        if (st.status === 'reverted') {
+            // Back in the caller's scope, so a revert condition can name its locals
+            st.scopes = callerScopes.map((m) => new Map(m));
+            return { state: st, value: FALSE };
+        }
+        const value = st.status === 'returned' && st.returnValue ? st.returnValue : FALSE;
+        st.status = 'running';
+        st.returnValue = undefined;
+        st.scopes = callerScopes.map((m) => new Map(m));
+        return { state: st, value };
+    });
+}
+
+// ============================================================================
+// Spec evaluation
+// ============================================================================
+
+/**
+ * Evaluate a spec expression at the end of a path. `old()` reads the
+ * pre-state. Spec arithmetic is mathematical (it never wraps). `bound` gives
+ * the values of quantified variables. Returns undefined for constructs the
+ * executor does not model, including quantifiers (see quantifiers.ts).
+ */
+export function evaluateSpec(
+    expr: SpecExpression,
+    path: PathState,
+    ctx: SymbolicContext,
+    old = false,
+    bound: ReadonlyMap<string, Term> = new Map(),
+): Term | undefined {
+    const recur = (e: SpecExpression) => evaluateSpec(e, path, ctx, old, bound);
+
+    switch (expr.kind) {
+        case 'number':
+        case 'u256':
+            return mkConst(expr.value);
+        case 'boolean':
+            return mkBool(expr.value);
+        case 'string':
+        case 'this':
+            return undefined;
+        case 'identifier': {
+            const value = bound.get(expr.name);
+            if (value) return value;
+            const local = path.finalLocals?.get(expr.name);
+            if (local && isTerm(local)) return local;
+            return ctx.constants.get(expr.name);
+        }
+        case 'return':
+            return path.returnValue && isTerm(path.returnValue) ? path.returnValue : undefined;
+        case 'old':
+            return evaluateSpec(expr.argument, path, ctx, true, bound);
+        case 'safemath': {
+            const [l, r] = expr.args.map(recur);
+            return l && r ? mkArith(expr.operation, l, r, true) : undefined;
+        }
+        case 'member':
+            return evaluateSpecMember(expr, path, ctx, old);
+        case 'call':
+            return evaluateSpecCall(expr, path, ctx, old, bound);
+        case 'aggregate':
+            return evaluateAggregate(expr, path, ctx, old);
+        case 'quantifier':
+            return undefined;
+        case 'unary': {
+            const v = recur(expr.operand);
+            if (!v) return undefined;
+            return expr.operator === '!' ? mkNot(asBool(v)) : mkArith('sub', mkConst(0n), v, true);
+        }
+        case 'binary': {
+            const l = recur(expr.left);
+            const r = recur(expr.right);
+            if (!l || !r) return undefined;
+            switch (expr.operator) {
+                case '+':
+                    return mkArith('add', l, r, true);
+                case '-':
+                    return mkArith('sub', l, r, true);
+                case '*':
+                    return mkArith('mul', l, r, true);
+                case '/':
+                    return mkArith('div', l, r, true);
+                case '==':
+                    return mkCmp('eq', l, r);
+                case '!=':
+                    return mkCmp('ne', l, r);
+                case '<':
+                    return mkCmp('lt', l, r);
+                case '<=':
+                    return mkCmp('le', l, r);
+                case '>':
+                    return mkCmp('gt', l, r);
+                case '>=':
+                    return mkCmp('ge', l, r);
+                case '&&':
+                    return mkAnd(asBool(l), asBool(r));
+                case '||':
+                    return mkOr(asBool(l), asBool(r));
+                case 'implies':
+                    return mkImplies(asBool(l), asBool(r));
+            }
+        }
+    }
+}
+
+/**
+ * Symbol for an aggregate over a stored map at method entry, e.g. `old(sum(this.balanceOf))`.
+ */
+export function initialAggregateTerm(aggregate: AggregateFunction, map: string): Term {
+    return mkVar(`old(${aggregate}(this.${map}))`);
+}
+
+/**
+ * sum/count/max of a stored map: the pre-state value, updated by each write
+ * on the path. A write changes sum by `new - previous` and count by whether
+ * the entry became or stopped being non-zero. Lowering the entry that held
+ * the max leaves the new max unknown.
+ */
+function evaluateAggregate(
+    expr: SpecExpression & { kind: 'aggregate' },
+    path: PathState,
+    ctx: SymbolicContext,
+    old: boolean,
+): Term | undefined {
+    const chain = memberChain(expr.map);
+    const map = chain && (chain[0] === 'this' && chain.length === 2 ? chain[1] : chain.length === 1 ? chain[0] : undefined);
+    if (!map || !MAP_TYPES.has(ctx.storedFields.get(map) ?? '')) return undefined;
+
+    let value = initialAggregateTerm(expr.aggregate, map);
+    if (old) return value;
+
+    const writes = path.mapWrites.filter((w) => w.map === map);
+    const nonZero = (t: Term) => mkIte(mkCmp('ne', t, mkConst(0n)), mkConst(1n), mkConst(0n));
+    for (const [i, write] of writes.entries()) {
+        if (!write.key) return mkVar(`${expr.aggregate}(this.${map})@L${write.line}`);
+        const previous = readMapAfter(map, write.key, writes.slice(0, i));
+        switch (expr.aggregate) {
+            case 'sum':
+                value = mkArith('sub', mkArith('add', value, write.value, true), previous, true);
+                break;
+            case 'count':
+                value = mkArith('sub', mkArith('add', value, nonZero(write.value), true), nonZero(previous), true);
+                break;
+            case 'max':
+                value = mkIte(
+                    mkCmp('ge', write.value, value),
+                    write.value,
+                    mkIte(mkCmp('lt', previous, value), value, mkVar(`max(this.${map})@L${write.line}`)),
+                );
+                break;
+        }
+    }
+    return value;
+}
+
+/** Dotted path of a member chain, e.g. ['this', 'balance', 'value'] */
+function memberChain(expr: SpecExpression): string[] | undefined {
+    if (expr.kind === 'this') return ['this'];
+    if (expr.kind === 'identifier') return [expr.name];
+    if (expr.kind === 'member') {
+        const inner = memberChain(expr.object);
+        return inner && [...inner, expr.property];
+    }
+    return undefined;
+}
+
+function evaluateSpecMember(
+    expr: SpecExpression & { kind: 'member' },
+    path: PathState,
+    ctx: SymbolicContext,
+    old: boolean,
+): Term | undefined {
+    const chain = memberChain(expr);
+    if (!chain) return undefined;
+
+    if (chain[0] === 'this' && chain.length === 3 && chain[2] === 'value') {
+        const type = ctx.storedFields.get(chain[1]);
+        if (!type || MAP_TYPES.has(type)) return undefined;
+        return old ? initialFieldTerm(chain[1], ctx) : currentFieldTerm(chain[1], path, ctx);
+    }
+    if (chain[0] === 'this' && chain.length === 2) {
+        return ctx.constants.get(chain[1]);
+    }
+    if (chain[0] === 'Blockchain') {
+        return mkVar(chain.join('.'));
+    }
+    return undefined;
+}
+
+function evaluateSpecCall(
+    expr: SpecExpression & { kind: 'call' },
+    path: PathState,
+    ctx: SymbolicContext,
+    old: boolean,
+    bound: ReadonlyMap<string, Term>,
+): Term | undefined {
+    const recur = (e: SpecExpression) => evaluateSpec(e, path, ctx, old, bound);
+    if (expr.callee.kind !== 'member') return undefined;
+    const method = expr.callee.property;
+    const receiver = expr.callee.object;
+
+    // this.map.get(k) or map.get(k)
+    const chain = memberChain(receiver);
+    const mapName = chain && (chain[0] === 'this' && chain.length === 2 ? chain[1] : chain.length === 1 ? chain[0] : undefined);
+    if (mapName && MAP_TYPES.has(ctx.storedFields.get(mapName) ?? '') && method === 'get' && expr.args.length === 1) {
+        const key = recur(expr.args[0]);
+        if (!key) return undefined;
+        return old ? mkSelect(mapName, key) : readMap(mapName, key, path);
+    }
+
+    // return.readU256() and friends read the first value written
+    if (receiver.kind === 'return' && method.startsWith('read')) {
+        const ret = path.returnValue;
+        return ret && !isTerm(ret) ? ret.items[0] : undefined;
+    }
+
+    if (receiver.kind === 'identifier' && receiver.name === 'u256' && U256_COMPARISONS[method] && expr.args.length === 2) {
+        const [l, r] = expr.args.map(recur);
+        return l && r ? mkCmp(U256_COMPARISONS[method], l, r) : undefined;
+    }
+
+    const obj = recur(receiver);
+    if (!obj) return undefined;
+    if (method === 'isZero' && expr.args.length === 0) return mkCmp('eq', obj, mkConst(0n));
+    if (method === 'equals' && expr.args.length === 1) {
+        const other = recur(expr.args[0]);
+        return other && mkCmp('eq', obj, other);
+    }
+    return undefined;
+}
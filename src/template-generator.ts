@@ -16,12 +16,17 @@ import {
     methodBodyContains,
     getMethodBodyText,
     findBlockchainCalls,
+    findStateWrites,
     findGuardChecks,
     isPublicMethod,
     hasMethodDecorator,
     walkTree,
     createSourceFile,
+    CallGraph,
+    buildCallGraph,
 } from './ast-utils';
+import { findSenderChecks } from './normalize';
+import { extractStateMachine } from './statemachine';
 
 // ============================================================================
 // Types
@@ -56,12 +61,19 @@ interface ContractTemplate {
 function detectAccessLevel(
     method: ts.MethodDeclaration,
     sourceFile: ts.SourceFile,
+    callGraph: CallGraph,
+    addressFields: string[],
 ): string | null {
     const bodyText = getMethodBodyText(method, sourceFile);
 
     if (bodyText.includes('onlyDeployer') || bodyText.includes('this.onlyDeployer')) {
         return 'deployer-only';
     }
+    // if (!Blockchain.tx.sender.equals(this.owner.value)) throw ..., here or in a helper
+    const senderCheck = findSenderChecks(method, sourceFile, callGraph, addressFields)[0];
+    if (senderCheck) {
+        return `owner-only(this.${senderCheck.field})`;
+    }
     if (bodyText.includes('ensureOwner') || bodyText.includes('this.ensureOwner')) {
         return 'owner-only';
     }
@@ -204,15 +216,36 @@ function detectPreconditions(
 }
 
 /**
- * Detect state machine patterns across methods.
+ * Detect state machine patterns across methods. A status field set to named
+ * constants gives the transitions the code implements; other state-like
+ * fields only get placeholders.
  */
 function detectStateMachine(
+    classDecl: ts.ClassDeclaration,
     methods: ts.MethodDeclaration[],
     sourceFile: ts.SourceFile,
     storedFields: Map<string, string>,
 ): GeneratedAnnotation[] {
     const annotations: GeneratedAnnotation[] = [];
 
+    const implemented = extractStateMachine(classDecl, sourceFile);
+    if (implemented && implemented.edges.length > 0) {
+        annotations.push({
+            tag: 'statefield',
+            expression: `this.${implemented.field}`,
+            comment: `states: ${implemented.states.map((s) => `${s.name} = ${s.value}`).join(', ')}`,
+        });
+        const grouped = new Map<string, string[]>();
+        for (const e of implemented.edges) {
+            const key = `${e.from} -> ${e.to}`;
+            grouped.set(key, [...(grouped.get(key) ?? []), `${e.method}()`]);
+        }
+        for (const [states, calls] of grouped) {
+            annotations.push({ tag: 'state', expression: `${states} : ${calls.join(', ')}`, comment: 'TODO: confirm this transition is intended' });
+        }
+        return annotations;
+    }
+
     // Find fields that act as state flags
     const stateFields: string[] = [];
     for (const [field, type] of storedFields) {
@@ -230,6 +263,16 @@ function detectStateMachine(
 
     if (stateFields.length === 0) return annotations;
 
+    // A numeric status field can anchor the machine
+    const statusField = stateFields.find((f) => storedFields.get(f) === 'StoredU256');
+    if (statusField) {
+        annotations.push({
+            tag: 'statefield',
+            expression: `this.${statusField}`,
+            comment: 'state names resolve to constants such as ACTIVE or STATUS_ACTIVE',
+        });
+    }
+
     // For each method, check which state fields it reads/writes
     for (const method of methods) {
         const bodyText = getMethodBodyText(method, sourceFile);
@@ -298,7 +341,9 @@ function generateClassTemplate(
     const baseClass = getBaseClassName(classDecl);
     const storedFields = detectStoredFields(classDecl, sourceFile);
     const storedFieldNames = new Set(storedFields.keys());
+    const addressFields = [...storedFields].filter(([, type]) => type === 'StoredAddress').map(([name]) => name);
     const methods = getClassMethods(classDecl);
+    const callGraph = buildCallGraph(classDecl);
 
     const template: ContractTemplate = {
         className,
@@ -346,9 +391,22 @@ function generateClassTemplate(
     }
 
     // Detect state machine patterns
-    const stateAnnotations = detectStateMachine(methods, sourceFile, storedFields);
+    const stateAnnotations = detectStateMachine(classDecl, methods, sourceFile, storedFields);
     template.classAnnotations.push(...stateAnnotations);
 
+    // @pausable for a pause flag; the methods that set or clear it are the exceptions
+    for (const [field, type] of storedFields) {
+        if (type !== 'StoredBoolean' || !field.toLowerCase().includes('paused')) continue;
+        const toggles = methods
+            .filter((m) => findStateWrites(m, sourceFile, storedFieldNames).some((w) => w.field === field))
+            .map(getMethodName);
+        template.classAnnotations.push({
+            tag: 'pausable',
+            expression: toggles.length > 0 ? `this.${field} except ${toggles.join(', ')}` : `this.${field}`,
+            comment: 'TODO: list any other method that must work while paused',
+        });
+    }
+
     // Generate method-level templates
     for (const method of methods) {
         const methodName = getMethodName(method);
@@ -359,7 +417,7 @@ function generateClassTemplate(
         };
 
         // Access control
-        const accessLevel = detectAccessLevel(method, sourceFile);
+        const accessLevel = detectAccessLevel(method, sourceFile, callGraph, addressFields);
         if (accessLevel) {
             methodTemplate.annotations.push({
                 tag: 'access',
@@ -0,0 +1,341 @@
+// ============================================================================
+// opspec Terms — Symbolic values shared by the executor and the prover
+// ============================================================================
+//
+// Integer terms model u256 values. `checked` arithmetic is exact (SafeMath
+// reverts instead of wrapping, and spec arithmetic is mathematical);
+// unchecked arithmetic wraps modulo 2^256.
+
+export const U256_MAX = (1n << 256n) - 1n;
+const U256_MODULUS = 1n << 256n;
+
+export type TermSort = 'int' | 'bool';
+
+export type ArithOperator = 'add' | 'sub' | 'mul' | 'div';
+
+export type CompareOperator = 'eq' | 'ne' | 'lt' | 'le' | 'gt' | 'ge';
+
+export type Term =
+    | { kind: 'const'; value: bigint }
+    | { kind: 'bool'; value: boolean }
+    /** Free symbol: calldata, pre-state, results of opaque calls */
+    | { kind: 'var'; name: string; sort: TermSort }
+    /** Pre-state value of a stored map at a key */
+    | { kind: 'select'; map: string; key: Term }
+    | { kind: 'arith'; op: ArithOperator; left: Term; right: Term; checked: boolean }
+    | { kind: 'cmp'; op: CompareOperator; left: Term; right: Term }
+    | { kind: 'not'; arg: Term }
+    | { kind: 'and'; args: Term[] }
+    | { kind: 'or'; args: Term[] }
+    | { kind: 'ite'; cond: Term; then: Term; else: Term };
+
+// ============================================================================
+// Constructors (with light constant folding)
+// ============================================================================
+
+export const TRUE: Term = { kind: 'bool', value: true };
+export const FALSE: Term = { kind: 'bool', value: false };
+
+export function mkConst(value: bigint): Term {
+    return { kind: 'const', value };
+}
+
+export function mkBool(value: boolean): Term {
+    return value ? TRUE : FALSE;
+}
+
+export function mkVar(name: string, sort: TermSort = 'int'): Term {
+    return { kind: 'var', name, sort };
+}
+
+export function mkSelect(map: string, key: Term): Term {
+    return { kind: 'select', map, key };
+}
+
+export function mkArith(op: ArithOperator, left: Term, right: Term, checked: boolean): Term {
+    if (left.kind === 'const' && right.kind === 'const') {
+        const folded = foldArith(op, left.value, right.value, checked);
+        if (folded !== undefined) return mkConst(folded);
+    }
+    if (right.kind === 'const') {
+        if ((op === 'add' || op === 'sub') && right.value === 0n) return left;
+        if ((op === 'mul' || op === 'div') && right.value === 1n) return left;
+    }
+    if (left.kind === 'const' && op === 'add' && left.value === 0n) return right;
+    if (left.kind === 'const' && op === 'mul' && left.value === 1n) return right;
+    return { kind: 'arith', op, left, right, checked };
+}
+
+export function mkCmp(op: CompareOperator, left: Term, right: Term): Term {
+    if (left.kind === 'const' && right.kind === 'const') {
+        return mkBool(compareValues(op, left.value, right.value));
+    }
+    if (left.kind === 'bool' && right.kind === 'bool' && (op === 'eq' || op === 'ne')) {
+        return mkBool((left.value === right.value) === (op === 'eq'));
+    }
+    if ((op === 'eq' || op === 'ne') && termSort(left) === 'bool' && termSort(right) === 'bool') {
+        // b == true → b, b == false → !b
+        const [b, lit] = right.kind === 'bool' ? [left, right] : left.kind === 'bool' ? [right, left] : [null, null];
+        if (b && lit && lit.kind === 'bool') {
+            return lit.value === (op === 'eq') ? b : mkNot(b);
+        }
+    }
+    if (termKey(left) === termKey(right)) {
+        return mkBool(op === 'eq' || op === 'le' || op === 'ge');
+    }
+    return { kind: 'cmp', op, left, right };
+}
+
+export function mkNot(arg: Term): Term {
+    if (arg.kind === 'bool') return mkBool(!arg.value);
+    if (arg.kind === 'not') return arg.arg;
+    return { kind: 'not', arg };
+}
+
+export function mkAnd(...args: Term[]): Term {
+    const flat: Term[] = [];
+    for (const a of args) {
+        if (a.kind === 'bool') {
+            if (!a.value) return FALSE;
+            continue;
+        }
+        if (a.kind === 'and') flat.push(...a.args);
+        else flat.push(a);
+    }
+    if (flat.length === 0) return TRUE;
+    if (flat.length === 1) return flat[0];
+    return { kind: 'and', args: flat };
+}
+
+export function mkOr(...args: Term[]): Term {
+    const flat: Term[] = [];
+    for (const a of args) {
+        if (a.kind === 'bool') {
+            if (a.value) return TRUE;
+            continue;
+        }
+        if (a.kind === 'or') flat.push(...a.args);
+        else flat.push(a);
+    }
+    if (flat.length === 0) return FALSE;
+    if (flat.length === 1) return flat[0];
+    return { kind: 'or', args: flat };
+}
+
+export function mkImplies(a: Term, b: Term): Term {
+    return mkOr(mkNot(a), b);
+}
+
+export function mkIte(cond: Term, then: Term, otherwise: Term): Term {
+    if (cond.kind === 'bool') return cond.value ? then : otherwise;
+    if (termKey(then) === termKey(otherwise)) return then;
+    return { kind: 'ite', cond, then, else: otherwise };
+}
+
+// ============================================================================
+// Inspection
+// ============================================================================
+
+export function termSort(t: Term): TermSort {
+    switch (t.kind) {
+        case 'bool':
+        case 'cmp':
+        case 'not':
+        case 'and':
+        case 'or':
+            return 'bool';
+        case 'var':
+            return t.sort;
+        case 'ite':
+            return termSort(t.then);
+        default:
+            return 'int';
+    }
+}
+
+/**
+ * Structural key — equal keys mean syntactically identical terms.
+ */
+export function termKey(t: Term): string {
+    switch (t.kind) {
+        case 'const':
+            return t.value.toString();
+        case 'bool':
+            return String(t.value);
+        case 'var':
+            return t.name;
+        case 'select':
+            return `${t.map}[${termKey(t.key)}]`;
+        case 'arith':
+            return `(${termKey(t.left)} ${t.checked ? '' : 'u'}${t.op} ${termKey(t.right)})`;
+        case 'cmp':
+            return `(${termKey(t.left)} ${t.op} ${termKey(t.right)})`;
+        case 'not':
+            return `!${termKey(t.arg)}`;
+        case 'and':
+            return `(${t.args.map(termKey).join(' && ')})`;
+        case 'or':
+            return `(${t.args.map(termKey).join(' || ')})`;
+        case 'ite':
+            return `(${termKey(t.cond)} ? ${termKey(t.then)} : ${termKey(t.else)})`;
+    }
+}
+
+const ARITH_SYMBOLS: Record<ArithOperator, string> = { add: '+', sub: '-', mul: '*', div: '/' };
+const COMPARE_SYMBOLS: Record<CompareOperator, string> = {
+    eq: '==',
+    ne: '!=',
+    lt: '<',
+    le: '<=',
+    gt: '>',
+    ge: '>=',
+};
+
+/**
+ * Human-readable rendering for messages.
+ */
+export function formatTerm(t: Term): string {
+    switch (t.kind) {
+        case 'const':
+            return t.value === U256_MAX ? 'u256.Max' : t.value.toString();
+        case 'bool':
+            return String(t.value);
+        case 'var':
+            return t.name;
+        case 'select':
+            return `old(this.${t.map}.get(${formatTerm(t.key)}))`;
+        case 'arith':
+            return `(${formatTerm(t.left)} ${ARITH_SYMBOLS[t.op]} ${formatTerm(t.right)})`;
+        case 'cmp':
+            return `${formatTerm(t.left)} ${COMPARE_SYMBOLS[t.op]} ${formatTerm(t.right)}`;
+        case 'not':
+            return `!(${formatTerm(t.arg)})`;
+        case 'and':
+            return t.args.map(formatTerm).join(' && ');
+        case 'or':
+            return `(${t.args.map(formatTerm).join(' || ')})`;
+        case 'ite':
+            return `(${formatTerm(t.cond)} ? ${formatTerm(t.then)} : ${formatTerm(t.else)})`;
+    }
+}
+
+/**
+ * Replace sub-terms bottom-up. The callback may return a replacement or undefined.
+ */
+export function mapTerm(t: Term, fn: (t: Term) => Term | undefined): Term {
+    let rebuilt: Term;
+    switch (t.kind) {
+        case 'select':
+            rebuilt = mkSelect(t.map, mapTerm(t.key, fn));
+            break;
+        case 'arith':
+            rebuilt = mkArith(t.op, mapTerm(t.left, fn), mapTerm(t.right, fn), t.checked);
+            break;
+        case 'cmp':
+            rebuilt = mkCmp(t.op, mapTerm(t.left, fn), mapTerm(t.right, fn));
+            break;
+        case 'not':
+            rebuilt = mkNot(mapTerm(t.arg, fn));
+            break;
+        case 'and':
+            rebuilt = mkAnd(...t.args.map((a) => mapTerm(a, fn)));
+            break;
+        case 'or':
+            rebuilt = mkOr(...t.args.map((a) => mapTerm(a, fn)));
+            break;
+        case 'ite':
+            rebuilt = mkIte(mapTerm(t.cond, fn), mapTerm(t.then, fn), mapTerm(t.else, fn));
+            break;
+        default:
+            rebuilt = t;
+    }
+    return fn(rebuilt) ?? rebuilt;
+}
+
+/**
+ * Visit every sub-term (pre-order).
+ */
+export function walkTerm(t: Term, callback: (t: Term) => void): void {
+    callback(t);
+    switch (t.kind) {
+        case 'select':
+            walkTerm(t.key, callback);
+            break;
+        case 'arith':
+        case 'cmp':
+            walkTerm(t.left, callback);
+            walkTerm(t.right, callback);
+            break;
+        case 'not':
+            walkTerm(t.arg, callback);
+            break;
+        case 'and':
+        case 'or':
+            t.args.forEach((a) => walkTerm(a, callback));
+            break;
+        case 'ite':
+            walkTerm(t.cond, callback);
+            walkTerm(t.then, callback);
+            walkTerm(t.else, callback);
+            break;
+    }
+}
+
+// ============================================================================
+// Concrete semantics
+// ============================================================================
+
+export function foldArith(op: ArithOperator, a: bigint, b: bigint, checked: boolean): bigint | undefined {
+    let r: bigint;
+    switch (op) {
+        case 'add':
+            r = a + b;
+            break;
+        case 'sub':
+            r = a - b;
+            break;
+        case 'mul':
+            r = a * b;
+            break;
+        case 'div':
+            if (b === 0n) return undefined;
+            r = a / b;
+            break;
+    }
+    if (checked) return r;
+    return ((r % U256_MODULUS) + U256_MODULUS) % U256_MODULUS;
+}
+
+export function compareValues(op: CompareOperator, a: bigint, b: bigint): boolean {
+    switch (op) {
+        case 'eq':
+            return a === b;
+        case 'ne':
+            return a !== b;
+        case 'lt':
+            return a < b;
+        case 'le':
+            return a <= b;
+        case 'gt':
+            return a > b;
+        case 'ge':
+            return a >= b;
+    }
+}
+
+export function negateCompare(op: CompareOperator): CompareOperator {
+    switch (op) {
+        case 'eq':
+            return 'ne';
+        case 'ne':
+            return 'eq';
+        case 'lt':
+            return 'ge';
+        case 'le':
+            return 'gt';
+        case 'gt':
+            return 'le';
+        case 'ge':
+            return 'lt';
+    }
+}
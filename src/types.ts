@@ -12,10 +12,20 @@ export type SpecTag =
     | 'post'
     | 'ensures'     // alias for post (or CEI keyword)
     | 'state'
+    | 'statefield'
     | 'access'
     | 'calls'
     | 'temporal'
-    | 'opnet';
+    | 'opnet'
+    | 'role'
+    | 'modifies'
+    | 'emits'
+    | 'reverts-if'
+    | 'reverts-only-if'
+    | 'view'
+    | 'pure'
+    | 'nonreentrant'
+    | 'pausable';
 
 /**
  * Verification result status for a single spec.
@@ -35,12 +45,187 @@ export interface SpecAnnotation {
     /** Optional inline comment (after //) */
     comment?: string;
 
+    /** Parsed expression tree (for tags whose body is a spec expression) */
+    parsed?: SpecExpression;
+
+    /** Set instead of `parsed` when the expression is malformed */
+    syntaxError?: SpecSyntaxError;
+
     /** Source location */
     file: string;
     line: number;
     column: number;
+
+    /** Column where the expression text starts (1-based) */
+    expressionColumn?: number;
+}
+
+/**
+ * A located syntax error in a spec expression.
+ */
+export interface SpecSyntaxError {
+    message: string;
+    file: string;
+    line: number;
+    column: number;
 }
 
+// ============================================================================
+// Spec Expression AST
+// ============================================================================
+
+export type SpecBinaryOperator =
+    | '=='
+    | '!='
+    | '>'
+    | '<'
+    | '>='
+    | '<='
+    | '+'
+    | '-'
+    | '*'
+    | '/'
+    | '&&'
+    | '||'
+    | 'implies';
+
+export type SpecUnaryOperator = '!' | '-';
+
+export type SafeMathOperation = 'add' | 'sub' | 'mul' | 'div';
+
+export type AggregateFunction = 'sum' | 'count' | 'max';
+
+/**
+ * Fields shared by all expression nodes. Offsets are relative to the
+ * expression text, not the source file.
+ */
+interface SpecExpressionBase {
+    start: number;
+    end: number;
+}
+
+export interface SpecNumberLiteral extends SpecExpressionBase {
+    kind: 'number';
+    value: bigint;
+}
+
+export interface SpecBooleanLiteral extends SpecExpressionBase {
+    kind: 'boolean';
+    value: boolean;
+}
+
+export interface SpecStringLiteral extends SpecExpressionBase {
+    kind: 'string';
+    value: string;
+}
+
+export interface SpecIdentifier extends SpecExpressionBase {
+    kind: 'identifier';
+    name: string;
+}
+
+/** `this` — the contract instance */
+export interface SpecThisExpression extends SpecExpressionBase {
+    kind: 'this';
+}
+
+/** `return` — the method's return value (postconditions only) */
+export interface SpecReturnExpression extends SpecExpressionBase {
+    kind: 'return';
+}
+
+/** u256.Zero, u256.One, u256.Max, u256.fromU32(n) */
+export interface SpecU256Constant extends SpecExpressionBase {
+    kind: 'u256';
+    value: bigint;
+}
+
+/** SafeMath.add(a, b) and friends */
+export interface SpecSafeMathCall extends SpecExpressionBase {
+    kind: 'safemath';
+    operation: SafeMathOperation;
+    args: SpecExpression[];
+}
+
+/** old(expr) — value at method entry */
+export interface SpecOldExpression extends SpecExpressionBase {
+    kind: 'old';
+    argument: SpecExpression;
+}
+
+export interface SpecMemberExpression extends SpecExpressionBase {
+    kind: 'member';
+    object: SpecExpression;
+    property: string;
+}
+
+export interface SpecCallExpression extends SpecExpressionBase {
+    kind: 'call';
+    callee: SpecExpression;
+    args: SpecExpression[];
+}
+
+export interface SpecUnaryExpression extends SpecExpressionBase {
+    kind: 'unary';
+    operator: SpecUnaryOperator;
+    operand: SpecExpression;
+}
+
+export interface SpecBinaryExpression extends SpecExpressionBase {
+    kind: 'binary';
+    operator: SpecBinaryOperator;
+    left: SpecExpression;
+    right: SpecExpression;
+}
+
+/** sum(this.map), count(this.map), max(this.map) — over every entry of a stored map */
+export interface SpecAggregateExpression extends SpecExpressionBase {
+    kind: 'aggregate';
+    aggregate: AggregateFunction;
+    map: SpecExpression;
+}
+
+/** `range(from, to)` — every i with from <= i < to */
+export interface SpecRangeDomain {
+    kind: 'range';
+    from: SpecExpression;
+    to: SpecExpression;
+}
+
+/** `keys(this.map)` — every key of a stored map (unset keys read as zero) */
+export interface SpecKeysDomain {
+    kind: 'keys';
+    map: SpecExpression;
+}
+
+export type SpecQuantifierDomain = SpecRangeDomain | SpecKeysDomain;
+
+/** `forall i in range(0, n) : P(i)` and `exists i in ... : P(i)` */
+export interface SpecQuantifierExpression extends SpecExpressionBase {
+    kind: 'quantifier';
+    quantifier: 'forall' | 'exists';
+    variable: string;
+    domain: SpecQuantifierDomain;
+    body: SpecExpression;
+}
+
+export type SpecExpression =
+    | SpecNumberLiteral
+    | SpecBooleanLiteral
+    | SpecStringLiteral
+    | SpecIdentifier
+    | SpecThisExpression
+    | SpecReturnExpression
+    | SpecU256Constant
+    | SpecSafeMathCall
+    | SpecOldExpression
+    | SpecMemberExpression
+    | SpecCallExpression
+    | SpecUnaryExpression
+    | SpecBinaryExpression
+    | SpecAggregateExpression
+    | SpecQuantifierExpression;
+
 /**
  * An invariant applies to the entire contract.
  */
@@ -57,6 +242,8 @@ export interface PreconditionSpec extends SpecAnnotation {
     tag: 'pre' | 'requires';
     /** The method this precondition applies to */
     methodName: string;
+    /** Fields referenced in the precondition */
+    fieldReferences: string[];
 }
 
 /**
@@ -89,17 +276,79 @@ export interface StateSpec extends SpecAnnotation {
     transition: StateTransition;
 }
 
+/**
+ * A safety property of the `@state` machine, checked on the transition graph:
+ * `@state ACTIVE is initial`, `@state TRIGGERED is terminal` or
+ * `@state CANCELLED never reaches ACTIVE`.
+ */
+export type StateProperty =
+    | { kind: 'initial'; state: string }
+    | { kind: 'terminal'; state: string }
+    | { kind: 'never-reaches'; from: string; to: string };
+
+export interface StatePropertySpec extends SpecAnnotation {
+    tag: 'state';
+    property: StateProperty;
+}
+
+/**
+ * The stored field that holds the state of the `@state` machine:
+ * `@statefield this.status { ACTIVE = 0, TRIGGERED = 1 }`, or just
+ * `@statefield this.status` when the state names are constants.
+ */
+export interface StateFieldSpec extends SpecAnnotation {
+    tag: 'statefield';
+    field: string;
+    /** Declared states in order; empty when the names resolve to constants */
+    states: { name: string; value: string }[];
+}
+
 /**
  * Access control specification.
  */
-export type AccessLevel = 'deployer-only' | 'owner-only' | 'anyone' | string;
+export type AccessLevel = 'deployer-only' | 'owner-only' | 'anyone' | 'role' | 'any-of' | string;
+
+/**
+ * Who may call a method, e.g. `any-of(owner, role(PAUSER))`.
+ */
+export type AccessRequirement =
+    | { kind: 'deployer' }
+    | { kind: 'owner'; field?: string }
+    | { kind: 'anyone' }
+    | { kind: 'role'; role: string }
+    | { kind: 'any-of'; options: AccessRequirement[] };
 
 export interface AccessSpec extends SpecAnnotation {
     tag: 'access';
     level: AccessLevel;
+    /** Stored address field the caller must match, from `owner-only(this.owner)` */
+    field?: string;
+    /** Parsed level; absent for custom levels */
+    requirement?: AccessRequirement;
     methodName: string;
 }
 
+/**
+ * Role declaration: `@role MINTER : this.minters`.
+ *
+ * The check names what enforces the role: a StoredAddress field (the sender
+ * must equal it), an address-keyed map (the sender's entry must be non-zero)
+ * or a helper method (`this.onlyMinter()`).
+ */
+export interface RoleSpec extends SpecAnnotation {
+    tag: 'role';
+    name: string;
+    check: string;
+}
+
+/**
+ * Options for verifying a contract.
+ */
+export interface VerifyOptions {
+    /** Roles from opspec.config.json; class-level @role declarations take precedence */
+    roles?: Record<string, string>;
+}
+
 /**
  * Cross-contract call specification.
  */
@@ -115,6 +364,95 @@ export interface CallsSpec extends SpecAnnotation {
     methodName: string;
 }
 
+/**
+ * One entry of a write frame: a whole stored field, or a single entry of a
+ * stored map (`this.balances[to]`).
+ */
+export interface FrameTarget {
+    field: string;
+    /** Key expression for a map entry, as written in the spec */
+    key?: string;
+}
+
+/**
+ * Write frame: `@modifies this.a, this.b[key]`. The method (and the helpers
+ * it calls) may write only these stored fields; `@modifies nothing` declares
+ * an empty frame.
+ */
+export interface ModifiesSpec extends SpecAnnotation {
+    tag: 'modifies';
+    targets: FrameTarget[];
+    methodName: string;
+}
+
+/**
+ * Exceptional postcondition: `@reverts-if amount.isZero() // "Amount must be non-zero"`.
+ * `@reverts-only-if` also claims the method reverts in no other case than
+ * the conditions listed on it.
+ */
+export interface RevertsSpec extends SpecAnnotation {
+    tag: 'reverts-if' | 'reverts-only-if';
+    /** Expected Revert message, from a quoted string in the comment */
+    message?: string;
+    methodName: string;
+}
+
+/**
+ * Purity: `@view` methods write no stored state; `@pure` methods also read
+ * none and make no external calls.
+ */
+export interface PuritySpec extends SpecAnnotation {
+    tag: 'view' | 'pure';
+    methodName: string;
+}
+
+/**
+ * Pause policy: `@pausable this.paused except unpause, setPauser`. Every
+ * state-changing entry point other than the exceptions must revert while the
+ * flag is set.
+ */
+export interface PausableSpec extends SpecAnnotation {
+    tag: 'pausable';
+    /** The StoredBoolean pause flag */
+    field: string;
+    /** Method names, without parentheses */
+    exceptions: string[];
+}
+
+/**
+ * Reentrancy safety: `@nonreentrant` on a method, or on the class for every
+ * entry point that makes an external call.
+ */
+export interface NonReentrantSpec extends SpecAnnotation {
+    tag: 'nonreentrant';
+    /** Unset for the class-level form */
+    methodName?: string;
+}
+
+/**
+ * Event emission: `@emits ListingCreated(listingId, sender, price) when price > u256.Zero`.
+ * `parsed` holds the `when` condition, if there is one.
+ */
+export interface EmitsSpec extends SpecAnnotation {
+    tag: 'emits';
+    /** Event name; `ListingCreated` also matches a `ListingCreatedEvent` class */
+    event: string;
+    /** Expected constructor arguments, as written */
+    args: string[];
+    /** Text of the `when` condition */
+    condition?: string;
+    methodName: string;
+}
+
+/**
+ * Structured temporal property (docs/grammar.md §4.7). `blocks` and `field`
+ * are as written; `field` is a stored field name without `this.`.
+ */
+export type TemporalForm =
+    | { kind: 'within'; blocks: string; field: string }
+    | { kind: 'not-before'; blocks: string; field: string }
+    | { kind: 'expires'; blocks: string };
+
 /**
  * Temporal/block property specification.
  */
@@ -124,6 +462,10 @@ export interface TemporalSpec extends SpecAnnotation {
     subject: string;
     /** Raw temporal condition */
     condition: string;
+    /** Set when the condition uses the structured grammar; free text stays informational */
+    form?: TemporalForm;
+    /** Method the property constrains: the annotated method, or a leading `name()` */
+    methodName?: string;
 }
 
 /**
@@ -147,9 +489,18 @@ export interface MethodSpecs {
     methodName: string;
     preconditions: PreconditionSpec[];
     postconditions: PostconditionSpec[];
+    /** @reverts-if and @reverts-only-if, in source order */
+    reverts: RevertsSpec[];
     access?: AccessSpec;
+    /** Repeated @modifies lines are merged into the first */
+    modifies?: ModifiesSpec;
+    /** @view or @pure */
+    purity?: PuritySpec;
+    nonreentrant?: NonReentrantSpec;
+    emits: EmitsSpec[];
     calls: CallsSpec[];
     stateTransitions: StateSpec[];
+    stateProperties: StatePropertySpec[];
     temporal: TemporalSpec[];
 }
 
@@ -161,7 +512,16 @@ export interface ContractSpecs {
     file: string;
     invariants: InvariantSpec[];
     stateTransitions: StateSpec[];
+    /** Class-level `@state X is terminal` and the like */
+    stateProperties: StatePropertySpec[];
     opnetConstraints: OpnetSpec[];
+    roles: RoleSpec[];
+    /** Class-level @nonreentrant */
+    nonreentrant?: NonReentrantSpec;
+    pausable?: PausableSpec;
+    stateField?: StateFieldSpec;
+    /** Class-level @temporal, each naming its method */
+    temporal: TemporalSpec[];
     methods: Map<string, MethodSpecs>;
 }
 
@@ -172,6 +532,26 @@ export interface SpecTree {
     contracts: ContractSpecs[];
     /** Raw annotations that couldn't be associated with a contract */
     unassociated: SpecAnnotation[];
+    /** Problems found while parsing the annotations */
+    diagnostics: Diagnostic[];
+}
+
+/**
+ * Severity of a spec diagnostic. Errors make `opspec check` fail.
+ */
+export type DiagnosticSeverity = 'error' | 'warning';
+
+/**
+ * A problem found in the spec annotations themselves (not in the code).
+ */
+export interface Diagnostic {
+    severity: DiagnosticSeverity;
+    /** Stable kebab-case identifier, e.g. unknown-tag */
+    code: string;
+    message: string;
+    file: string;
+    line: number;
+    column: number;
 }
 
 /**
@@ -208,6 +588,86 @@ export interface VerificationReport {
     };
 }
 
+/**
+ * One edge of the @state graph: `method()` takes `from` to `to`.
+ */
+export interface StateEdge {
+    from: string;
+    to: string;
+    method: string;
+    condition?: string;
+    line: number;
+}
+
+export type InitialStateSource = 'declared' | 'statefield' | 'first-transition' | 'none';
+
+export interface StateGraph {
+    /** Every state named by @statefield, a transition or a property, in order of appearance */
+    states: string[];
+    initial?: string;
+    /** Where the initial state came from */
+    initialSource: InitialStateSource;
+    edges: StateEdge[];
+}
+
+export type StateMachineFindingKind =
+    | 'unreachable-state'
+    | 'dead-end'
+    | 'untracked-method'
+    | 'unknown-method'
+    | 'nondeterministic'
+    | 'no-state-field';
+
+export interface StateMachineFinding {
+    kind: StateMachineFindingKind;
+    message: string;
+    line?: number;
+}
+
+export interface StatePropertyResult {
+    spec: StatePropertySpec;
+    holds: boolean;
+    message: string;
+    /** The edges that break the property, in order */
+    run?: StateEdge[];
+}
+
+/**
+ * The state machine the code implements, read off the status field's guards
+ * and writes.
+ */
+export interface ImplementedStateMachine {
+    field: string;
+    /** State name → the constant or value it stands for */
+    states: { name: string; value: string }[];
+    /** Transitions, each at the line of its method */
+    edges: StateEdge[];
+    /** Methods whose effect on the field could not be pinned to a state, and why */
+    undecided: { method: string; reason: string }[];
+}
+
+/**
+ * Implemented transitions missing from the @state specs, and the reverse.
+ */
+export interface StateMachineDiff {
+    unspecified: StateEdge[];
+    unimplemented: StateEdge[];
+}
+
+/**
+ * State machine analysis of one contract (`opspec statemachine`).
+ */
+export interface StateMachineReport {
+    file: string;
+    contractName: string;
+    graph: StateGraph;
+    findings: StateMachineFinding[];
+    properties: StatePropertyResult[];
+    /** Set by `--diff` */
+    implemented?: ImplementedStateMachine;
+    diff?: StateMachineDiff;
+}
+
 /**
  * Spec coverage information.
  */
@@ -0,0 +1,275 @@
+// ============================================================================
+// opspec Verification Conditions — Proof obligations for external solvers
+// ============================================================================
+//
+// Every @pre, @post and @invariant becomes one condition per returning path
+// of the methods it constrains:
+//   @pre        path ⇒ pre (evaluated on the pre-state)
+//   @post       path ⇒ post
+//   @invariant  zeroed storage ∧ deployment path ⇒ invariant, and
+//               old(invariant) ∧ path ⇒ invariant for each entry point that
+//               writes one of the invariant's fields
+// Quantified specs are instantiated first (see quantifiers.ts).
+
+import * as ts from 'typescript';
+import {
+    ContractSpecs,
+    SpecAnnotation,
+    VerificationResult,
+    VerificationReport,
+} from './types';
+import { buildCallGraph, entryPoints, findClassDeclarations, getClassName } from './ast-utils';
+import {
+    SymbolicContext,
+    SymbolicExecution,
+    PathState,
+    buildSymbolicContext,
+    executeDeployment,
+    executeMethod,
+    evaluateSpec,
+    writesAny,
+} from './symbolic';
+import { Term } from './terms';
+import { Obligation, deploymentPaths, inductionObligation, initialObligation, specObligation } from './quantifiers';
+import { buildSmtScript, runSolver, SolverAnswer } from './smt';
+import { SolverConfig } from './config';
+import { makeResult, buildReport } from './verifier';
+
+export interface VerificationCondition {
+    spec: SpecAnnotation;
+    contractName: string;
+    methodName: string;
+    /** Which returning path of the method this covers (1-based) */
+    path: number;
+    pathCount: number;
+    trace: string[];
+    /** The path went through code that is only over-approximated */
+    approximate: boolean;
+    facts: Term[];
+    goal: Term;
+}
+
+export interface VerificationConditionSet {
+    contract: ContractSpecs;
+    conditions: VerificationCondition[];
+    /** Specs that could not be expressed as conditions, and why */
+    skipped: { spec: SpecAnnotation; methodName?: string; reason: string }[];
+}
+
+/**
+ * Generate the verification conditions for one contract.
+ */
+export function generateVerificationConditions(
+    contract: ContractSpecs,
+    sourceFile: ts.SourceFile,
+): VerificationConditionSet {
+    const set: VerificationConditionSet = { contract, conditions: [], skipped: [] };
+    const classDecl = findClassDeclarations(sourceFile).find((c) => getClassName(c) === contract.className);
+    if (!classDecl) return set;
+
+    const ctx = buildSymbolicContext(classDecl, sourceFile);
+    const callGraph = buildCallGraph(classDecl);
+
+    for (const [methodName, specs] of contract.methods) {
+        const method = ctx.methods.get(methodName);
+        for (const pre of specs.preconditions) {
+            addMethodConditions(set, ctx, pre, methodName, method, (p) => {
+                const goal = evaluateSpec(pre.parsed!, p, ctx, true);
+                return goal && { facts: p.conditions, goal, approximate: false };
+            });
+        }
+        for (const post of specs.postconditions) {
+            if (post.isCEI) continue;
+            addMethodConditions(set, ctx, post, methodName, method, (p) => specObligation(post.parsed!, p, ctx));
+        }
+    }
+
+    for (const inv of contract.invariants) {
+        if (!inv.parsed) {
+            set.skipped.push({ spec: inv, reason: 'the expression could not be parsed' });
+            continue;
+        }
+        // Base case: deployment from zeroed storage
+        const deployment = executeDeployment(ctx) ?? { paths: deploymentPaths(ctx), truncated: false };
+        const deployer = ctx.methods.has('onDeployment') ? 'onDeployment' : 'constructor';
+        addPathConditions(set, inv, deployer, deployment, (p) => initialObligation(inv.parsed!, p, ctx));
+
+        // Inductive step: every entry point that may write the invariant's fields
+        for (const methodName of entryPoints(callGraph)) {
+            const execution = executeMethod(ctx.methods.get(methodName)!, ctx);
+            const paths = execution.paths.filter((p) => p.status === 'returned');
+            if (!execution.truncated && !paths.some((p) => p.approximate || writesAny(p, inv.fieldReferences))) continue;
+
+            addPathConditions(set, inv, methodName, execution, (p) => inductionObligation(inv.parsed!, p, ctx));
+        }
+    }
+
+    return set;
+}
+
+function addMethodConditions(
+    set: VerificationConditionSet,
+    ctx: SymbolicContext,
+    spec: SpecAnnotation,
+    methodName: string,
+    method: ts.MethodDeclaration | undefined,
+    obligationOf: (path: PathState) => Obligation | undefined,
+): void {
+    if (!spec.parsed) {
+        set.skipped.push({ spec, methodName, reason: 'the expression could not be parsed' });
+        return;
+    }
+    if (!method) {
+        set.skipped.push({ spec, methodName, reason: `method ${methodName}() not found` });
+        return;
+    }
+    addPathConditions(set, spec, methodName, executeMethod(method, ctx), obligationOf);
+}
+
+function addPathConditions(
+    set: VerificationConditionSet,
+    spec: SpecAnnotation,
+    methodName: string,
+    execution: SymbolicExecution,
+    obligationOf: (path: PathState) => Obligation | undefined,
+): void {
+    const paths = execution.paths.filter((p) => p.status === 'returned');
+    if (paths.length === 0) {
+        set.skipped.push({ spec, methodName, reason: `${methodName}() never returns normally` });
+        return;
+    }
+    if (execution.truncated) {
+        set.skipped.push({ spec, methodName, reason: `${methodName}() has too many paths` });
+        return;
+    }
+
+    const conditions: VerificationCondition[] = [];
+    for (const [i, path] of paths.entries()) {
+        const obligation = obligationOf(path);
+        if (!obligation) {
+            set.skipped.push({ spec, methodName, reason: 'the expression uses constructs that cannot be translated' });
+            return;
+        }
+        conditions.push({
+            spec,
+            contractName: set.contract.className,
+            methodName,
+            path: i + 1,
+            pathCount: paths.length,
+            trace: path.trace,
+            approximate: path.approximate || obligation.approximate,
+            facts: obligation.facts,
+            goal: obligation.goal,
+        });
+    }
+    set.conditions.push(...conditions);
+}
+
+// ============================================================================
+// SMT-LIB2 output
+// ============================================================================
+
+/**
+ * Short label, e.g. "BondingCurve.buy() @post L110 path 1/2".
+ */
+export function describeCondition(vc: VerificationCondition): string {
+    return `${vc.contractName}.${vc.methodName}() @${vc.spec.tag} L${vc.spec.line} path ${vc.path}/${vc.pathCount}`;
+}
+
+/**
+ * The condition as a standalone SMT-LIB2 script.
+ */
+export function formatVerificationCondition(vc: VerificationCondition): string {
+    const comments = [
+        describeCondition(vc),
+        `@${vc.spec.tag} ${vc.spec.expression}`,
+        `path: ${vc.trace.join(' → ') || '(straight line)'}`,
+    ];
+    if (vc.approximate) comments.push('note: the path contains over-approximated code (loops or unknown calls)');
+    comments.push('unsat = obligation holds; sat = counterexample');
+    return buildSmtScript(vc.facts, vc.goal, comments);
+}
+
+/**
+ * File name for a condition's script.
+ */
+export function conditionFileName(vc: VerificationCondition): string {
+    return `${vc.contractName}.${vc.methodName}.${vc.spec.tag}-L${vc.spec.line}.p${vc.path}.smt2`;
+}
+
+// ============================================================================
+// Solving
+// ============================================================================
+
+/**
+ * Run the solver on every condition and map the answers onto a report:
+ * unsat on every exactly modelled path → VERIFIED, sat → VIOLATED (with the model as the
+ * counterexample), anything else → UNVERIFIED.
+ */
+export function solveVerificationConditions(set: VerificationConditionSet, solver: SolverConfig): VerificationReport {
+    const results: VerificationResult[] = [];
+
+    // One result per spec and method
+    const groups = new Map<string, VerificationCondition[]>();
+    for (const vc of set.conditions) {
+        const key = `${vc.spec.line}:${vc.spec.tag}:${vc.methodName}`;
+        groups.set(key, [...(groups.get(key) ?? []), vc]);
+    }
+
+    for (const conditions of groups.values()) {
+        results.push(solveGroup(conditions, solver));
+    }
+    for (const { spec, methodName, reason } of set.skipped) {
+        const where = methodName ? ` in ${methodName}()` : '';
+        results.push(makeResult(spec, 'UNVERIFIED', `No verification condition for "${spec.expression}"${where} — ${reason}`));
+    }
+
+    results.sort((a, b) => a.line - b.line);
+    return buildReport(set.contract, results);
+}
+
+function solveGroup(conditions: VerificationCondition[], solver: SolverConfig): VerificationResult {
+    const { spec, methodName } = conditions[0];
+    const undecided: string[] = [];
+
+    for (const vc of conditions) {
+        const answer: SolverAnswer = runSolver(formatVerificationCondition(vc), solver);
+        if (answer.status === 'unsat' && vc.approximate) {
+            undecided.push(`path ${vc.path}: unsat, but the path is over-approximated`);
+            continue;
+        }
+        if (answer.status === 'unsat') continue;
+
+        if (answer.status === 'sat') {
+            const model = Object.entries(answer.model ?? {})
+                .map(([name, value]) => `${name} = ${value}`)
+                .join(', ');
+            const details = `Counterexample: ${model || '(no model returned)'}\nPath: ${vc.trace.join(' → ') || '(straight line)'}`;
+            if (vc.approximate) {
+                return makeResult(
+                    spec,
+                    'UNVERIFIED',
+                    `${solver.command} found a model for ${describeCondition(vc)}, but the path is over-approximated`,
+                    details,
+                );
+            }
+            return makeResult(spec, 'VIOLATED', `${solver.command}: "${spec.expression}" fails in ${methodName}() (sat)`, details);
+        }
+
+        undecided.push(answer.status === 'error' ? answer.message ?? 'solver error' : `path ${vc.path}: unknown`);
+    }
+
+    if (undecided.length > 0) {
+        return makeResult(
+            spec,
+            'UNVERIFIED',
+            `${solver.command} could not decide "${spec.expression}" in ${methodName}()`,
+            undecided.join('\n'),
+        );
+    }
+    return makeResult(
+        spec,
+        'VERIFIED',
+        `${solver.command}: "${spec.expression}" holds on all ${conditions.length} path(s) of ${methodName}() (unsat)`,
+    );
+}
@@ -18,7 +18,20 @@ import {
     CallsSpec,
     InvariantSpec,
     StateSpec,
+    StateFieldSpec,
     OpnetSpec,
+    RoleSpec,
+    ModifiesSpec,
+    FrameTarget,
+    EmitsSpec,
+    RevertsSpec,
+    PuritySpec,
+    NonReentrantSpec,
+    PausableSpec,
+    TemporalSpec,
+    SpecExpression,
+    AccessRequirement,
+    VerifyOptions,
 } from './types';
 import {
     walkTree,
@@ -31,10 +44,50 @@ import {
     getMethodBodyText,
     findBlockchainCalls,
     findStateWrites,
+    StateWrite,
     findGuardChecks,
     isPublicMethod,
     createSourceFile,
+    CallGraph,
+    buildCallGraph,
+    reachableMethods,
+    truncatedChain,
+    entryPoints,
+    ReachedMethod,
+    MAX_HELPER_DEPTH,
+    formatVia,
 } from './ast-utils';
+import { buildControlFlowGraph, cfgNodeAt, dominates, findCfgPath, formatCfgPath, reachableNodes } from './cfg';
+import {
+    SymbolicContext,
+    PathState,
+    EmittedEvent,
+    MAP_TYPES,
+    buildSymbolicContext,
+    executeMethod,
+    evaluateSpec,
+    writesAny,
+} from './symbolic';
+import { prove } from './prover';
+import { InductionFailure, needsInduction, proveByInduction, proveInitially, proveInductionSteps, specObligation } from './quantifiers';
+import { Interval, BoundsStep, invariantBounds, checkBounds, formatInterval, join } from './intervals';
+import { Term, TRUE, mkCmp, mkConst, mkNot, mkOr, mkVar, termKey } from './terms';
+import { CONFIG_FILE_NAME } from './config';
+import { buildStateGraph, checkStateProperty, resolveState } from './statemachine';
+import { formatSpecExpression, parseSpecExpression, walkSpecExpression } from './expression-parser';
+import {
+    SENDER,
+    bindingsAlong,
+    collectLocalBindings,
+    findEnforcingGuards,
+    findSenderChecks,
+    guardEnforces,
+    normalizeCondition,
+    normalizeExpression,
+    normalizeValue,
+    senderIs,
+    Bindings,
+} from './normalize';
 
 // ============================================================================
 // Individual Verifier Functions
@@ -43,32 +96,47 @@ import {
 /**
  * Verify @access specs.
  *
- * - deployer-only / owner-only → method must call onlyDeployer/ensureOwner
- * - anyone → method should NOT have deployer/owner checks
+ * - deployer-only / owner-only → method (or a helper it calls) must call onlyDeployer/ensureOwner
+ *   or revert unless Blockchain.tx.sender equals a StoredAddress field
+ * - owner-only(this.X) → the sender must be compared with this.X specifically
+ * - role(R) / any-of(...) → see verifyRoleAccess
+ * - anyone → neither the method nor its helpers should have deployer/owner checks
  */
 function verifyAccess(
     accessSpec: AccessSpec,
     method: ts.MethodDeclaration,
     sourceFile: ts.SourceFile,
+    access: AccessContext,
 ): VerificationResult {
-    const bodyText = getMethodBodyText(method, sourceFile);
+    const { callGraph, addressFields, constants } = access;
+    if (accessSpec.requirement?.kind === 'role' || accessSpec.requirement?.kind === 'any-of') {
+        return verifyRoleAccess(accessSpec, accessSpec.requirement, method, sourceFile, access);
+    }
+
+    // Strip comments from body text to avoid false positives
+    const bodies = reachableBodies(method, sourceFile, callGraph).map((b) => ({ ...b, text: stripComments(b.text) }));
+    const find = (test: (text: string) => boolean) => bodies.find((b) => test(b.text));
     const level = accessSpec.level.toLowerCase();
 
     if (level === 'deployer-only') {
-        // Strip comments from body text to avoid false positives
-        const bodyNoComments = stripComments(bodyText);
-        const hasDeployerCheck =
-            bodyNoComments.includes('onlyDeployer') ||
-            bodyNoComments.includes('this.onlyDeployer');
-        if (hasDeployerCheck) {
-            return makeResult(accessSpec, 'VERIFIED', `Method ${accessSpec.methodName}() has onlyDeployer check`);
+        const deployerCheck = find((text) => text.includes('onlyDeployer') || text.includes('this.onlyDeployer'));
+        if (deployerCheck) {
+            return makeResult(
+                accessSpec,
+                'VERIFIED',
+                `Method ${accessSpec.methodName}() has onlyDeployer check${formatVia(deployerCheck.via)}`,
+            );
         }
         // Also check for manual sender comparison patterns
-        const hasSenderCheck =
-            bodyNoComments.includes('Blockchain.tx.sender') &&
-            (bodyNoComments.includes('deployer') || bodyNoComments.includes('owner'));
-        if (hasSenderCheck) {
-            return makeResult(accessSpec, 'VERIFIED', `Method ${accessSpec.methodName}() has sender/deployer comparison`);
+        const senderCheck = find(
+            (text) => text.includes('Blockchain.tx.sender') && (text.includes('deployer') || text.includes('owner')),
+        );
+        if (senderCheck) {
+            return makeResult(
+                accessSpec,
+                'VERIFIED',
+                `Method ${accessSpec.methodName}() has sender/deployer comparison${formatVia(senderCheck.via)}`,
+            );
         }
         return makeResult(
             accessSpec,
@@ -79,21 +147,83 @@ function verifyAccess(
     }
 
     if (level === 'owner-only') {
-        const bodyNoComments = stripComments(bodyText);
-        const hasOwnerCheck =
-            bodyNoComments.includes('ensureOwner') ||
-            bodyNoComments.includes('this.ensureOwner') ||
-            bodyNoComments.includes('onlyOwner') ||
-            bodyNoComments.includes('this.onlyOwner');
-        if (hasOwnerCheck) {
-            return makeResult(accessSpec, 'VERIFIED', `Method ${accessSpec.methodName}() has owner check`);
+        const senderChecks = findSenderChecks(method, sourceFile, callGraph, addressFields, constants);
+
+        // owner-only(this.X): the caller must be compared with that field
+        if (accessSpec.field) {
+            const field = accessSpec.field;
+            const match = senderChecks.find((c) => c.field === field);
+            if (match) {
+                return makeResult(
+                    accessSpec,
+                    'VERIFIED',
+                    `Method ${accessSpec.methodName}() requires Blockchain.tx.sender == this.${field}.value${formatVia(match.via)}`,
+                );
+            }
+            if (!addressFields.includes(field)) {
+                return makeResult(
+                    accessSpec,
+                    'UNVERIFIED',
+                    `this.${field} is not a StoredAddress field of the contract — cannot check access for ${accessSpec.methodName}()`,
+                );
+            }
+            if (senderChecks.length > 0) {
+                const other = senderChecks[0];
+                return makeResult(
+                    accessSpec,
+                    'VIOLATED',
+                    `Method ${accessSpec.methodName}() checks the sender against this.${other.field}, not this.${field}${formatVia(other.via)}`,
+                    `Guard: ${other.condition}`,
+                );
+            }
+            const opaqueCheck = find((text) => text.includes('ensureOwner') || text.includes('onlyOwner'));
+            if (opaqueCheck) {
+                return makeResult(
+                    accessSpec,
+                    'UNVERIFIED',
+                    `Method ${accessSpec.methodName}() calls an owner check${formatVia(opaqueCheck.via)}, but no comparison with this.${field} was found`,
+                );
+            }
+            return makeResult(
+                accessSpec,
+                'VIOLATED',
+                `Method ${accessSpec.methodName}() is specified as owner-only(this.${field}) but never compares Blockchain.tx.sender with this.${field}.value`,
+                `Add if (!Blockchain.tx.sender.equals(this.${field}.value)) throw new Revert(...) at the start of the method`,
+            );
+        }
+
+        if (senderChecks.length > 0) {
+            const check = senderChecks[0];
+            return makeResult(
+                accessSpec,
+                'VERIFIED',
+                `Method ${accessSpec.methodName}() requires Blockchain.tx.sender == this.${check.field}.value${formatVia(check.via)}`,
+            );
+        }
+        const ownerCheck = find(
+            (text) =>
+                text.includes('ensureOwner') ||
+                text.includes('this.ensureOwner') ||
+                text.includes('onlyOwner') ||
+                text.includes('this.onlyOwner'),
+        );
+        if (ownerCheck) {
+            return makeResult(
+                accessSpec,
+                'VERIFIED',
+                `Method ${accessSpec.methodName}() has owner check${formatVia(ownerCheck.via)}`,
+            );
         }
         // Check for manual owner pattern
-        const hasManualOwnerCheck =
-            bodyNoComments.includes('this.owner.value') &&
-            bodyNoComments.includes('Blockchain.tx.sender');
-        if (hasManualOwnerCheck) {
-            return makeResult(accessSpec, 'VERIFIED', `Method ${accessSpec.methodName}() has manual owner comparison`);
+        const manualOwnerCheck = find(
+            (text) => text.includes('this.owner.value') && text.includes('Blockchain.tx.sender'),
+        );
+        if (manualOwnerCheck) {
+            return makeResult(
+                accessSpec,
+                'VERIFIED',
+                `Method ${accessSpec.methodName}() has manual owner comparison${formatVia(manualOwnerCheck.via)}`,
+            );
         }
         return makeResult(
             accessSpec,
@@ -104,15 +234,23 @@ function verifyAccess(
     }
 
     if (level === 'anyone') {
-        const hasRestriction =
-            bodyText.includes('onlyDeployer') ||
-            bodyText.includes('ensureOwner') ||
-            bodyText.includes('onlyOwner');
-        if (hasRestriction) {
+        const restriction = find(
+            (text) => text.includes('onlyDeployer') || text.includes('ensureOwner') || text.includes('onlyOwner'),
+        );
+        if (restriction) {
+            return makeResult(
+                accessSpec,
+                'VIOLATED',
+                `Method ${accessSpec.methodName}() is specified as @access anyone but has access restriction${formatVia(restriction.via)}`,
+            );
+        }
+        const senderCheck = findSenderChecks(method, sourceFile, callGraph, addressFields, constants)[0];
+        if (senderCheck) {
             return makeResult(
                 accessSpec,
                 'VIOLATED',
-                `Method ${accessSpec.methodName}() is specified as @access anyone but has access restriction`,
+                `Method ${accessSpec.methodName}() is specified as @access anyone but only this.${senderCheck.field} may call it${formatVia(senderCheck.via)}`,
+                `Guard: ${senderCheck.condition}`,
             );
         }
         return makeResult(accessSpec, 'VERIFIED', `Method ${accessSpec.methodName}() has no access restrictions (open to anyone)`);
@@ -124,67 +262,59 @@ function verifyAccess(
 /**
  * Verify @pre / @requires specs.
  *
- * Checks that the method body has guard checks (if/throw Revert) that correspond
- * to the precondition expression. This is a heuristic match.
+ * Checks that the method body, or a helper it calls, has a guard check
+ * (if/throw Revert) that fires whenever the precondition is violated. Both
+ * sides are normalised (see normalize.ts) and compared with the prover.
  */
 function verifyPrecondition(
     preSpec: PreconditionSpec,
     method: ts.MethodDeclaration,
     sourceFile: ts.SourceFile,
+    storedFields: Set<string>,
+    callGraph: CallGraph,
+    constants: Map<string, Term>,
 ): VerificationResult {
     const expr = preSpec.expression.trim();
-    const bodyText = getMethodBodyText(method, sourceFile);
-    const guards = findGuardChecks(method, sourceFile);
+    const reached = reachableMethods(callGraph, method);
+    const bodyText = reached.map((r) => getMethodBodyText(r.method, sourceFile)).join('\n');
+    const guards = reached.flatMap((r) => findGuardChecks(r.method, sourceFile).map((g) => ({ ...g, via: r.via })));
 
     // Special case: check for function-call guards like this.ensureActive(), this.ensureOwner()
-    if (expr.includes('ensureOwner') || expr.includes('onlyDeployer')) {
-        if (bodyText.includes('ensureOwner') || bodyText.includes('onlyDeployer')) {
-            return makeResult(preSpec, 'VERIFIED', `Precondition guard found: ${expr}`);
-        }
-        return makeResult(preSpec, 'VIOLATED', `Missing guard for precondition: ${expr}`);
-    }
-
-    if (expr.includes('ensureActive')) {
-        if (bodyText.includes('ensureActive')) {
-            return makeResult(preSpec, 'VERIFIED', `Precondition guard found: ${expr}`);
+    const callGuards = expr.includes('ensureOwner') || expr.includes('onlyDeployer')
+        ? ['ensureOwner', 'onlyDeployer']
+        : expr.includes('ensureActive')
+          ? ['ensureActive']
+          : undefined;
+    if (callGuards) {
+        if (callGuards.some((g) => bodyText.includes(g))) {
+            const guard = guards.find((g) => callGuards.some((name) => g.condition.includes(name)));
+            const misplaced = guard && checkGuardDominance(preSpec, guard, method, sourceFile, storedFields, callGraph);
+            return misplaced || makeResult(preSpec, 'VERIFIED', `Precondition guard found: ${expr}`);
         }
         return makeResult(preSpec, 'VIOLATED', `Missing guard for precondition: ${expr}`);
     }
 
-    // Check for status/state related preconditions that use helper functions
-    if (expr.includes('status') || expr.includes('STATUS') || expr.includes('state')) {
-        // Look for guard helper calls like ensureActive(), ensureOwner(), etc.
-        const guardHelpers = [
-            'ensureActive', 'ensureOwner', 'requireActive', 'requireStatus',
-            'onlyActive', 'onlyDeployer',
-        ];
-        for (const helper of guardHelpers) {
-            if (bodyText.includes(helper)) {
-                return makeResult(preSpec, 'UNVERIFIED',
-                    `Precondition "${expr}" may be enforced by ${helper}() call — needs deeper call-graph analysis`);
-            }
-        }
-    }
-
-    // Extract key terms from the precondition for fuzzy matching
-    const keyTerms = extractKeyTerms(expr);
-
-    // Check if any guard condition contains the key terms
-    for (const guard of guards) {
-        const guardTerms = extractKeyTerms(guard.condition);
-        const matchCount = keyTerms.filter((t) => guardTerms.includes(t)).length;
-        if (matchCount > 0 && matchCount >= Math.ceil(keyTerms.length * 0.5)) {
+    // Compare canonical forms: the guard must fire whenever the precondition is violated
+    const rootBindings = collectLocalBindings(method, sourceFile);
+    const precondition = preSpec.parsed ? normalizeExpression(preSpec.parsed, rootBindings, constants) : undefined;
+    if (precondition) {
+        for (const guard of guards) {
+            const bindings = bindingsAlong(method, guard.via, sourceFile, callGraph, rootBindings);
+            const condition = normalizeCondition(guard.condition, bindings, constants);
+            if (!condition || !guardEnforces(condition, precondition)) continue;
+
+            const misplaced = checkGuardDominance(preSpec, guard, method, sourceFile, storedFields, callGraph);
+            if (misplaced) return misplaced;
             return makeResult(
                 preSpec,
                 'VERIFIED',
-                `Precondition "${expr}" matched by guard: ${guard.condition}`,
+                `Precondition "${expr}" matched by guard: ${guard.condition}${formatVia(guard.via)}`,
             );
         }
     }
 
     // Check if the body contains the field references mentioned in the precondition
-    const fieldRefs = extractFieldRefsFromExpr(expr);
-    const bodyHasFields = fieldRefs.every((f) => bodyText.includes(f));
+    const bodyHasFields = preSpec.fieldReferences.every((f) => bodyText.includes(`this.${f}`));
     const bodyHasRevert = bodyText.includes('Revert');
 
     if (bodyHasFields && bodyHasRevert) {
@@ -211,28 +341,119 @@ function verifyPrecondition(
     );
 }
 
+/**
+ * A guard only protects what it dominates: every state write and external
+ * call of the method (or of a helper it calls) must be reached through it.
+ * A guard in a helper takes effect at the calls that lead to it, so each
+ * method on the chain is checked on its own CFG: the method's effects must
+ * follow its calls to the next helper, and the last helper's must follow
+ * the guard. Returns a VIOLATED result for the first effect that can run
+ * unguarded.
+ */
+function checkGuardDominance(
+    preSpec: PreconditionSpec,
+    guard: { condition: string; pos: number; via: string[] },
+    method: ts.MethodDeclaration,
+    sourceFile: ts.SourceFile,
+    storedFields: Set<string>,
+    callGraph: CallGraph,
+): VerificationResult | undefined {
+    const lineOf = (pos: number) => sourceFile.getLineAndCharacterOfPosition(pos).line + 1;
+    const expr = preSpec.expression.trim();
+    const chain = [method, ...guard.via.map((name) => callGraph.methods.get(name))];
+
+    for (const [depth, current] of chain.entries()) {
+        if (!current) return undefined;
+        const name = getMethodName(current);
+        const next = guard.via[depth];
+        const prefix = guard.via.slice(0, depth);
+        const sites = callGraph.calls.get(name) ?? [];
+        const guardPositions = next === undefined ? [guard.pos] : sites.filter((c) => c.callee === next).map((c) => c.pos);
+
+        const cfg = buildControlFlowGraph(current, sourceFile);
+        const guardNodes = guardPositions.map((pos) => cfgNodeAt(cfg, pos, sourceFile)?.id);
+        if (guardNodes.length === 0 || guardNodes.some((id) => id === undefined)) return undefined;
+
+        const effects: { pos: number; description: string; via: string }[] = [
+            ...findStateWrites(current, sourceFile, storedFields).map((w) => ({
+                pos: w.pos,
+                description: `state write to ${w.text}`,
+                via: formatVia(prefix),
+            })),
+            ...findBlockchainCalls(current, sourceFile).map((c) => ({
+                pos: c.pos,
+                description: 'Blockchain.call()',
+                via: formatVia(prefix),
+            })),
+        ];
+        for (const site of sites) {
+            if (site.callee === next || site.callee === name) continue;
+            const helper = callGraph.methods.get(site.callee)!;
+            for (const r of reachableMethods(callGraph, helper)) {
+                const via = formatVia([...prefix, site.callee, ...r.via]);
+                for (const w of findStateWrites(r.method, sourceFile, storedFields)) {
+                    effects.push({ pos: site.pos, description: `state write to ${w.text}`, via });
+                }
+                if (findBlockchainCalls(r.method, sourceFile).length > 0) {
+                    effects.push({ pos: site.pos, description: 'Blockchain.call()', via });
+                }
+            }
+        }
+        effects.sort((a, b) => a.pos - b.pos);
+
+        const firstGuard = Math.min(...guardPositions);
+        for (const effect of effects) {
+            const node = cfgNodeAt(cfg, effect.pos, sourceFile);
+            if (!node || dominates(cfg, guardNodes as number[], node.id)) continue;
+
+            const relation = effect.pos < firstGuard ? 'appears after' : 'does not cover';
+            return makeResult(
+                preSpec,
+                'VIOLATED',
+                `Guard for ${expr} ${relation} ${effect.description} at L${lineOf(effect.pos)}${effect.via}`,
+                `Guard: ${guard.condition} at L${lineOf(firstGuard)}${formatVia(guard.via)}\n` +
+                    'Move the check before every state write and external call',
+            );
+        }
+    }
+    return undefined;
+}
+
 /**
  * Verify @post / @ensures specs.
  *
- * For V1, we do structural checks:
- * - If postcondition references a field, check method modifies it
- * - If @ensures CEI, run CEI violation check
- * - old() references are noted but can't be fully verified statically
+ * - @ensures CEI runs the CEI check on the control-flow graph
+ * - Otherwise the method is executed symbolically, and the postcondition is
+ *   proved or refuted on each path that returns normally, with old() bound to
+ *   the fields on entry
+ * - When that is undecided, structural checks can still report a field that
+ *   is never written or a return value that is never produced; anything else
+ *   is UNVERIFIED with the reason the proof failed
  */
 function verifyPostcondition(
     postSpec: PostconditionSpec,
     method: ts.MethodDeclaration,
     sourceFile: ts.SourceFile,
     storedFields: Set<string>,
+    symbolic: SymbolicContext,
+    callGraph: CallGraph,
 ): VerificationResult {
     // Special case: @ensures CEI
     if (postSpec.isCEI) {
-        return verifyCEI(postSpec, method, sourceFile, storedFields);
+        return verifyCEI(postSpec, method, sourceFile, storedFields, callGraph);
     }
 
-    const bodyText = getMethodBodyText(method, sourceFile);
+    // Prove or refute the postcondition on every returning path
+    const proof = proveOnPaths(postSpec, method, symbolic);
+    if (proof.result) {
+        return proof.result;
+    }
+
+    const bodyText = reachableBodies(method, sourceFile, callGraph)
+        .map((b) => b.text)
+        .join('\n');
 
-    // Check that referenced fields are actually modified
+    // Check that referenced fields are actually modified (here or in a helper)
     if (postSpec.fieldReferences.length > 0) {
         const unmodified: string[] = [];
         for (const field of postSpec.fieldReferences) {
@@ -265,151 +486,1387 @@ function verifyPostcondition(
         }
     }
 
-    // old() references need symbolic execution — mark as UNVERIFIED
+    // If we get here, symbolic execution could not decide the postcondition
     if (postSpec.oldReferences.length > 0) {
         return makeResult(
             postSpec,
             'UNVERIFIED',
-            `Postcondition uses old() references — requires symbolic execution for full verification`,
+            `Postcondition uses old() references — ${proof.reason}`,
             `Fields referenced via old(): ${postSpec.oldReferences.join(', ')}`,
         );
     }
 
-    // If we get here, the postcondition looks structurally consistent
     if (postSpec.fieldReferences.length > 0) {
         return makeResult(
             postSpec,
             'UNVERIFIED',
-            `Postcondition "${postSpec.expression}" — fields are modified but value correctness requires symbolic execution`,
+            `Postcondition "${postSpec.expression}" — fields are modified but ${proof.reason}`,
         );
     }
 
     return makeResult(
         postSpec,
         'UNVERIFIED',
-        `Postcondition "${postSpec.expression}" — structural check passed but full verification requires symbolic execution`,
+        `Postcondition "${postSpec.expression}" — structural check passed but ${proof.reason}`,
     );
 }
 
+/**
+ * Run the method symbolically and check the postcondition on each path that
+ * returns normally. Yields a VERIFIED or VIOLATED result when the question is
+ * decided, otherwise the reason it was not.
+ */
+function proveOnPaths(
+    postSpec: PostconditionSpec,
+    method: ts.MethodDeclaration,
+    symbolic: SymbolicContext,
+): { result?: VerificationResult; reason: string } {
+    if (!postSpec.parsed) {
+        return { reason: 'the expression could not be parsed' };
+    }
+
+    const execution = executeMethod(method, symbolic);
+    const returning = execution.paths.filter((p) => p.status === 'returned');
+    if (returning.length === 0) {
+        return { reason: `${postSpec.methodName}() never returns normally` };
+    }
+
+    let undecided = 0;
+    let approximated = 0;
+    for (const path of returning) {
+        const obligation = specObligation(postSpec.parsed, path, symbolic);
+        if (!obligation) {
+            return { reason: 'the expression uses constructs the symbolic executor does not model' };
+        }
+
+        const outcome = prove(obligation.facts, obligation.goal);
+        if (outcome.status === 'proved') {
+            // Proved over approximated code: that code is not what runs
+            if (path.approximate) approximated++;
+            continue;
+        }
+
+        if (outcome.status === 'refuted' && !path.approximate && !obligation.approximate) {
+            const model = Object.entries(outcome.counterexample ?? {})
+                .map(([name, value]) => `${name} = ${value}`)
+                .join(', ');
+            return {
+                reason: 'a counterexample was found',
+                result: makeResult(
+                    postSpec,
+                    'VIOLATED',
+                    `Postcondition "${postSpec.expression}" does not hold on every path of ${postSpec.methodName}()`,
+                    `Counterexample: ${model || '(any input)'}\nPath: ${path.trace.join(' → ') || '(straight line)'}`,
+                ),
+            };
+        }
+        undecided++;
+    }
+
+    if (undecided > 0) {
+        return { reason: `symbolic execution could not decide ${undecided} of ${returning.length} path(s)` };
+    }
+    if (approximated > 0) {
+        return { reason: `${approximated} of ${returning.length} path(s) go through code that is only approximated` };
+    }
+    if (execution.truncated) {
+        return { reason: 'symbolic execution ran out of path budget' };
+    }
+    return {
+        reason: 'proved',
+        result: makeResult(
+            postSpec,
+            'VERIFIED',
+            `Postcondition holds on all ${returning.length} returning path(s) of ${postSpec.methodName}() (symbolic execution)`,
+        ),
+    };
+}
+
 /**
  * Verify @ensures CEI — Checks-Effects-Interactions pattern.
+ *
+ * Violated when some control-flow path leads from a Blockchain.call() to a
+ * state write, including the next iteration of a loop. A helper call stands
+ * for the state writes and external calls of the helper (writes first), and
+ * each helper's own body is checked the same way.
  */
 function verifyCEI(
     spec: PostconditionSpec,
     method: ts.MethodDeclaration,
     sourceFile: ts.SourceFile,
     storedFields: Set<string>,
+    callGraph: CallGraph,
 ): VerificationResult {
-    const externalCalls = findBlockchainCalls(method, sourceFile);
-    const stateWrites = findStateWrites(method, sourceFile, storedFields);
+    const reached = reachableMethods(callGraph, method);
 
-    if (externalCalls.length === 0) {
+    if (!reached.some((r) => findBlockchainCalls(r.method, sourceFile).length > 0)) {
         return makeResult(spec, 'VERIFIED', `${spec.methodName}() has no external calls — CEI trivially satisfied`);
     }
 
-    if (stateWrites.length === 0) {
+    if (!reached.some((r) => findStateWrites(r.method, sourceFile, storedFields).length > 0)) {
         return makeResult(spec, 'VERIFIED', `${spec.methodName}() has no state writes — CEI trivially satisfied`);
     }
 
-    // Check if any state write comes after any external call
-    const violations: string[] = [];
-    for (const call of externalCalls) {
-        for (const write of stateWrites) {
-            if (write.pos > call.pos) {
-                violations.push(`State write '${write.text}' after Blockchain.call()`);
-            }
-        }
-    }
+    for (const r of reached) {
+        const violation = findCeiViolation(r, sourceFile, storedFields, callGraph);
+        if (!violation) continue;
 
-    if (violations.length > 0) {
+        const { call, write, path } = violation;
+        const where = r.via.length > 0 ? ` in this.${r.name}()` : '';
         return makeResult(
             spec,
             'VIOLATED',
-            `CEI violation in ${spec.methodName}(): ${violations.join('; ')}`,
-            'Move all state writes before external calls',
+            `CEI violation in ${spec.methodName}(): state write '${write.text}' at L${write.line}${formatVia(write.via)} ` +
+                `can run after Blockchain.call() at L${call.line}${formatVia(call.via)}`,
+            `Path${where}: ${path}\nMove all state writes before external calls`,
         );
     }
 
-    return makeResult(spec, 'VERIFIED', `${spec.methodName}() follows CEI pattern — all state writes before external calls`);
+    return makeResult(
+        spec,
+        'VERIFIED',
+        `${spec.methodName}() follows CEI pattern — no path leads from an external call to a state write`,
+    );
+}
+
+interface CeiEvent {
+    kind: 'call' | 'write';
+    pos: number;
+    line: number;
+    text: string;
+    via: string[];
+}
+
+/**
+ * Search one method's CFG for a path from an external call to a state write.
+ */
+function findCeiViolation(
+    reached: ReachedMethod,
+    sourceFile: ts.SourceFile,
+    storedFields: Set<string>,
+    callGraph: CallGraph,
+): { call: CeiEvent; write: CeiEvent; path: string } | undefined {
+    const cfg = buildControlFlowGraph(reached.method, sourceFile);
+    const lineOf = (pos: number) => sourceFile.getLineAndCharacterOfPosition(pos).line + 1;
+
+    const events: CeiEvent[] = [
+        ...findBlockchainCalls(reached.method, sourceFile).map((c) => ({
+            kind: 'call' as const,
+            pos: c.pos,
+            line: lineOf(c.pos),
+            text: c.text,
+            via: reached.via,
+        })),
+        ...findStateWrites(reached.method, sourceFile, storedFields).map((w) => ({
+            kind: 'write' as const,
+            pos: w.pos,
+            line: lineOf(w.pos),
+            text: w.text,
+            via: reached.via,
+        })),
+    ];
+
+    // Helper calls: everything the helper may write, then everything it may call
+    if (reached.via.length < MAX_HELPER_DEPTH) {
+        for (const site of callGraph.calls.get(reached.name) ?? []) {
+            if (site.callee === reached.name || reached.via.includes(site.callee)) continue;
+            const helper = callGraph.methods.get(site.callee)!;
+            const inner = reachableMethods(callGraph, helper, MAX_HELPER_DEPTH - reached.via.length - 1);
+            const line = lineOf(site.pos);
+            const via = (r: ReachedMethod) => [...reached.via, site.callee, ...r.via];
+            for (const r of inner) {
+                for (const w of findStateWrites(r.method, sourceFile, storedFields)) {
+                    events.push({ kind: 'write', pos: site.pos, line, text: w.text, via: via(r) });
+                }
+            }
+            for (const r of inner) {
+                for (const c of findBlockchainCalls(r.method, sourceFile)) {
+                    events.push({ kind: 'call', pos: site.pos, line, text: c.text, via: via(r) });
+                }
+            }
+        }
+    }
+
+    // Attach events to the CFG node that evaluates them
+    const byNode = new Map<number, CeiEvent[]>();
+    for (const event of events) {
+        const node = cfgNodeAt(cfg, event.pos, sourceFile);
+        if (node) byNode.set(node.id, [...(byNode.get(node.id) ?? []), event]);
+    }
+
+    for (const [from, fromEvents] of byNode) {
+        for (const call of fromEvents.filter((e) => e.kind === 'call')) {
+            // Later in the same statement (a helper's own ordering is checked in its body)
+            const sameNode = fromEvents.find((e) => e.kind === 'write' && e.pos > call.pos);
+            if (sameNode) {
+                return { call, write: sameNode, path: formatCfgPath(cfg, [from], sourceFile) };
+            }
+            for (const [to, toEvents] of byNode) {
+                const write = toEvents.find((e) => e.kind === 'write');
+                if (!write) continue;
+                const path = findCfgPath(cfg, from, to);
+                if (path) return { call, write, path: formatCfgPath(cfg, path, sourceFile) };
+            }
+        }
+    }
+    return undefined;
 }
 
 /**
- * Verify @calls specs — check that the method makes the specified cross-contract calls.
+ * Verify @nonreentrant on one method, or on the class for every entry point
+ * that reaches a Blockchain.call().
  */
-function verifyCalls(
-    callSpec: CallsSpec,
-    method: ts.MethodDeclaration,
+function verifyNonReentrant(
+    spec: NonReentrantSpec,
+    methods: ts.MethodDeclaration[],
     sourceFile: ts.SourceFile,
+    storedFields: Map<string, string>,
+    callGraph: CallGraph,
 ): VerificationResult {
-    const bodyText = getMethodBodyText(method, sourceFile);
-    const externalCalls = findBlockchainCalls(method, sourceFile);
+    const outcomes = methods.map((m) => ({ name: getMethodName(m), ...checkReentrancy(m, sourceFile, storedFields, callGraph) }));
+    const violated = outcomes.find((o) => o.violation);
+    if (violated) {
+        return makeResult(spec, 'VIOLATED', violated.violation!, violated.details);
+    }
+    if (spec.methodName) {
+        return makeResult(spec, 'VERIFIED', outcomes[0].summary);
+    }
+    if (outcomes.length === 0) {
+        return makeResult(spec, 'VERIFIED', 'No entry point makes external calls');
+    }
+    return makeResult(
+        spec,
+        'VERIFIED',
+        `All ${outcomes.length} entry point(s) with external calls are safe from reentrancy: ${outcomes.map((o) => `${o.name}()`).join(', ')}`,
+        outcomes.map((o) => `  ${o.summary}`).join('\n'),
+    );
+}
 
-    if (externalCalls.length === 0) {
-        return makeResult(
-            callSpec,
-            'VIOLATED',
-            `${callSpec.methodName}() specifies @calls ${callSpec.target} but has no Blockchain.call()`,
+interface ReentrancyEvent {
+    kind: 'call' | 'check' | 'acquire' | 'release' | 'read';
+    /** Where it happens in the checked method: the code itself, or the helper call leading to it */
+    pos: number;
+    end: number;
+    /** Order among the events of one helper call */
+    seq: number;
+    line: number;
+    field?: string;
+    via: string[];
+    node: number;
+}
+
+/**
+ * Check one method. An external call is safe when it runs under a lock — a
+ * StoredBoolean that a guard checks, that is set to true on every path to the
+ * call and back to false on every normal path after it — or when no entry
+ * point that can run during the call writes a stored field the method reads
+ * after the call returns. Entry points that check the lock cannot run during
+ * a locked call.
+ */
+function checkReentrancy(
+    method: ts.MethodDeclaration,
+    sourceFile: ts.SourceFile,
+    storedFields: Map<string, string>,
+    callGraph: CallGraph,
+): { summary: string; violation?: string; details?: string } {
+    const name = getMethodName(method);
+    const storedNames = new Set(storedFields.keys());
+    const lockFields = [...storedFields].filter(([, type]) => type === 'StoredBoolean').map(([field]) => field);
+    const cfg = buildControlFlowGraph(method, sourceFile);
+    const lineOf = (pos: number) => sourceFile.getLineAndCharacterOfPosition(pos).line + 1;
+
+    // Helper calls stand for everything the helper does, in its source order
+    const events: ReentrancyEvent[] = [];
+    const add = (event: Omit<ReentrancyEvent, 'node'>) => {
+        const node = cfgNodeAt(cfg, event.pos, sourceFile);
+        if (node) events.push({ ...event, node: node.id });
+    };
+    for (const e of reentrancyEvents(method, sourceFile, storedNames, lockFields)) {
+        add({ ...e, seq: 0, line: lineOf(e.pos), via: [] });
+    }
+    for (const site of callGraph.calls.get(name) ?? []) {
+        if (site.callee === name) continue;
+        let seq = 0;
+        for (const r of reachableMethods(callGraph, callGraph.methods.get(site.callee)!, MAX_HELPER_DEPTH - 1)) {
+            for (const e of reentrancyEvents(r.method, sourceFile, storedNames, lockFields)) {
+                add({ ...e, pos: site.pos, end: site.pos, seq: ++seq, line: lineOf(e.pos), via: [site.callee, ...r.via] });
+            }
+        }
+    }
+
+    const calls = events.filter((e) => e.kind === 'call');
+    if (calls.length === 0) {
+        return { summary: `${name}() makes no external calls` };
+    }
+
+    const precedes = (a: ReentrancyEvent, b: ReentrancyEvent) => (a.pos === b.pos ? a.seq < b.seq : a.end <= b.pos);
+    const runsBefore = (a: ReentrancyEvent, b: ReentrancyEvent) =>
+        a.node === b.node ? precedes(a, b) : dominates(cfg, a.node, b.node);
+    const throwNodes = cfg.nodes.filter((n) => n.node && ts.isThrowStatement(n.node)).map((n) => n.id);
+
+    const wraps = (field: string, call: ReentrancyEvent): boolean => {
+        const ofField = (kind: ReentrancyEvent['kind']) => events.filter((e) => e.kind === kind && e.field === field);
+        const acquired = ofField('acquire').some(
+            (a) => runsBefore(a, call) && ofField('check').some((check) => runsBefore(check, a)),
         );
+        if (!acquired) return false;
+        const releases = ofField('release');
+        if (releases.some((r) => r.node === call.node && precedes(call, r))) return true;
+        // Reverting paths roll the lock back with everything else
+        const blocked = new Set([...releases.map((r) => r.node).filter((id) => id !== call.node), ...throwNodes]);
+        return !reachableNodes(cfg, call.node, blocked).has(cfg.exit);
+    };
+    const lock = lockFields.find((field) => calls.every((call) => wraps(field, call)));
+
+    const readsAfter: { call: ReentrancyEvent; read: ReentrancyEvent }[] = [];
+    for (const call of calls) {
+        const after = reachableNodes(cfg, call.node);
+        for (const read of events) {
+            if (read.kind !== 'read' || read.field === lock) continue;
+            if (after.has(read.node) || (read.node === call.node && precedes(call, read))) {
+                readsAfter.push({ call, read });
+            }
+        }
     }
 
-    // Check if the target contract address is referenced
-    const targetField = callSpec.target.replace(/^this\./, '').replace(/\.value$/, '');
-    const targetReferenced = bodyText.includes(callSpec.target) || bodyText.includes(targetField);
+    // Other entry points first: cross-function reentrancy is the case CEI misses
+    const entries = entryPoints(callGraph);
+    const candidates = [...entries.filter((e) => e !== name), ...entries.filter((e) => e === name)];
+    let guarded = 0;
+    const conflicts: { entry: string; write: string; found: (typeof readsAfter)[number] }[] = [];
+    for (const entry of candidates) {
+        const reached = reachableMethods(callGraph, callGraph.methods.get(entry)!);
+        if (lock && reached.some((r) => findGuardChecks(r.method, sourceFile).some((g) => g.condition.includes(`this.${lock}.value`)))) {
+            guarded++;
+            continue;
+        }
+        for (const r of reached) {
+            for (const w of findStateWrites(r.method, sourceFile, storedNames)) {
+                const found = readsAfter.find((x) => x.read.field === w.field);
+                if (!found || conflicts.some((c) => c.entry === entry && c.found.read.field === w.field)) continue;
+                conflicts.push({ entry, write: `this.${w.field} at L${lineOf(w.pos)}${formatVia(r.via)}`, found });
+            }
+        }
+    }
 
-    if (!targetReferenced) {
-        return makeResult(
-            callSpec,
-            'VIOLATED',
-            `${callSpec.methodName}() specifies @calls to ${callSpec.target} but doesn't reference that target`,
+    if (conflicts.length > 0) {
+        const { entry, write, found } = conflicts[0];
+        const field = found.read.field!;
+        const where = `during Blockchain.call() at L${found.call.line}${formatVia(found.call.via)}`;
+        const read = `L${found.read.line}${formatVia(found.read.via)}`;
+        const violation = entry === name
+            ? `${name}() can re-enter itself ${where}: it writes ${write}, which it reads at ${read} after the call`
+            : `${name}() can be re-entered through ${entry}() ${where}: ${entry}() writes ${write}, which ${name}() reads at ${read} after the call`;
+        const fix = lock
+            ? `Check this.${lock} in ${entry}()`
+            : `Hold a reentrancy lock across the call, or read this.${field} before it`;
+        const others = conflicts.slice(1).map((c) => `  ${c.entry}()${c.entry === name ? ' itself' : ''} writes ${c.write}`);
+        return { summary: violation, violation, details: [...others, fix].join('\n') };
+    }
+
+    if (lock) {
+        const rest = guarded < candidates.length ? `; the other entry points write nothing ${name}() reads after the call` : '';
+        return { summary: `Every external call of ${name}() runs under reentrancy lock this.${lock}, checked by ${guarded} entry point(s)${rest}` };
+    }
+    const fields = [...new Set(readsAfter.map((x) => `this.${x.read.field}`))];
+    if (fields.length === 0) {
+        return { summary: `${name}() reads no stored state after its external call(s)` };
+    }
+    return { summary: `No entry point writes what ${name}() reads after its external call(s): ${fields.join(', ')}` };
+}
+
+/**
+ * External calls, lock checks, lock writes and stored reads in one method body.
+ */
+function reentrancyEvents(
+    method: ts.MethodDeclaration,
+    sourceFile: ts.SourceFile,
+    storedFields: Set<string>,
+    lockFields: string[],
+): { kind: ReentrancyEvent['kind']; pos: number; end: number; field?: string }[] {
+    const events: { kind: ReentrancyEvent['kind']; pos: number; end: number; field?: string }[] = [];
+    if (!method.body) return events;
+
+    for (const c of findBlockchainCalls(method, sourceFile)) {
+        events.push({ kind: 'call', pos: c.pos, end: c.pos + c.text.length });
+    }
+    for (const g of findGuardChecks(method, sourceFile)) {
+        for (const field of lockFields) {
+            if (g.condition.includes(`this.${field}.value`)) events.push({ kind: 'check', pos: g.pos, end: g.pos, field });
+        }
+    }
+    walkTree(method.body, (node) => {
+        if (!ts.isPropertyAccessExpression(node) || node.expression.kind !== ts.SyntaxKind.ThisKeyword) return;
+        const field = node.name.text;
+        if (!storedFields.has(field)) return;
+
+        const pos = node.getStart(sourceFile);
+        const member = node.parent;
+        const assignment = ts.isPropertyAccessExpression(member) && member.name.text === 'value' ? member.parent : undefined;
+        if (
+            assignment &&
+            ts.isBinaryExpression(assignment) &&
+            assignment.operatorToken.kind === ts.SyntaxKind.EqualsToken &&
+            assignment.left === member
+        ) {
+            // Plain writes are not reads; `= true` / `= false` on a StoredBoolean locks or unlocks
+            const value = assignment.right.kind;
+            if (lockFields.includes(field) && (value === ts.SyntaxKind.TrueKeyword || value === ts.SyntaxKind.FalseKeyword)) {
+                events.push({ kind: value === ts.SyntaxKind.TrueKeyword ? 'acquire' : 'release', pos, end: pos, field });
+            }
+            return;
+        }
+        if (ts.isPropertyAccessExpression(member) && member.name.text === 'set' && ts.isCallExpression(member.parent)) return;
+        events.push({ kind: 'read', pos, end: pos, field });
+    });
+    return events.sort((a, b) => a.pos - b.pos);
+}
+
+/**
+ * Verify a @pausable policy: every entry point that writes state or makes an
+ * external call (here or in a helper), other than the exceptions, needs a
+ * guard that reverts while the flag is set and runs before all of those
+ * effects. Each method that falls short is its own VIOLATED result.
+ */
+function verifyPausable(
+    spec: PausableSpec,
+    sourceFile: ts.SourceFile,
+    storedFields: Map<string, string>,
+    callGraph: CallGraph,
+    constants: Map<string, Term>,
+): VerificationResult[] {
+    const { field, exceptions } = spec;
+    const type = storedFields.get(field);
+    if (type !== 'StoredBoolean') {
+        const problem = type ? `is a ${type}, not a StoredBoolean` : 'is not a stored field';
+        return [makeResult(spec, 'MISSING', `Pause flag this.${field} ${problem}`)];
+    }
+
+    const results: VerificationResult[] = [];
+    for (const name of exceptions) {
+        if (!callGraph.methods.has(name)) {
+            results.push(makeResult(spec, 'MISSING', `Excepted method ${name}() not found`));
+        }
+    }
+
+    // The guard each method needs is the precondition "not paused"
+    const storedFieldNames = new Set(storedFields.keys());
+    const notPaused = `!this.${field}.value`;
+    const guarded: string[] = [];
+    for (const name of entryPoints(callGraph)) {
+        if (exceptions.includes(name)) continue;
+        const method = callGraph.methods.get(name)!;
+        const reached = reachableMethods(callGraph, method);
+        const changesState = reached.some(
+            (r) =>
+                findStateWrites(r.method, sourceFile, storedFieldNames).length > 0 ||
+                findBlockchainCalls(r.method, sourceFile).length > 0,
+        );
+        const cut = truncatedChain(callGraph, reached);
+        const cutOff = cut && makeResult(
+            spec,
+            'UNVERIFIED',
+            `${name}() calls helpers more than ${MAX_HELPER_DEPTH} levels deep${formatVia(cut.via)}; ` +
+                `the deeper ones were not checked for state changes or a check of this.${field}`,
         );
+        if (!changesState) {
+            if (cutOff) results.push(cutOff);
+            continue;
+        }
+
+        if (!reached.some((r) => getMethodBodyText(r.method, sourceFile).includes(`this.${field}.value`))) {
+            if (cutOff) {
+                results.push(cutOff);
+                continue;
+            }
+            results.push(
+                makeResult(
+                    spec,
+                    'VIOLATED',
+                    `${name}() changes state but never checks this.${field}`,
+                    `Add if (this.${field}.value) throw new Revert(...) before its first state write or external call, or list ${name} after except`,
+                ),
+            );
+            continue;
+        }
+        const pre: PreconditionSpec = {
+            ...spec,
+            tag: 'pre',
+            expression: notPaused,
+            parsed: parseSpecExpression(notPaused),
+            methodName: name,
+            fieldReferences: [field],
+        };
+        const outcome = verifyPrecondition(pre, method, sourceFile, storedFieldNames, callGraph, constants);
+        if (outcome.status === 'VERIFIED' && cutOff) {
+            results.push(cutOff);
+        } else if (outcome.status === 'VERIFIED') {
+            guarded.push(`${name}()`);
+        } else if (outcome.status === 'VIOLATED' && outcome.message.startsWith('Guard for')) {
+            results.push(makeResult(spec, 'VIOLATED', `${name}() checks this.${field} too late: ${outcome.message}`, outcome.details));
+        } else {
+            results.push(makeResult(spec, 'UNVERIFIED', `${name}() reads this.${field}, but no guard reverting while it is set was confirmed`));
+        }
     }
 
-    // Check the method name in the called method (look for selector encoding)
-    const calledMethodName = callSpec.calledMethod.replace(/\(.*\)$/, '');
-    if (calledMethodName) {
-        // Look for the selector or a reference to the method name
-        const selectorRef =
-            bodyText.includes(calledMethodName) ||
-            bodyText.includes(`Selector`) ||
-            bodyText.includes(`encodeSelector`);
+    if (results.length > 0) return results;
+    const except = exceptions.length > 0 ? ` (except ${exceptions.map((e) => `${e}()`).join(', ')})` : '';
+    if (guarded.length === 0) {
+        return [makeResult(spec, 'VERIFIED', `No entry point${except} changes state`)];
+    }
+    return [
+        makeResult(
+            spec,
+            'VERIFIED',
+            `All ${guarded.length} state-changing entry point(s)${except} revert while this.${field} is set: ${guarded.join(', ')}`,
+        ),
+    ];
+}
+
+/**
+ * Verify @temporal. Free text is informational. The structured forms compare
+ * `Blockchain.block.numberU256` with stored block numbers on every path that
+ * returns normally, with fields read at method entry:
+ * - `within N blocks of F`: block <= F + N
+ * - `not before F + N`: block >= F + N
+ * - `expires after N blocks`: the method stores the block number in a field
+ *   F, and some other entry point succeeds only before, or only after, F + N
+ */
+function verifyTemporal(
+    spec: TemporalSpec,
+    method: ts.MethodDeclaration | undefined,
+    sourceFile: ts.SourceFile,
+    storedFields: Set<string>,
+    symbolic: SymbolicContext,
+    callGraph: CallGraph,
+): VerificationResult {
+    const { form } = spec;
+    if (!form) {
+        return makeResult(
+            spec,
+            'UNVERIFIED',
+            `Temporal property "${spec.condition}" is free text — use \`within N blocks of this.field\`, \`not before this.field + N\` or \`expires after N blocks\` to have it checked`,
+        );
+    }
+    if (!method) return makeResult(spec, 'MISSING', `Method ${spec.methodName}() not found`);
+    const name = getMethodName(method);
+
+    if (form.kind !== 'expires') {
+        if (!storedFields.has(form.field)) {
+            return makeResult(spec, 'MISSING', `Temporal property refers to this.${form.field}, which is not a stored field`);
+        }
+        const operator = form.kind === 'within' ? '<=' : '>=';
+        const bound = `this.${form.field}.value + (${form.blocks})`;
+        const outcome = holdsOnReturn(`${BLOCK_NUMBER} ${operator} ${bound}`, method, symbolic);
+        const claim = form.kind === 'within' ? `only up to ${bound}` : `only from ${bound} on`;
+        if (outcome.status === 'proved') {
+            return makeResult(spec, 'VERIFIED', `${name}() succeeds ${claim} (${outcome.paths} returning path(s))`);
+        }
+        if (outcome.status === 'refuted') {
+            return makeResult(
+                spec,
+                'VIOLATED',
+                `${name}() can succeed ${form.kind === 'within' ? 'after' : 'before'} ${bound}`,
+                outcome.details,
+            );
+        }
+        return makeResult(spec, 'UNVERIFIED', `Could not decide whether ${name}() succeeds ${claim}`, outcome.details);
+    }
+
+    // expires: find the field stamped with the block number, then who enforces the deadline
+    const written = [...new Set(reachableMethods(callGraph, method).flatMap((r) => findStateWrites(r.method, sourceFile, storedFields).map((w) => w.field)))];
+    const stamp = written.find(
+        (field) => holdsOnReturn(`this.${field}.value == ${BLOCK_NUMBER}`, method, symbolic, false).status === 'proved',
+    );
+    if (!stamp) {
+        return makeResult(
+            spec,
+            'VIOLATED',
+            `${name}() does not store ${BLOCK_NUMBER} in a stored field on every returning path, so nothing can expire`,
+            written.length > 0 ? `Fields it writes: ${written.map((f) => `this.${f}`).join(', ')}` : undefined,
+        );
+    }
+
+    const deadline = `this.${stamp}.value + (${form.blocks})`;
+    const enforced: string[] = [];
+    for (const entry of entryPoints(callGraph)) {
+        if (entry === name) continue;
+        const other = callGraph.methods.get(entry)!;
+        if (holdsOnReturn(`${BLOCK_NUMBER} > ${deadline}`, other, symbolic).status === 'proved') {
+            enforced.push(`${entry}() succeeds only after it`);
+        } else if (holdsOnReturn(`${BLOCK_NUMBER} <= ${deadline}`, other, symbolic).status === 'proved') {
+            enforced.push(`${entry}() succeeds only until it`);
+        }
+    }
+    if (enforced.length === 0) {
+        return makeResult(
+            spec,
+            'VIOLATED',
+            `${name}() stores the block number in this.${stamp}, but no entry point compares ${BLOCK_NUMBER} with ${deadline}`,
+            'Guard the method that acts on expiry with if (Blockchain.block.numberU256 <= deadline) throw new Revert(...)',
+        );
+    }
+    return makeResult(
+        spec,
+        'VERIFIED',
+        `${name}() stores the block number in this.${stamp}, which expires at ${deadline}; ${enforced.join(', ')}`,
+    );
+}
+
+const BLOCK_NUMBER = 'Blockchain.block.numberU256';
+
+/**
+ * Whether a spec expression holds on every returning path of a method, read
+ * at method entry (`old`) or at return, optionally assuming a fact about the
+ * entry state. Methods that never return normally are left undecided.
+ */
+function holdsOnReturn(
+    text: string,
+    method: ts.MethodDeclaration,
+    symbolic: SymbolicContext,
+    old = true,
+    assume?: string,
+): { status: 'proved' | 'refuted' | 'unknown'; paths: number; details?: string } {
+    const expr = parseSpecExpression(text);
+    const assumption = assume === undefined ? undefined : parseSpecExpression(assume);
+    const execution = executeMethod(method, symbolic);
+    const returning = execution.paths.filter((p) => p.status === 'returned');
+    if (returning.length === 0 || execution.truncated) {
+        return { status: 'unknown', paths: returning.length, details: returning.length === 0 ? 'No path returns normally' : 'Too many paths' };
+    }
+
+    let undecided = 0;
+    for (const path of returning) {
+        const goal = evaluateSpec(expr, path, symbolic, old);
+        const fact = assumption && evaluateSpec(assumption, path, symbolic, true);
+        if (!goal || (assumption && !fact)) {
+            return { status: 'unknown', paths: returning.length, details: 'The expression uses constructs the symbolic executor does not model' };
+        }
+        const outcome = prove(fact ? [fact, ...path.conditions] : path.conditions, goal);
+        if (outcome.status === 'proved') continue;
+        if (outcome.status === 'refuted' && !path.approximate) {
+            return {
+                status: 'refuted',
+                paths: returning.length,
+                details: `Counterexample: ${formatModel(outcome.counterexample)}\nPath: ${path.trace.join(' → ') || '(straight line)'}`,
+            };
+        }
+        undecided++;
+    }
+    if (undecided > 0) {
+        return { status: 'unknown', paths: returning.length, details: `${undecided} of ${returning.length} path(s) undecided` };
+    }
+    return { status: 'proved', paths: returning.length };
+}
+
+/**
+ * Verify @calls specs — check that the method makes the specified cross-contract calls.
+ */
+function verifyCalls(
+    callSpec: CallsSpec,
+    method: ts.MethodDeclaration,
+    sourceFile: ts.SourceFile,
+    callGraph: CallGraph,
+): VerificationResult {
+    const bodies = reachableBodies(method, sourceFile, callGraph);
+    const bodyText = bodies.map((b) => b.text).join('\n');
+    const callers = bodies.filter((b) => b.text.includes('Blockchain.call'));
+    const externalCalls = reachableMethods(callGraph, method).flatMap((r) => findBlockchainCalls(r.method, sourceFile));
+    const via = callers.length > 0 ? formatVia(callers[0].via) : '';
+
+    if (externalCalls.length === 0) {
+        return makeResult(
+            callSpec,
+            'VIOLATED',
+            `${callSpec.methodName}() specifies @calls ${callSpec.target} but has no Blockchain.call()`,
+        );
+    }
+
+    // Check if the target contract address is referenced
+    const targetField = callSpec.target.replace(/^this\./, '').replace(/\.value$/, '');
+    const targetReferenced = bodyText.includes(callSpec.target) || bodyText.includes(targetField);
+
+    if (!targetReferenced) {
+        return makeResult(
+            callSpec,
+            'VIOLATED',
+            `${callSpec.methodName}() specifies @calls to ${callSpec.target} but doesn't reference that target`,
+        );
+    }
+
+    // Check the method name in the called method (look for selector encoding)
+    const calledMethodName = callSpec.calledMethod.replace(/\(.*\)$/, '');
+    if (calledMethodName) {
+        // Look for the selector or a reference to the method name
+        const selectorRef =
+            bodyText.includes(calledMethodName) ||
+            bodyText.includes(`Selector`) ||
+            bodyText.includes(`encodeSelector`);
+
+        if (!selectorRef) {
+            return makeResult(
+                callSpec,
+                'UNVERIFIED',
+                `${callSpec.methodName}() calls ${callSpec.target} but couldn't verify method '${calledMethodName}' is being called`,
+            );
+        }
+    }
+
+    // Check must-succeed expectation
+    if (callSpec.expectation === 'must-succeed') {
+        const checksSuccess =
+            bodyText.includes('.success') ||
+            bodyText.includes('result.success') ||
+            bodyText.includes('Revert');
+
+        if (!checksSuccess) {
+            return makeResult(
+                callSpec,
+                'VIOLATED',
+                `${callSpec.methodName}() specifies @calls -> must-succeed but doesn't check call result`,
+                'Check result.success and throw Revert on failure',
+            );
+        }
+    }
+
+    return makeResult(
+        callSpec,
+        'VERIFIED',
+        `${callSpec.methodName}() calls ${callSpec.target} with result checking${via}`,
+    );
+}
+
+/**
+ * Verify @view / @pure specs over the method and every helper it reaches.
+ *
+ * - @view: no state writes
+ * - @pure: additionally no stored-field reads and no Blockchain.call()
+ */
+function verifyPurity(
+    spec: PuritySpec,
+    method: ts.MethodDeclaration,
+    sourceFile: ts.SourceFile,
+    storedFields: Set<string>,
+    callGraph: CallGraph,
+): VerificationResult {
+    const lineOf = (pos: number) => sourceFile.getLineAndCharacterOfPosition(pos).line + 1;
+    const reached = reachableMethods(callGraph, method);
+    const offences: string[] = [];
+
+    for (const r of reached) {
+        const via = formatVia(r.via);
+        // A write is not reported again as a read of the same field
+        const seen = new Set<string>();
+        for (const w of findStateWrites(r.method, sourceFile, storedFields)) {
+            offences.push(`writes ${w.text} at L${lineOf(w.pos)}${via}`);
+            seen.add(`${w.field}:${lineOf(w.pos)}`);
+        }
+        if (spec.tag !== 'pure') continue;
+
+        for (const c of findBlockchainCalls(r.method, sourceFile)) {
+            offences.push(`calls Blockchain.call() at L${lineOf(c.pos)}${via}`);
+        }
+        walkTree(r.method, (node) => {
+            if (
+                ts.isPropertyAccessExpression(node) &&
+                node.expression.kind === ts.SyntaxKind.ThisKeyword &&
+                storedFields.has(node.name.text)
+            ) {
+                const line = lineOf(node.getStart(sourceFile));
+                const key = `${node.name.text}:${line}`;
+                if (seen.has(key)) return;
+                seen.add(key);
+                offences.push(`reads this.${node.name.text} at L${line}${via}`);
+            }
+        });
+    }
+
+    if (offences.length > 0) {
+        return makeResult(
+            spec,
+            'VIOLATED',
+            `${spec.methodName}() is declared @${spec.tag} but ${offences[0]}`,
+            offences.length > 1 ? offences.map((o) => `  ${o}`).join('\n') : undefined,
+        );
+    }
+    const cut = truncatedChain(callGraph, reached);
+    if (cut) {
+        return makeResult(
+            spec,
+            'UNVERIFIED',
+            `${spec.methodName}() calls helpers more than ${MAX_HELPER_DEPTH} levels deep${formatVia(cut.via)}; ` +
+                `the deeper ones were not checked for @${spec.tag}`,
+        );
+    }
+    const claim = spec.tag === 'pure'
+        ? 'reads and writes no stored state and makes no external calls'
+        : 'writes no stored state';
+    const helpers = reached.length > 1 ? ` (including ${reached.length - 1} helper(s))` : '';
+    return makeResult(spec, 'VERIFIED', `${spec.methodName}() ${claim}${helpers}`);
+}
+
+/**
+ * Verify @modifies frames.
+ *
+ * Every state write in the method, or in a helper it reaches, must fall inside
+ * the frame. A map entry `this.map[key]` admits only `.set()` calls whose key
+ * normalises to the same term once locals and helper parameters are
+ * substituted.
+ */
+function verifyModifies(
+    spec: ModifiesSpec,
+    method: ts.MethodDeclaration,
+    sourceFile: ts.SourceFile,
+    storedFields: Map<string, string>,
+    callGraph: CallGraph,
+    constants: Map<string, Term>,
+): VerificationResult {
+    const frame = spec.targets.map(formatFrameTarget).join(', ') || 'nothing';
+
+    const unknown = spec.targets.filter((t) => !storedFields.has(t.field));
+    if (unknown.length > 0) {
+        return makeResult(
+            spec,
+            'MISSING',
+            `@modifies lists ${unknown.map(formatFrameTarget).join(', ')} — not a stored field of the class`,
+        );
+    }
+    const keyedValue = spec.targets.find((t) => t.key !== undefined && !MAP_TYPES.has(storedFields.get(t.field)!));
+    if (keyedValue) {
+        return makeResult(
+            spec,
+            'MISSING',
+            `@modifies lists ${formatFrameTarget(keyedValue)}, but this.${keyedValue.field} is a ${storedFields.get(keyedValue.field)}, not a map`,
+            `Declare the whole field: this.${keyedValue.field}`,
+        );
+    }
+
+    const lineOf = (pos: number) => sourceFile.getLineAndCharacterOfPosition(pos).line + 1;
+    const storedFieldNames = new Set(storedFields.keys());
+    const rootBindings = withoutCalldataReads(collectLocalBindings(method, sourceFile));
+    const outside: string[] = [];
+    const undecided: string[] = [];
+    let writes = 0;
+
+    const reachedMethods = reachableMethods(callGraph, method);
+    for (const reached of reachedMethods) {
+        const bindings = reached.via.length === 0
+            ? rootBindings
+            : bindingsAlong(method, reached.via, sourceFile, callGraph, rootBindings);
+        for (const write of findStateWrites(reached.method, sourceFile, storedFieldNames)) {
+            writes++;
+            const key = write.key === undefined ? '' : `(${write.key}, …)`;
+            const where = `${write.text}${key} at L${lineOf(write.pos)}${formatVia(reached.via)}`;
+            const admitted = frameAdmits(spec.targets, write, bindings, rootBindings, constants);
+            if (admitted === false) outside.push(where);
+            else if (admitted === undefined) undecided.push(where);
+        }
+    }
+
+    if (outside.length > 0) {
+        return makeResult(
+            spec,
+            'VIOLATED',
+            `${spec.methodName}() writes ${outside[0]}, outside its frame (${frame})`,
+            `Writes outside the frame:\n${outside.map((w) => `  ${w}`).join('\n')}\n` +
+                'Add the field to @modifies or remove the write',
+        );
+    }
+    if (undecided.length > 0) {
+        return makeResult(
+            spec,
+            'UNVERIFIED',
+            `${spec.methodName}() writes ${undecided[0]}, whose key could not be compared with the frame (${frame})`,
+        );
+    }
+    const cut = truncatedChain(callGraph, reachedMethods);
+    if (cut) {
+        return makeResult(
+            spec,
+            'UNVERIFIED',
+            `${spec.methodName}() calls helpers more than ${MAX_HELPER_DEPTH} levels deep${formatVia(cut.via)}; ` +
+                `writes in the deeper ones were not checked against its frame (${frame})`,
+        );
+    }
+    if (writes === 0) {
+        return makeResult(spec, 'VERIFIED', `${spec.methodName}() writes no stored state (frame: ${frame})`);
+    }
+    return makeResult(
+        spec,
+        'VERIFIED',
+        `All ${writes} state write(s) of ${spec.methodName}() stay within its frame (${frame})`,
+    );
+}
+
+/**
+ * Whether a write falls inside the frame; undefined when a map key has no
+ * term form to compare.
+ */
+function frameAdmits(
+    targets: FrameTarget[],
+    write: StateWrite,
+    writeBindings: Bindings,
+    frameBindings: Bindings,
+    constants: Map<string, Term>,
+): boolean | undefined {
+    const entries = targets.filter((t) => t.field === write.field);
+    if (entries.length === 0) return false;
+    if (entries.some((t) => t.key === undefined)) return true;
+    if (write.key === undefined) return false;
+
+    const written = normalizeValue(write.key, writeBindings, constants);
+    let decided = true;
+    for (const entry of entries) {
+        const declared = normalizeValue(entry.key!, frameBindings, constants);
+        if (!written || !declared) {
+            if (write.key.replace(/\s+/g, '') === entry.key!.replace(/\s+/g, '')) return true;
+            decided = false;
+            continue;
+        }
+        if (termKey(written) === termKey(declared)) return true;
+        if (prove([], mkCmp('eq', written, declared)).status === 'proved') return true;
+    }
+    return decided ? false : undefined;
+}
+
+/**
+ * Bindings minus locals read from calldata: two reads give different values,
+ * so their names must stay apart when keys are compared.
+ */
+function withoutCalldataReads(bindings: Bindings): Bindings {
+    return new Map([...bindings].filter(([, value]) => !/\.read\w*\(/.test(formatSpecExpression(value))));
+}
+
+function formatFrameTarget(target: FrameTarget): string {
+    return target.key === undefined ? `this.${target.field}` : `this.${target.field}[${target.key}]`;
+}
+
+/**
+ * Verify @reverts-if / @reverts-only-if specs by symbolic execution.
+ *
+ * - No path may return normally when the condition holds (on the pre-state)
+ * - With a quoted message, the revert the condition causes must carry it
+ * - `-only-if`: every reverting path must satisfy one of the listed conditions
+ */
+function verifyReverts(
+    spec: RevertsSpec,
+    method: ts.MethodDeclaration,
+    symbolic: SymbolicContext,
+    listed: RevertsSpec[],
+): VerificationResult {
+    const expr = spec.expression.trim();
+    if (!spec.parsed) {
+        return makeResult(spec, 'UNVERIFIED', `Revert condition "${expr}" could not be parsed`);
+    }
+    const execution = executeMethod(method, symbolic);
+    if (execution.truncated) {
+        return makeResult(spec, 'UNVERIFIED', `${spec.methodName}() has too many paths to check "${expr}"`);
+    }
+
+    const conditionOn = (path: PathState) => evaluateSpec(spec.parsed!, path, symbolic, true);
+    const returning = execution.paths.filter((p) => p.status === 'returned');
+    const reverted = execution.paths.filter((p) => p.status === 'reverted');
+    const undecided: string[] = [];
+
+    // 1. The condition always leads to a revert
+    for (const [i, path] of returning.entries()) {
+        const condition = conditionOn(path);
+        if (!condition) {
+            return makeResult(spec, 'UNVERIFIED', `Revert condition "${expr}" uses constructs the symbolic executor does not model`);
+        }
+        const outcome = prove(path.conditions, mkNot(condition));
+        if (outcome.status === 'proved') continue;
+        if (outcome.status === 'refuted' && !path.approximate) {
+            return makeResult(
+                spec,
+                'VIOLATED',
+                `${spec.methodName}() returns normally when ${expr}`,
+                `Counterexample: ${formatModel(outcome.counterexample)}\nPath: ${path.trace.join(' → ') || '(straight line)'}`,
+            );
+        }
+        undecided.push(`returning path ${i + 1}/${returning.length}: could not rule out ${expr}`);
+    }
+
+    // 2. The revert it causes carries the quoted message
+    if (spec.message !== undefined && undecided.length === 0) {
+        const possible = reverted.filter((p) => {
+            const condition = conditionOn(p);
+            return condition && prove(p.conditions, mkNot(condition)).status !== 'proved';
+        });
+        const caused = possible.filter((p) => prove(p.conditions, conditionOn(p)!).status === 'proved');
+        const wrong = caused.find((p) => p.revertMessage !== spec.message);
+        if (wrong) {
+            return makeResult(
+                spec,
+                'VIOLATED',
+                `${spec.methodName}() reverts with ${quoteMessage(wrong.revertMessage)} when ${expr}, expected "${spec.message}"`,
+                `Path: ${wrong.trace.join(' → ')}`,
+            );
+        }
+        if (caused.length === 0 && !possible.some((p) => p.revertMessage === spec.message)) {
+            const found = [...new Set(possible.map((p) => quoteMessage(p.revertMessage)))];
+            return makeResult(
+                spec,
+                'VIOLATED',
+                `No revert for ${expr} in ${spec.methodName}() has the message "${spec.message}"`,
+                found.length > 0 ? `Messages on those paths: ${found.join(', ')}` : undefined,
+            );
+        }
+    }
+
+    // 3. -only-if: nothing else reverts
+    if (spec.tag === 'reverts-only-if' && undecided.length === 0) {
+        const parsed = listed.filter((r) => r.parsed);
+        for (const path of reverted) {
+            const conditions = parsed.map((r) => evaluateSpec(r.parsed!, path, symbolic, true));
+            if (conditions.some((c) => !c)) {
+                undecided.push(`revert ${quoteMessage(path.revertMessage)}: a listed condition could not be evaluated`);
+                continue;
+            }
+            const outcome = prove(path.conditions, mkOr(...(conditions as Term[])));
+            if (outcome.status === 'proved') continue;
+            if (outcome.status === 'refuted' && !path.approximate) {
+                return makeResult(
+                    spec,
+                    'VIOLATED',
+                    `${spec.methodName}() can revert with ${quoteMessage(path.revertMessage)} when no listed condition holds`,
+                    `Counterexample: ${formatModel(outcome.counterexample)}\nPath: ${path.trace.join(' → ')}\n` +
+                        'List the condition with @reverts-if, or use @reverts-if instead of @reverts-only-if',
+                );
+            }
+            undecided.push(`revert ${quoteMessage(path.revertMessage)}: could not show a listed condition holds`);
+        }
+    }
+
+    if (undecided.length > 0) {
+        return makeResult(spec, 'UNVERIFIED', `Could not decide "${expr}" for ${spec.methodName}()`, undecided.join('\n'));
+    }
+    const message = spec.message !== undefined ? ` with "${spec.message}"` : '';
+    const only = spec.tag === 'reverts-only-if' ? `, and each of its ${reverted.length} revert path(s) is covered by a listed condition` : '';
+    return makeResult(spec, 'VERIFIED', `${spec.methodName}() reverts whenever ${expr}${message}${only}`);
+}
+
+function quoteMessage(message: string | undefined): string {
+    return message === undefined ? '(no message)' : `"${message}"`;
+}
+
+function formatModel(model: Record<string, string> | undefined): string {
+    const text = Object.entries(model ?? {})
+        .map(([name, value]) => `${name} = ${value}`)
+        .join(', ');
+    return text || '(any input)';
+}
+
+/**
+ * Verify @emits specs.
+ *
+ * Every path of the method that returns normally (with `when`, every such
+ * path on which the condition can hold) must pass the event to
+ * this.emitEvent(). Each argument must be the one the spec names: the same
+ * text, or a value the prover shows equal on the path. The event
+ * constructor's parameter names only say which argument a spec name means.
+ */
+function verifyEmits(
+    spec: EmitsSpec,
+    method: ts.MethodDeclaration,
+    symbolic: SymbolicContext,
+    callGraph: CallGraph,
+): VerificationResult {
+    const names = new Set([spec.event, `${spec.event}Event`]);
+    const when = spec.condition ? ` when ${spec.condition}` : '';
+    const bodies = reachableBodies(method, symbolic.sourceFile, callGraph);
+    if (!bodies.some((b) => [...names].some((n) => new RegExp(`\\bnew\\s+${n}\\s*\\(`).test(b.text)))) {
+        return makeResult(
+            spec,
+            'VIOLATED',
+            `${spec.methodName}() never constructs ${spec.event}`,
+            `Expected this.emitEvent(new ${spec.event}(${spec.args.join(', ')}))${when}`,
+        );
+    }
+    if (spec.condition && !spec.parsed) {
+        return makeResult(spec, 'UNVERIFIED', `The when condition of @emits ${spec.event} could not be parsed`);
+    }
+
+    const execution = executeMethod(method, symbolic);
+    const returning = execution.paths.filter((p) => p.status === 'returned');
+    if (returning.length === 0) {
+        return makeResult(spec, 'UNVERIFIED', `${spec.methodName}() never returns normally`);
+    }
+
+    const expected = spec.args.map((a) => {
+        try {
+            return parseSpecExpression(a);
+        } catch {
+            return undefined;
+        }
+    });
+    const undecided: string[] = [];
+    let required = 0;
+
+    for (const [i, path] of returning.entries()) {
+        const label = `path ${i + 1}/${returning.length}`;
+        const facts = [...path.conditions];
+        let conditionRefuted = true;
+        if (spec.parsed) {
+            const condition = evaluateSpec(spec.parsed, path, symbolic);
+            if (!condition) {
+                undecided.push(`${label}: the when condition uses constructs the symbolic executor does not model`);
+                continue;
+            }
+            const skip = prove(path.conditions, mkNot(condition));
+            if (skip.status === 'proved') continue;
+            conditionRefuted = skip.status === 'refuted';
+            facts.push(condition);
+        }
+        required++;
+
+        const emitted = path.events.filter((e) => names.has(e.name));
+        if (emitted.length === 0) {
+            if (path.approximate || !conditionRefuted) {
+                undecided.push(`${label}: ${spec.event} not emitted, but the path is over-approximated`);
+                continue;
+            }
+            return makeResult(
+                spec,
+                'VIOLATED',
+                `${spec.methodName}() can return without emitting ${spec.event}${when}`,
+                `Path: ${path.trace.join(' → ') || '(straight line)'}`,
+            );
+        }
+
+        const comparisons = emitted.map((e) => compareEventArgs(spec, expected, e, facts, path, symbolic));
+        if (comparisons.some((c) => c.status === 'match')) continue;
+        const mismatch = comparisons.find((c) => c.status === 'mismatch');
+        if (mismatch && !path.approximate && comparisons.every((c) => c.status === 'mismatch')) {
+            return makeResult(
+                spec,
+                'VIOLATED',
+                `${spec.methodName}() emits ${spec.event} with different arguments: ${mismatch.reason}`,
+                `Path: ${path.trace.join(' → ') || '(straight line)'}`,
+            );
+        }
+        undecided.push(`${label}: ${(mismatch ?? comparisons[0]).reason}`);
+    }
+
+    if (undecided.length > 0) {
+        return makeResult(
+            spec,
+            'UNVERIFIED',
+            `Could not show that ${spec.methodName}() emits ${spec.event}${when} on every returning path`,
+            undecided.join('\n'),
+        );
+    }
+    if (execution.truncated) {
+        return makeResult(spec, 'UNVERIFIED', `${spec.methodName}() has too many paths to check @emits ${spec.event}`);
+    }
+    if (required === 0) {
+        return makeResult(
+            spec,
+            'UNVERIFIED',
+            `@emits ${spec.event}: ${spec.condition} never holds on a returning path of ${spec.methodName}()`,
+        );
+    }
+    const scope = spec.condition
+        ? `the ${required} of ${returning.length} returning path(s) where ${spec.condition}`
+        : `all ${required} returning path(s)`;
+    return makeResult(
+        spec,
+        'VERIFIED',
+        `${spec.methodName}() emits ${spec.event} with the specified arguments on ${scope}`,
+    );
+}
+
+/**
+ * Compare one emitted event with the spec's arguments. A spec argument that
+ * names a parameter of the event constructor is compared with the argument
+ * in that parameter's position; any other is compared position by position.
+ */
+function compareEventArgs(
+    spec: EmitsSpec,
+    expected: (SpecExpression | undefined)[],
+    event: EmittedEvent,
+    facts: Term[],
+    path: PathState,
+    symbolic: SymbolicContext,
+): { status: 'match' | 'mismatch' | 'unknown'; reason: string } {
+    const at = `at L${event.line}`;
+    if (event.args.length !== spec.args.length) {
+        return {
+            status: 'mismatch',
+            reason: `${event.name} ${at} takes ${event.args.length} argument(s), the spec lists ${spec.args.length}`,
+        };
+    }
+
+    // Spec arguments named after constructor parameters go to that position,
+    // unless two of them would land on the same one
+    const params = eventParameterNames(event.name, symbolic.sourceFile);
+    const named = spec.args.map((name, i) => (params && params.indexOf(name) >= 0 ? params.indexOf(name) : i));
+    const positions = new Set(named).size === named.length ? named : spec.args.map((_, i) => i);
+    for (const [i, name] of spec.args.entries()) {
+        const position = positions[i];
+        const text = event.argText[position];
+        if (text.replace(/\s+/g, '') === name.replace(/\s+/g, '')) continue;
+
+        const want = expected[i] && evaluateSpec(expected[i]!, path, symbolic);
+        const got = event.args[position];
+        if (!want || !got) {
+            return {
+                status: 'unknown',
+                reason: `could not compare argument ${position + 1} (${text}) ${at} with ${name}`,
+            };
+        }
+        const outcome = prove(facts, mkCmp('eq', got, want));
+        if (outcome.status === 'proved') continue;
+        return {
+            status: outcome.status === 'refuted' ? 'mismatch' : 'unknown',
+            reason: `argument ${position + 1} ${at} is ${text}, not ${name}`,
+        };
+    }
+    return { status: 'match', reason: '' };
+}
+
+/**
+ * Constructor parameter names of an event class declared in the file.
+ */
+function eventParameterNames(eventClass: string, sourceFile: ts.SourceFile): string[] | undefined {
+    const decl = findClassDeclarations(sourceFile).find((c) => getClassName(c) === eventClass);
+    const ctor = decl?.members.find(ts.isConstructorDeclaration);
+    return ctor?.parameters.map((p) => p.name.getText(sourceFile));
+}
+
+/** A @statefield resolved against the class: state name → spec expression */
+interface StateMachine {
+    field: string;
+    states: Map<string, string>;
+    /** `this.field.value == A || ...`, once proved to hold in every state */
+    domain?: string;
+}
 
-        if (!selectorRef) {
-            return makeResult(
-                callSpec,
-                'UNVERIFIED',
-                `${callSpec.methodName}() calls ${callSpec.target} but couldn't verify method '${calledMethodName}' is being called`,
-            );
-        }
+/**
+ * Verify a @statefield declaration and resolve it for the @state checks.
+ * Every state named in a transition must resolve, and the field must hold
+ * one of the states initially and after every method that writes it.
+ */
+function verifyStateField(
+    spec: StateFieldSpec,
+    transitions: StateSpec[],
+    storedFields: Map<string, string>,
+    symbolic: SymbolicContext,
+    callGraph: CallGraph,
+): { result: VerificationResult; machine?: StateMachine } {
+    const type = storedFields.get(spec.field);
+    if (!type || MAP_TYPES.has(type)) {
+        return { result: makeResult(spec, 'MISSING', `this.${spec.field} is not a stored value field`) };
     }
 
-    // Check must-succeed expectation
-    if (callSpec.expectation === 'must-succeed') {
-        const checksSuccess =
-            bodyText.includes('.success') ||
-            bodyText.includes('result.success') ||
-            bodyText.includes('Revert');
+    const stateNames = new Set(spec.states.map((s) => s.name));
+    for (const st of transitions) {
+        stateNames.add(st.transition.fromState.replace(/^!/, ''));
+        stateNames.add(st.transition.toState.replace(/^!/, ''));
+    }
+    const states = new Map<string, string>();
+    const unresolved: string[] = [];
+    for (const name of stateNames) {
+        const value = resolveState(name, spec, symbolic.constants);
+        if (value === undefined) unresolved.push(name);
+        else states.set(name, value);
+    }
+    if (unresolved.length > 0) {
+        const where = spec.states.length > 0 ? 'declared in @statefield' : 'a class or module constant';
+        return { result: makeResult(spec, 'MISSING', `State(s) ${unresolved.join(', ')} not ${where}`) };
+    }
+    const machine: StateMachine = { field: spec.field, states };
+    if (states.size === 0) {
+        return { result: makeResult(spec, 'UNVERIFIED', `No states to check for this.${spec.field}`), machine };
+    }
 
-        if (!checksSuccess) {
-            return makeResult(
-                callSpec,
+    // The field holds a state in every reachable state of the contract
+    const domain = [...states.values()].map((v) => `this.${spec.field}.value == ${v}`).join(' || ');
+    const induction = proveByInduction(parseSpecExpression(domain), symbolic, entryPoints(callGraph));
+    const names = [...states.keys()].join(', ');
+    if (induction.status === 'proved') {
+        const writers = induction.methods.map((m) => `${m}()`).join(', ') || 'no method';
+        return {
+            result: makeResult(spec, 'VERIFIED', `this.${spec.field} only ever holds ${names}: initially and after ${writers}`),
+            machine: { ...machine, domain },
+        };
+    }
+
+    const failure = induction.failure!;
+    const where = failure.step === 'initial'
+        ? failure.methodName ? 'after onDeployment()' : 'in zeroed storage'
+        : `after ${failure.methodName}()`;
+    if (induction.status === 'refuted') {
+        return {
+            result: makeResult(
+                spec,
                 'VIOLATED',
-                `${callSpec.methodName}() specifies @calls -> must-succeed but doesn't check call result`,
-                'Check result.success and throw Revert on failure',
-            );
-        }
+                `this.${spec.field} can hold a value other than ${names} ${where}`,
+                `Counterexample: ${formatModel(failure.counterexample)}\nPath: ${failure.path?.trace.join(' → ') || '(straight line)'}`,
+            ),
+            machine,
+        };
     }
+    return {
+        result: makeResult(spec, 'UNVERIFIED', `Could not prove that this.${spec.field} only holds ${names} ${where}: ${failure.reason}`),
+        machine,
+    };
+}
+
+/**
+ * Check a transition against a resolved @statefield: every returning path
+ * must start in the from-state and end in the to-state. `[when ...]`
+ * conditions are documentation here; @pre and @temporal check them.
+ */
+function verifyTypedTransition(
+    stateSpec: StateSpec,
+    method: ts.MethodDeclaration,
+    machine: StateMachine,
+    symbolic: SymbolicContext,
+): VerificationResult {
+    const { fromState, toState } = stateSpec.transition;
+    const name = getMethodName(method);
+    const field = `this.${machine.field}.value`;
+    const test = (state: string) => {
+        const value = machine.states.get(state.replace(/^!/, ''))!;
+        return `${field} ${state.startsWith('!') ? '!=' : '=='} ${value}`;
+    };
+    const describe = (state: string) => (state.startsWith('!') ? `not ${state.slice(1)}` : state);
 
+    // A proved @statefield domain rules out values no method can store
+    const guard = holdsOnReturn(test(fromState), method, symbolic, true, machine.domain);
+    if (guard.status === 'refuted') {
+        return makeResult(stateSpec, 'VIOLATED', `${name}() can succeed when this.${machine.field} is ${describe(negate(fromState))}`, guard.details);
+    }
+    const write = holdsOnReturn(test(toState), method, symbolic, false, machine.domain);
+    if (write.status === 'refuted') {
+        return makeResult(stateSpec, 'VIOLATED', `${name}() can return with this.${machine.field} ${describe(negate(toState))}`, write.details);
+    }
+    if (guard.status !== 'proved' || write.status !== 'proved') {
+        const open = guard.status !== 'proved' ? `starts in ${describe(fromState)}` : `ends in ${describe(toState)}`;
+        return makeResult(
+            stateSpec,
+            'UNVERIFIED',
+            `Could not decide whether every successful ${name}() ${open}`,
+            (guard.status !== 'proved' ? guard : write).details,
+        );
+    }
     return makeResult(
-        callSpec,
+        stateSpec,
         'VERIFIED',
-        `${callSpec.methodName}() calls ${callSpec.target} with result checking`,
+        `${name}(): ${fromState} -> ${toState} — every successful call starts with ${test(fromState)} and ends with ${test(toState)} (${guard.paths} returning path(s))`,
     );
 }
 
+function negate(state: string): string {
+    return state.startsWith('!') ? state.slice(1) : `!${state}`;
+}
+
 /**
  * Verify @state transition specs.
  *
- * For each state transition, check that:
+ * With a @statefield the transition is checked precisely (see
+ * verifyTypedTransition). Without one, check structurally that:
  * 1. The method has a guard for the "from" state
  * 2. The method transitions to the "to" state
  */
@@ -417,7 +1874,11 @@ function verifyStateTransition(
     stateSpec: StateSpec,
     method: ts.MethodDeclaration,
     sourceFile: ts.SourceFile,
+    machine: StateMachine | undefined,
+    symbolic: SymbolicContext,
 ): VerificationResult {
+    if (machine) return verifyTypedTransition(stateSpec, method, machine, symbolic);
+
     const bodyText = getMethodBodyText(method, sourceFile);
     const transition = stateSpec.transition;
 
@@ -465,8 +1926,7 @@ function verifyStateTransition(
 
     // Check for condition if specified
     if (transition.condition) {
-        const conditionTerms = extractKeyTerms(transition.condition);
-        const conditionMatched = conditionTerms.some((t) => bodyLower.includes(t.toLowerCase()));
+        const conditionMatched = conditionNames(transition.condition).some((t) => bodyLower.includes(t.toLowerCase()));
         if (!conditionMatched) {
             return makeResult(
                 stateSpec,
@@ -493,81 +1953,189 @@ function verifyStateTransition(
 }
 
 /**
- * Verify @invariant specs.
- *
- * For V1, check that all methods that modify fields mentioned in the invariant
- * have some relationship-preserving logic (very basic).
+ * Verify @invariant specs. Bound invariants go to interval analysis,
+ * quantified and aggregate ones to a single induction proof, and the rest
+ * get an induction proof per method, so each writer gets its own verdict.
  */
 function verifyInvariant(
     invariant: InvariantSpec,
-    classDecl: ts.ClassDeclaration,
-    sourceFile: ts.SourceFile,
-    allMethods: Map<string, ts.MethodDeclaration>,
+    symbolic: SymbolicContext,
+    callGraph: CallGraph,
 ): VerificationResult[] {
-    const results: VerificationResult[] = [];
+    if (needsInduction(invariant.parsed)) {
+        return [verifyInductiveInvariant(invariant, symbolic, callGraph)];
+    }
+    const bounds = invariant.parsed && invariantBounds(invariant.parsed, symbolic);
+    if (bounds) {
+        // Intervals lose relations between fields; when they are
+        // inconclusive, the path-by-path induction may still decide
+        const results = verifyBoundsInvariant(invariant, bounds, symbolic, callGraph);
+        if (!results.some((r) => r.status === 'UNVERIFIED')) return results;
+        return verifyInvariantPerMethod(invariant, invariant.parsed!, symbolic, callGraph);
+    }
 
-    if (invariant.fieldReferences.length === 0) {
-        results.push(
+    if (!invariant.parsed || invariant.fieldReferences.length === 0) {
+        return [
             makeResult(
                 invariant,
                 'UNVERIFIED',
                 `Invariant "${invariant.expression}" references no this.X.value fields — can't verify statically`,
             ),
-        );
-        return results;
+        ];
+    }
+    const unknown = invariant.fieldReferences.filter((f) => !symbolic.storedFields.has(f));
+    if (unknown.length > 0) {
+        return [
+            makeResult(
+                invariant,
+                'MISSING',
+                `Invariant "${invariant.expression}" — ${unknown.map((f) => `this.${f}`).join(', ')} ${unknown.length === 1 ? 'is not a stored field' : 'are not stored fields'}`,
+            ),
+        ];
     }
+    return verifyInvariantPerMethod(invariant, invariant.parsed, symbolic, callGraph);
+}
+
+/**
+ * Prove an invariant by induction, one result per step: it holds after
+ * deployment (constructor and onDeployment()), and each entry point that
+ * writes its fields preserves it when it holds on entry.
+ */
+function verifyInvariantPerMethod(
+    invariant: InvariantSpec,
+    expr: SpecExpression,
+    symbolic: SymbolicContext,
+    callGraph: CallGraph,
+): VerificationResult[] {
+    const results: VerificationResult[] = [];
+    const details = (failure: InductionFailure) => {
+        const model = Object.entries(failure.counterexample ?? {})
+            .map(([name, value]) => `${name} = ${value}`)
+            .join(', ');
+        return `Counterexample: ${model || '(any input)'}\nPath: ${failure.path?.trace.join(' → ') || '(straight line)'}`;
+    };
 
-    // Find all methods that modify the invariant's fields
-    const modifyingMethods: string[] = [];
+    const initial = proveInitially(expr, symbolic);
+    const deployment = symbolic.methods.has('onDeployment') ? 'after onDeployment()' : 'after deployment (zeroed storage)';
+    if (initial?.counterexample) {
+        results.push(makeResult(invariant, 'VIOLATED', `Invariant "${invariant.expression}" does not hold ${deployment}`, details(initial)));
+    } else if (initial) {
+        results.push(makeResult(invariant, 'UNVERIFIED', `Invariant "${invariant.expression}" — could not prove it holds ${deployment}: ${initial.reason}`));
+    }
 
-    for (const [methodName, method] of allMethods) {
-        const bodyText = getMethodBodyText(method, sourceFile);
-        for (const field of invariant.fieldReferences) {
-            if (bodyText.includes(`this.${field}.value`) || bodyText.includes(`this.${field}.set`)) {
-                modifyingMethods.push(methodName);
-                break;
-            }
+    const steps = proveInductionSteps(expr, symbolic, entryPoints(callGraph));
+    for (const step of steps) {
+        const method = `${step.methodName}()`;
+        if (step.status === 'proved') {
+            results.push(makeResult(invariant, 'VERIFIED', `Invariant "${invariant.expression}" is preserved by ${method} (${step.paths} path(s))`));
+        } else if (step.status === 'refuted') {
+            results.push(makeResult(invariant, 'VIOLATED', `Invariant "${invariant.expression}" does not hold after ${method}`, details(step.failure!)));
+        } else {
+            results.push(makeResult(invariant, 'UNVERIFIED', `Invariant "${invariant.expression}" — could not prove ${method} preserves it: ${step.failure!.reason}`));
         }
     }
 
-    if (modifyingMethods.length === 0) {
+    if (results.length === 0) {
+        results.push(makeResult(invariant, 'VERIFIED', `Invariant "${invariant.expression}" holds initially and no method modifies the referenced fields`));
+    } else if (!initial) {
+        results.unshift(makeResult(invariant, 'VERIFIED', `Invariant "${invariant.expression}" holds ${deployment}`));
+    }
+    return results;
+}
+
+/**
+ * Verify a range invariant such as `this.fee.value <= MAX_FEE` by interval
+ * analysis: the fields start within their bounds, and each entry point that
+ * writes one keeps it there when they are within bounds on entry.
+ */
+function verifyBoundsInvariant(
+    invariant: InvariantSpec,
+    bounds: Map<string, Interval>,
+    symbolic: SymbolicContext,
+    callGraph: CallGraph,
+): VerificationResult[] {
+    const check = checkBounds(bounds, symbolic, entryPoints(callGraph));
+    const trace = (step: BoundsStep) => (step.path?.trace.length ? `Path: ${step.path.trace.join(' → ')}` : undefined);
+    const after = (step: BoundsStep) => (step.methodName ? `after ${step.methodName}()` : 'on zeroed storage');
+
+    const initial = check.initial.find((s) => !s.holds);
+    if (initial?.definite) {
+        return [makeResult(invariant, 'VIOLATED', `Invariant "${invariant.expression}" does not hold after deployment: this.${initial.field}.value is ${formatInterval(initial.range)} ${after(initial)}`, trace(initial))];
+    }
+
+    const results: VerificationResult[] = [];
+    if (initial) {
+        results.push(makeResult(invariant, 'UNVERIFIED', `Invariant "${invariant.expression}" — interval analysis only bounds this.${initial.field}.value to ${formatInterval(initial.range)} ${after(initial)}`));
+    }
+    for (const methodName of check.truncated) {
+        results.push(makeResult(invariant, 'UNVERIFIED', `Invariant "${invariant.expression}" — ${methodName}() has too many paths to bound`));
+    }
+    for (const step of check.steps.filter((s) => !s.holds)) {
         results.push(
             makeResult(
                 invariant,
-                'VERIFIED',
-                `Invariant "${invariant.expression}" — no methods modify the referenced fields (trivially maintained)`,
+                'UNVERIFIED',
+                `Invariant "${invariant.expression}" — interval analysis only bounds this.${step.field}.value to ${formatInterval(step.range)} ${after(step)}`,
+                trace(step),
             ),
         );
-        return results;
     }
+    if (results.length > 0) return results;
+
+    const fields = check.initial.map((initial) => {
+        const writers = check.steps.filter((s) => s.field === initial.field);
+        const kept = writers.length > 0
+            ? `${writers.map((s) => `${s.methodName}()`).join(', ')} keep${writers.length === 1 ? 's' : ''} it in ${formatInterval(writers.map((s) => s.range).reduce(join))}`
+            : 'no method writes it';
+        return `this.${initial.field}.value starts at ${formatInterval(initial.range)} and ${kept}`;
+    });
+    return [makeResult(invariant, 'VERIFIED', `Invariant "${invariant.expression}" holds by interval analysis: ${fields.join('; ')}`)];
+}
 
-    // For each modifying method, check if it has guards that could maintain the invariant
-    for (const methodName of modifyingMethods) {
-        const method = allMethods.get(methodName)!;
-        const bodyText = getMethodBodyText(method, sourceFile);
-        const hasChecks = bodyText.includes('Revert') || bodyText.includes('throw');
+/**
+ * Verify a forall/exists or sum/count/max invariant by induction: it must
+ * hold on zeroed storage after deployment, and each entry point that writes
+ * the fields or maps it reads must preserve it.
+ */
+function verifyInductiveInvariant(
+    invariant: InvariantSpec,
+    symbolic: SymbolicContext,
+    callGraph: CallGraph,
+): VerificationResult {
+    const induction = proveByInduction(invariant.parsed!, symbolic, entryPoints(callGraph));
+    const writers = induction.methods.map((m) => `${m}()`).join(', ');
 
-        if (hasChecks) {
-            results.push(
-                makeResult(
-                    invariant,
-                    'UNVERIFIED',
-                    `Invariant "${invariant.expression}" — ${methodName}() modifies fields [${invariant.fieldReferences.join(', ')}] and has guards, but full invariant maintenance requires symbolic execution`,
-                ),
-            );
-        } else {
-            results.push(
-                makeResult(
-                    invariant,
-                    'UNVERIFIED',
-                    `Invariant "${invariant.expression}" — ${methodName}() modifies fields [${invariant.fieldReferences.join(', ')}] with NO guard checks`,
-                    `Consider adding validation to maintain the invariant in ${methodName}()`,
-                ),
-            );
-        }
+    if (induction.status === 'proved') {
+        const step = writers
+            ? `preserved by ${writers} (${induction.paths} path(s))`
+            : 'no methods modify the referenced fields';
+        return makeResult(
+            invariant,
+            'VERIFIED',
+            `Invariant "${invariant.expression}" is inductive: holds initially and ${step}`,
+        );
     }
 
-    return results;
+    const failure = induction.failure!;
+    const where = failure.step === 'initial'
+        ? `after ${failure.methodName ? 'onDeployment()' : 'deployment (zeroed storage)'}`
+        : `after ${failure.methodName}()`;
+    if (induction.status === 'refuted') {
+        const model = Object.entries(failure.counterexample ?? {})
+            .map(([name, value]) => `${name} = ${value}`)
+            .join(', ');
+        return makeResult(
+            invariant,
+            'VIOLATED',
+            `Invariant "${invariant.expression}" does not hold ${where}`,
+            `Counterexample: ${model || '(any input)'}\nPath: ${failure.path?.trace.join(' → ') || '(straight line)'}`,
+        );
+    }
+    return makeResult(
+        invariant,
+        'UNVERIFIED',
+        `Invariant "${invariant.expression}" — could not prove it holds ${where}: ${failure.reason}`,
+    );
 }
 
 /**
@@ -651,6 +2219,303 @@ function verifyOpnetConstraint(
     }
 }
 
+// ============================================================================
+// Roles
+// ============================================================================
+
+/** Address-keyed maps that can hold role membership */
+const ROLE_MAP_TYPES = new Set(['AddressMemoryMap', 'StoredMapU256']);
+
+/** What enforces a role */
+type RoleCheck =
+    | { kind: 'address'; field: string }
+    | { kind: 'map'; field: string }
+    | { kind: 'call'; method: string };
+
+interface RoleDefinition {
+    name: string;
+    check: string;
+    /** Where the role was declared, for messages */
+    source: string;
+    resolved?: RoleCheck;
+    /** Why the check could not be resolved */
+    problem?: string;
+}
+
+/**
+ * Everything access checks need besides the method itself.
+ */
+interface AccessContext {
+    callGraph: CallGraph;
+    storedFields: Map<string, string>;
+    addressFields: string[];
+    constants: Map<string, Term>;
+    roles: Map<string, RoleDefinition>;
+}
+
+type RequirementCheck =
+    | { status: 'enforced'; evidence: string; via: string[] }
+    | { status: 'missing'; expected: string; partial?: string }
+    | { status: 'unknown'; reason: string };
+
+/**
+ * Roles declared with @role on the class, then those from the config file.
+ */
+function resolveRoles(
+    contract: ContractSpecs,
+    options: VerifyOptions,
+    storedFields: Map<string, string>,
+    callGraph: CallGraph,
+): Map<string, RoleDefinition> {
+    const roles = new Map<string, RoleDefinition>();
+    for (const role of contract.roles) {
+        if (roles.has(role.name)) continue;
+        roles.set(role.name, {
+            name: role.name,
+            check: role.check,
+            source: `L${role.line}`,
+            ...resolveRoleCheck(role.check, storedFields, callGraph),
+        });
+    }
+    for (const [name, check] of Object.entries(options.roles ?? {})) {
+        if (roles.has(name)) continue;
+        roles.set(name, { name, check, source: CONFIG_FILE_NAME, ...resolveRoleCheck(check, storedFields, callGraph) });
+    }
+    return roles;
+}
+
+function resolveRoleCheck(
+    check: string,
+    storedFields: Map<string, string>,
+    callGraph: CallGraph,
+): { resolved?: RoleCheck; problem?: string } {
+    const call = /^this\.(\w+)\(\)$/.exec(check);
+    if (call) {
+        return callGraph.methods.has(call[1])
+            ? { resolved: { kind: 'call', method: call[1] } }
+            : { problem: `${check} is not a method of the contract` };
+    }
+
+    const field = /^this\.(\w+)(?:\.value)?$/.exec(check);
+    if (!field) return { problem: `${check} is not a stored field or helper call` };
+    const type = storedFields.get(field[1]);
+    if (type === 'StoredAddress') return { resolved: { kind: 'address', field: field[1] } };
+    if (type && ROLE_MAP_TYPES.has(type)) return { resolved: { kind: 'map', field: field[1] } };
+    return {
+        problem: type
+            ? `this.${field[1]} is a ${type}, not a StoredAddress or address-keyed map`
+            : `this.${field[1]} is not a stored field of the contract`,
+    };
+}
+
+/**
+ * Check a class-level @role declaration against the contract.
+ */
+function verifyRoleDeclaration(role: RoleSpec, definition: RoleDefinition | undefined): VerificationResult {
+    if (!definition?.resolved) {
+        return makeResult(role, 'MISSING', `Role ${role.name}: ${definition?.problem ?? 'declaration not resolved'}`);
+    }
+    return makeResult(role, 'VERIFIED', `Role ${role.name} is enforced by ${describeRoleCheck(definition.resolved)}`);
+}
+
+function describeRoleCheck(check: RoleCheck): string {
+    switch (check.kind) {
+        case 'address':
+            return `Blockchain.tx.sender == this.${check.field}.value`;
+        case 'map':
+            return `a non-zero entry for Blockchain.tx.sender in this.${check.field}`;
+        case 'call':
+            return `a call to this.${check.method}()`;
+    }
+}
+
+/**
+ * `this.<map>.get(Blockchain.tx.sender) != 0`
+ */
+function senderInMap(field: string): Term {
+    return mkCmp('ne', mkVar(`this.${field}.get(${SENDER})`), mkConst(0n));
+}
+
+/**
+ * The requirement as a condition on the sender, when it has one.
+ */
+function requirementTerm(requirement: AccessRequirement, access: AccessContext): Term | undefined {
+    switch (requirement.kind) {
+        case 'anyone':
+            return TRUE;
+        case 'deployer':
+            return mkCmp('eq', mkVar(SENDER), mkVar('Blockchain.contractDeployer'));
+        case 'owner': {
+            const field = requirement.field ?? (access.addressFields.includes('owner') ? 'owner' : undefined);
+            return field ? senderIs(field) : undefined;
+        }
+        case 'role': {
+            const check = access.roles.get(requirement.role)?.resolved;
+            if (check?.kind === 'address') return senderIs(check.field);
+            if (check?.kind === 'map') return senderInMap(check.field);
+            return undefined;
+        }
+        case 'any-of': {
+            const options = requirement.options.map((o) => requirementTerm(o, access));
+            return options.every((o): o is Term => o !== undefined) ? mkOr(...options) : undefined;
+        }
+    }
+}
+
+/**
+ * Whether the method (or a helper it calls) enforces the requirement.
+ */
+function checkRequirement(
+    requirement: AccessRequirement,
+    method: ts.MethodDeclaration,
+    sourceFile: ts.SourceFile,
+    access: AccessContext,
+): RequirementCheck {
+    const guarded = (goal: Term, expected: string): RequirementCheck => {
+        const match = findEnforcingGuards(method, sourceFile, access.callGraph, goal, access.constants)[0];
+        return match
+            ? { status: 'enforced', evidence: `guard ${match.condition}`, via: match.via }
+            : { status: 'missing', expected };
+    };
+    const called = (names: string[], expected: string): RequirementCheck => {
+        const call = requiredCall(method, names, sourceFile, access.callGraph);
+        if (call?.everyReturn) return { status: 'enforced', evidence: `calls this.${call.name}()`, via: call.via };
+        return { status: 'missing', expected, partial: call && `calls this.${call.name}()${formatVia(call.via)}` };
+    };
+
+    switch (requirement.kind) {
+        case 'anyone':
+            return { status: 'enforced', evidence: 'anyone may call', via: [] };
+        case 'deployer': {
+            const call = called(['onlyDeployer'], 'onlyDeployer()');
+            return call.status === 'enforced' ? call : guarded(requirementTerm(requirement, access)!, 'onlyDeployer()');
+        }
+        case 'owner': {
+            const term = requirementTerm(requirement, access);
+            const guard = term ? guarded(term, `Blockchain.tx.sender == this.${requirement.field ?? 'owner'}.value`) : undefined;
+            if (guard?.status === 'enforced' || requirement.field) return guard!;
+            return called(['ensureOwner', 'onlyOwner'], 'an owner check');
+        }
+        case 'role': {
+            const definition = access.roles.get(requirement.role);
+            if (!definition) {
+                return {
+                    status: 'unknown',
+                    reason: `Role ${requirement.role} is not declared — add @role ${requirement.role} : <check> to the class or "roles" to ${CONFIG_FILE_NAME}`,
+                };
+            }
+            const check = definition.resolved;
+            if (!check) return { status: 'unknown', reason: `Role ${requirement.role} (${definition.source}): ${definition.problem}` };
+            if (check.kind === 'call') return called([check.method], describeRoleCheck(check));
+            return guarded(requirementTerm(requirement, access)!, describeRoleCheck(check));
+        }
+        case 'any-of': {
+            // One guard admitting exactly the listed callers
+            const combined = requirementTerm(requirement, access);
+            if (combined) {
+                const match = findEnforcingGuards(method, sourceFile, access.callGraph, combined, access.constants)[0];
+                if (match) return { status: 'enforced', evidence: `guard ${match.condition}`, via: match.via };
+            }
+            // Otherwise any single option is at least as strict
+            const checks = requirement.options.map((o) => checkRequirement(o, method, sourceFile, access));
+            const enforced = checks.find((c) => c.status === 'enforced');
+            if (enforced) return enforced;
+            const unknown = checks.find((c): c is Extract<RequirementCheck, { status: 'unknown' }> => c.status === 'unknown');
+            if (unknown) return unknown;
+            const expected = checks.map((c) => (c.status === 'missing' ? c.expected : '')).filter((e) => e);
+            return { status: 'missing', expected: expected.join(' or ') };
+        }
+    }
+}
+
+/**
+ * A call to one of `names` (a helper of the class or an inherited method) in
+ * the method or a helper it calls, and whether such calls run on every path
+ * that returns normally. A helper call counts at its call site when the
+ * helper itself makes the call on every returning path; each method on the
+ * chain is checked on its own CFG.
+ */
+function requiredCall(
+    method: ts.MethodDeclaration,
+    names: string[],
+    sourceFile: ts.SourceFile,
+    callGraph: CallGraph,
+    via: string[] = [],
+): { name: string; via: string[]; everyReturn: boolean } | undefined {
+    if (!method.body) return undefined;
+    const sites: { pos: number; name: string; via: string[] }[] = [];
+    let partial: { name: string; via: string[] } | undefined;
+
+    walkTree(method.body, (node) => {
+        if (
+            ts.isCallExpression(node) &&
+            ts.isPropertyAccessExpression(node.expression) &&
+            node.expression.expression.kind === ts.SyntaxKind.ThisKeyword &&
+            names.includes(node.expression.name.text)
+        ) {
+            sites.push({ pos: node.getStart(sourceFile), name: node.expression.name.text, via });
+        }
+    });
+    if (via.length < MAX_HELPER_DEPTH) {
+        const name = getMethodName(method);
+        for (const site of callGraph.calls.get(name) ?? []) {
+            if (names.includes(site.callee) || site.callee === name || via.includes(site.callee)) continue;
+            const inner = requiredCall(callGraph.methods.get(site.callee)!, names, sourceFile, callGraph, [...via, site.callee]);
+            if (inner?.everyReturn) sites.push({ pos: site.pos, name: inner.name, via: inner.via });
+            else if (inner) partial ??= inner;
+        }
+    }
+    if (sites.length === 0) return partial && { ...partial, everyReturn: false };
+
+    const cfg = buildControlFlowGraph(method, sourceFile);
+    const siteNodes = sites.map((site) => cfgNodeAt(cfg, site.pos, sourceFile)?.id);
+    if (siteNodes.some((id) => id === undefined)) return { ...sites[0], everyReturn: false };
+    // Nodes that leave the method other than by throwing
+    const returns = cfg.nodes.filter(
+        (n) => n.succ.some((e) => e.to === cfg.exit) && !(n.node && ts.isThrowStatement(n.node)),
+    );
+    return { ...sites[0], everyReturn: returns.every((n) => dominates(cfg, siteNodes as number[], n.id)) };
+}
+
+/**
+ * Verify `@access role(R)` and `@access any-of(...)`.
+ */
+function verifyRoleAccess(
+    accessSpec: AccessSpec,
+    requirement: AccessRequirement,
+    method: ts.MethodDeclaration,
+    sourceFile: ts.SourceFile,
+    access: AccessContext,
+): VerificationResult {
+    const level = accessSpec.expression.trim();
+    const check = checkRequirement(requirement, method, sourceFile, access);
+    switch (check.status) {
+        case 'enforced':
+            return makeResult(
+                accessSpec,
+                'VERIFIED',
+                `Method ${accessSpec.methodName}() enforces ${level}: ${check.evidence}${formatVia(check.via)}`,
+            );
+        case 'unknown':
+            return makeResult(accessSpec, 'UNVERIFIED', `Cannot check ${level} for ${accessSpec.methodName}(): ${check.reason}`);
+        case 'missing':
+            if (check.partial) {
+                return makeResult(
+                    accessSpec,
+                    'VIOLATED',
+                    `Method ${accessSpec.methodName}() is specified as ${level} but ${check.partial} only on some paths`,
+                    'Call it on every path that returns, before any state change',
+                );
+            }
+            return makeResult(
+                accessSpec,
+                'VIOLATED',
+                `Method ${accessSpec.methodName}() is specified as ${level} but never checks ${check.expected}`,
+                'Add the role check at the start of the method',
+            );
+    }
+}
+
 // ============================================================================
 // Main Verification Engine
 // ============================================================================
@@ -661,6 +2526,7 @@ function verifyOpnetConstraint(
 export function verifyContract(
     contract: ContractSpecs,
     sourceFile: ts.SourceFile,
+    options: VerifyOptions = {},
 ): VerificationReport {
     const results: VerificationResult[] = [];
 
@@ -684,16 +2550,77 @@ export function verifyContract(
 
     const storedFields = detectStoredFields(classDecl, sourceFile);
     const storedFieldNames = new Set(storedFields.keys());
+    const symbolic = buildSymbolicContext(classDecl, sourceFile);
+    const callGraph = buildCallGraph(classDecl);
+    const addressFields = [...storedFields].filter(([, type]) => type === 'StoredAddress').map(([name]) => name);
+    const roles = resolveRoles(contract, options, storedFields, callGraph);
+    const access: AccessContext = { callGraph, storedFields, addressFields, constants: symbolic.constants, roles };
+
+    // Frames come first (@view and @pure are empty frames): the invariant and
+    // path checks below rely on verified ones
+    const frames = new Map<string, VerificationResult>();
+    const purity = new Map<string, VerificationResult>();
+    for (const [methodName, methodSpecs] of contract.methods) {
+        const method = allMethods.get(methodName);
+        if (!method) continue;
+        if (methodSpecs.modifies) {
+            const frame = verifyModifies(methodSpecs.modifies, method, sourceFile, storedFields, callGraph, symbolic.constants);
+            frames.set(methodName, frame);
+            if (frame.status === 'VERIFIED') {
+                symbolic.frames.set(methodName, new Set(methodSpecs.modifies.targets.map((t) => t.field)));
+            }
+        }
+        if (methodSpecs.purity) {
+            const result = verifyPurity(methodSpecs.purity, method, sourceFile, storedFieldNames, callGraph);
+            purity.set(methodName, result);
+            // A verified @view or @pure is an empty frame
+            if (result.status === 'VERIFIED') symbolic.frames.set(methodName, new Set());
+        }
+    }
 
     // 1. Verify invariants
     for (const invariant of contract.invariants) {
-        results.push(...verifyInvariant(invariant, classDecl, sourceFile, allMethods));
+        results.push(...verifyInvariant(invariant, symbolic, callGraph));
     }
 
     // 2. Verify opnet constraints
     for (const opnet of contract.opnetConstraints) {
         results.push(verifyOpnetConstraint(opnet, classDecl, sourceFile));
     }
+    for (const role of contract.roles) {
+        results.push(verifyRoleDeclaration(role, roles.get(role.name)));
+    }
+    if (contract.nonreentrant) {
+        const callers = entryPoints(callGraph)
+            .map((name) => allMethods.get(name)!)
+            .filter((m) => reachableMethods(callGraph, m).some((r) => findBlockchainCalls(r.method, sourceFile).length > 0));
+        results.push(verifyNonReentrant(contract.nonreentrant, callers, sourceFile, storedFields, callGraph));
+    }
+    if (contract.pausable) {
+        results.push(...verifyPausable(contract.pausable, sourceFile, storedFields, callGraph, symbolic.constants));
+    }
+
+    let machine: StateMachine | undefined;
+    if (contract.stateField) {
+        const stateField = verifyStateField(contract.stateField, contract.stateTransitions, storedFields, symbolic, callGraph);
+        results.push(stateField.result);
+        machine = stateField.machine;
+    }
+    // Properties are checked on the declared transitions; the @state checks tie those to code
+    if (contract.stateProperties.length > 0) {
+        const graph = buildStateGraph(contract);
+        for (const prop of contract.stateProperties) {
+            const check = checkStateProperty(prop, graph);
+            results.push(makeResult(prop, check.holds ? 'VERIFIED' : 'VIOLATED', check.message));
+        }
+    }
+
+    // A temporal property may name another method than the one it is written on
+    const verifyTemporalOn = (temp: TemporalSpec): VerificationResult =>
+        verifyTemporal(temp, allMethods.get(temp.methodName ?? ''), sourceFile, storedFieldNames, symbolic, callGraph);
+    for (const temp of contract.temporal) {
+        results.push(verifyTemporalOn(temp));
+    }
 
     // 3. Verify method-level specs
     for (const [methodName, methodSpecs] of contract.methods) {
@@ -710,46 +2637,79 @@ export function verifyContract(
             for (const post of methodSpecs.postconditions) {
                 results.push(makeResult(post, 'MISSING', `Method ${methodName}() not found in class ${contract.className}`));
             }
+            for (const reverts of methodSpecs.reverts) {
+                results.push(makeResult(reverts, 'MISSING', `Method ${methodName}() not found in class ${contract.className}`));
+            }
+            for (const emits of methodSpecs.emits) {
+                results.push(makeResult(emits, 'MISSING', `Method ${methodName}() not found in class ${contract.className}`));
+            }
+            if (methodSpecs.purity) {
+                results.push(makeResult(methodSpecs.purity, 'MISSING', `Method ${methodName}() not found in class ${contract.className}`));
+            }
+            if (methodSpecs.nonreentrant) {
+                results.push(makeResult(methodSpecs.nonreentrant, 'MISSING', `Method ${methodName}() not found in class ${contract.className}`));
+            }
+            if (methodSpecs.modifies) {
+                results.push(makeResult(methodSpecs.modifies, 'MISSING', `Method ${methodName}() not found in class ${contract.className}`));
+            }
             for (const call of methodSpecs.calls) {
                 results.push(makeResult(call, 'MISSING', `Method ${methodName}() not found in class ${contract.className}`));
             }
+            for (const temp of methodSpecs.temporal) {
+                results.push(verifyTemporalOn(temp));
+            }
             continue;
         }
 
         // Verify access control
         if (methodSpecs.access) {
-            results.push(verifyAccess(methodSpecs.access, method, sourceFile));
+            results.push(verifyAccess(methodSpecs.access, method, sourceFile, access));
         }
 
         // Verify preconditions
         for (const pre of methodSpecs.preconditions) {
-            results.push(verifyPrecondition(pre, method, sourceFile));
+            results.push(verifyPrecondition(pre, method, sourceFile, storedFieldNames, callGraph, symbolic.constants));
         }
 
         // Verify postconditions
         for (const post of methodSpecs.postconditions) {
-            results.push(verifyPostcondition(post, method, sourceFile, storedFieldNames));
+            results.push(verifyPostcondition(post, method, sourceFile, storedFieldNames, symbolic, callGraph));
+        }
+
+        // Verify the write frame and purity
+        const frame = frames.get(methodName);
+        if (frame) results.push(frame);
+        const pure = purity.get(methodName);
+        if (pure) results.push(pure);
+
+        // Verify reentrancy safety
+        if (methodSpecs.nonreentrant) {
+            results.push(verifyNonReentrant(methodSpecs.nonreentrant, [method], sourceFile, storedFields, callGraph));
+        }
+
+        // Verify revert behaviour
+        for (const reverts of methodSpecs.reverts) {
+            results.push(verifyReverts(reverts, method, symbolic, methodSpecs.reverts));
+        }
+
+        // Verify events
+        for (const emits of methodSpecs.emits) {
+            results.push(verifyEmits(emits, method, symbolic, callGraph));
         }
 
         // Verify calls
         for (const call of methodSpecs.calls) {
-            results.push(verifyCalls(call, method, sourceFile));
+            results.push(verifyCalls(call, method, sourceFile, callGraph));
         }
 
         // Verify state transitions
         for (const st of methodSpecs.stateTransitions) {
-            results.push(verifyStateTransition(st, method, sourceFile));
+            results.push(verifyStateTransition(st, method, sourceFile, machine, symbolic));
         }
 
-        // Verify temporal specs (UNVERIFIED for V1)
+        // Verify temporal specs
         for (const temp of methodSpecs.temporal) {
-            results.push(
-                makeResult(
-                    temp,
-                    'UNVERIFIED',
-                    `Temporal property "${temp.condition}" requires runtime monitoring — not verifiable statically in V1`,
-                ),
-            );
+            results.push(verifyTemporalOn(temp));
         }
     }
 
@@ -765,7 +2725,7 @@ export function verifyContract(
         for (const methodName of st.transition.methods) {
             const method = allMethods.get(methodName);
             if (method) {
-                results.push(verifyStateTransition(st, method, sourceFile));
+                results.push(verifyStateTransition(st, method, sourceFile, machine, symbolic));
             } else {
                 results.push(makeResult(st, 'MISSING', `State transition method ${methodName}() not found`));
             }
@@ -778,7 +2738,11 @@ export function verifyContract(
 /**
  * Verify specs from a file path.
  */
-export function verifyFile(filePath: string, specTree: { contracts: ContractSpecs[] }): VerificationReport[] {
+export function verifyFile(
+    filePath: string,
+    specTree: { contracts: ContractSpecs[] },
+    options: VerifyOptions = {},
+): VerificationReport[] {
     const absolutePath = path.resolve(filePath);
     const source = fs.readFileSync(absolutePath, 'utf-8');
     const sourceFile = createSourceFile(absolutePath, source);
@@ -786,7 +2750,7 @@ export function verifyFile(filePath: string, specTree: { contracts: ContractSpec
     const reports: VerificationReport[] = [];
     for (const contract of specTree.contracts) {
         if (path.resolve(contract.file) === absolutePath) {
-            reports.push(verifyContract(contract, sourceFile));
+            reports.push(verifyContract(contract, sourceFile, options));
         }
     }
 
@@ -797,7 +2761,7 @@ export function verifyFile(filePath: string, specTree: { contracts: ContractSpec
 // Helper Functions
 // ============================================================================
 
-function makeResult(
+export function makeResult(
     spec: SpecAnnotation,
     status: VerificationStatus,
     message: string,
@@ -813,7 +2777,7 @@ function makeResult(
     };
 }
 
-function buildReport(contract: ContractSpecs, results: VerificationResult[]): VerificationReport {
+export function buildReport(contract: ContractSpecs, results: VerificationResult[]): VerificationReport {
     const summary = { verified: 0, unverified: 0, violated: 0, missing: 0, total: results.length };
     for (const r of results) {
         switch (r.status) {
@@ -839,12 +2803,40 @@ function buildReport(contract: ContractSpecs, results: VerificationResult[]): Ve
     };
 }
 
-function extractKeyTerms(expr: string): string[] {
-    return expr
-        .replace(/[!()=<>]/g, ' ')
-        .split(/\s+/)
-        .filter((t) => t.length > 2)
-        .map((t) => t.replace(/^this\./, '').replace(/\.value$/, ''));
+/**
+ * Body text of a method and of every helper it reaches, with the helper chain.
+ */
+function reachableBodies(
+    method: ts.MethodDeclaration,
+    sourceFile: ts.SourceFile,
+    callGraph: CallGraph,
+): { text: string; via: string[] }[] {
+    return reachableMethods(callGraph, method).map((r) => ({
+        text: getMethodBodyText(r.method, sourceFile),
+        via: r.via,
+    }));
+}
+
+/**
+ * Locals and `this.` fields a transition condition names, e.g. `lastCheckin`
+ * and `heartbeatInterval` in `currentBlock > lastCheckin + heartbeatInterval`.
+ */
+function conditionNames(condition: string): string[] {
+    let parsed: SpecExpression;
+    try {
+        parsed = parseSpecExpression(condition);
+    } catch {
+        return [];
+    }
+    // Receivers such as `u256` in `u256.fromU32(10)` are not names of the contract
+    const receivers = new Set<SpecExpression>();
+    const names: string[] = [];
+    walkSpecExpression(parsed, (node) => {
+        if (node.kind === 'member') receivers.add(node.object);
+        if (node.kind === 'identifier' && !receivers.has(node)) names.push(node.name);
+        if (node.kind === 'member' && node.object.kind === 'this') names.push(node.property);
+    });
+    return names;
 }
 
 function stripComments(text: string): string {
@@ -854,13 +2846,3 @@ function stripComments(text: string): string {
     result = result.replace(/\/\*[\s\S]*?\*\//g, '');
     return result;
 }
-
-function extractFieldRefsFromExpr(expr: string): string[] {
-    const refs: string[] = [];
-    const re = /this\.(\w+)/g;
-    let m: RegExpExecArray | null;
-    while ((m = re.exec(expr)) !== null) {
-        refs.push(`this.${m[1]}`);
-    }
-    return refs;
-}
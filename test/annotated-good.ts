@@ -28,9 +28,12 @@ import { CallResult } from '@btc-vision/btc-runtime/runtime/env/BlockchainEnviro
 /// @invariant this.virtualTokenReserve.value > u256.Zero
 /// @opnet selectors-sha256
 /// @opnet no-approve
+/// @nonreentrant
 /// @state UNINITIALIZED -> ACTIVE : setTokenAddress()
 /// @state ACTIVE -> GRADUATED : buy() [when realPillAccumulated >= graduationThreshold]
 /// @state !GRADUATED -> !GRADUATED : buy(), sell()
+/// @state UNINITIALIZED is initial
+/// @state GRADUATED is terminal
 @final
 export class BondingCurve extends OP_NET {
     private readonly buySelector: Selector = encodeSelector('buy');
@@ -69,6 +72,18 @@ export class BondingCurve extends OP_NET {
         super();
     }
 
+    public override onDeployment(calldata: Calldata): void {
+        const initialPillReserve: u256 = calldata.readU256();
+        const initialTokenReserve: u256 = calldata.readU256();
+        if (initialPillReserve.isZero() || initialTokenReserve.isZero()) {
+            throw new Revert('Initial reserves must be non-zero');
+        }
+
+        this.virtualPillReserve.value = initialPillReserve;
+        this.virtualTokenReserve.value = initialTokenReserve;
+        this.k.value = SafeMath.mul(initialPillReserve, initialTokenReserve);
+    }
+
     public override execute(method: Selector, calldata: Calldata): BytesWriter {
         switch (method) {
             case this.buySelector:
@@ -109,6 +124,8 @@ export class BondingCurve extends OP_NET {
     /// @pre this.initialized.value  // "Contract not initialized"
     /// @post this.virtualPillReserve.value >= old(this.virtualPillReserve.value)
     /// @post this.virtualTokenReserve.value <= old(this.virtualTokenReserve.value)
+    /// @reverts-if this.graduated.value  // "Token has graduated"
+    /// @reverts-if pillAmount.isZero()  // "PILL amount must be non-zero"
     /// @calls pillAddress : transferFrom(sender, this, amount) -> must-succeed
     /// @ensures CEI
     public buy(calldata: Calldata): BytesWriter {
@@ -129,6 +146,9 @@ export class BondingCurve extends OP_NET {
         // Calculate tokens out using constant product formula
         const newPillReserve: u256 = SafeMath.add(this.virtualPillReserve.value, pillAmount);
         const newTokenReserve: u256 = SafeMath.div(this.k.value, newPillReserve);
+        if (newTokenReserve.isZero()) {
+            throw new Revert('Token reserve exhausted');
+        }
         const tokensOut: u256 = SafeMath.sub(this.virtualTokenReserve.value, newTokenReserve);
 
         // Effects first (CEI pattern)
@@ -180,6 +200,9 @@ export class BondingCurve extends OP_NET {
         // Calculate PILL out
         const newTokenReserve: u256 = SafeMath.add(this.virtualTokenReserve.value, tokenAmount);
         const newPillReserve: u256 = SafeMath.div(this.k.value, newTokenReserve);
+        if (newPillReserve.isZero()) {
+            throw new Revert('PILL reserve exhausted');
+        }
         const pillOut: u256 = SafeMath.sub(this.virtualPillReserve.value, newPillReserve);
 
         // Effects
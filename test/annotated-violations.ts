@@ -20,26 +20,32 @@ import {
     StoredBoolean,
     StoredU256,
     EMPTY_POINTER,
+    NetEvent,
 } from '@btc-vision/btc-runtime/runtime';
 
 import { CallResult } from '@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment';
 
 /// @opnet no-approve
+/// @pausable this.paused except setFee  // VIOLATION: deposit() and withdraw() ignore the flag
+/// @invariant this.fee.value <= this.balance.value  // VIOLATION: setFee() and withdraw() ignore the balance
 @final
 export class BrokenVault extends OP_NET {
     private readonly depositSelector: Selector = encodeSelector('deposit');
     private readonly withdrawSelector: Selector = encodeSelector('withdraw');
     private readonly setFeeSelector: Selector = encodeSelector('setFee');
+    private readonly quoteSelector: Selector = encodeSelector('quote');
 
     private readonly balancePointer: u16 = Blockchain.nextPointer;
     private readonly feePointer: u16 = Blockchain.nextPointer;
     private readonly ownerPointer: u16 = Blockchain.nextPointer;
     private readonly tokenPointer: u16 = Blockchain.nextPointer;
+    private readonly pausedPointer: u16 = Blockchain.nextPointer;
 
     private readonly balance: StoredU256 = new StoredU256(this.balancePointer, EMPTY_POINTER);
     private readonly fee: StoredU256 = new StoredU256(this.feePointer, EMPTY_POINTER);
     private readonly owner: StoredAddress = new StoredAddress(this.ownerPointer);
     private readonly tokenAddress: StoredAddress = new StoredAddress(this.tokenPointer);
+    private readonly paused: StoredBoolean = new StoredBoolean(this.pausedPointer, false);
 
     public constructor() {
         super();
@@ -53,19 +59,29 @@ export class BrokenVault extends OP_NET {
                 return this.withdraw(calldata);
             case this.setFeeSelector:
                 return this.setFee(calldata);
+            case this.quoteSelector:
+                return this.quote(calldata);
             default:
                 return super.execute(method, calldata);
         }
     }
 
     /// @access deployer-only
+    /// @pre newFee <= u256.fromU32(1000)  // "Fee too high"
+    /// @modifies this.balance
     // VIOLATION: No onlyDeployer() call!
+    // VIOLATION: Fee guard runs after the fee is written
+    // VIOLATION: Writes this.fee, which is outside the declared frame
     public setFee(calldata: Calldata): BytesWriter {
         // Missing: this.onlyDeployer(Blockchain.tx.sender);
 
         const newFee: u256 = calldata.readU256();
         this.fee.value = newFee;
 
+        if (u256.gt(newFee, u256.fromU32(1000))) {
+            throw new Revert('Fee too high');
+        }
+
         const writer: BytesWriter = new BytesWriter(1);
         writer.writeBoolean(true);
         return writer;
@@ -75,7 +91,11 @@ export class BrokenVault extends OP_NET {
     /// @pre !calldata.readU256().isZero()  // "Amount must be non-zero"
     /// @ensures CEI
     /// @calls this.tokenAddress.value : transferFrom(sender, this, amount) -> must-succeed
+    /// @nonreentrant
+    /// @emits Deposited(sender, amount, this.balance.value)
     // VIOLATION: CEI pattern violated — state write AFTER external call
+    // VIOLATION: withdraw() can change this.balance while the transfer runs
+    // VIOLATION: Deposited gets the amount and the new balance swapped
     public deposit(calldata: Calldata): BytesWriter {
         const amount: u256 = calldata.readU256();
 
@@ -99,6 +119,7 @@ export class BrokenVault extends OP_NET {
 
         // State write AFTER external call!
         this.balance.value = SafeMath.add(this.balance.value, amount);
+        this.emitEvent(new DepositedEvent(sender, this.balance.value, amount));
 
         const writer: BytesWriter = new BytesWriter(32);
         writer.writeU256(this.balance.value);
@@ -107,8 +128,12 @@ export class BrokenVault extends OP_NET {
 
     /// @access anyone
     /// @pre !calldata.readU256().isZero()  // "Amount must be non-zero"
+    /// @post this.balance.value >= old(this.balance.value)
+    /// @reverts-only-if amount.isZero()  // "Amount must be non-zero"
     /// @calls this.tokenAddress.value : transfer(sender, amount) -> must-succeed
     // VIOLATION: No success check on external call
+    // VIOLATION: Postcondition is false — withdraw decreases the balance
+    // VIOLATION: SafeMath.sub also reverts when the balance is too low
     public withdraw(calldata: Calldata): BytesWriter {
         const amount: u256 = calldata.readU256();
 
@@ -134,4 +159,41 @@ export class BrokenVault extends OP_NET {
         writer.writeU256(this.balance.value);
         return writer;
     }
+
+    /// @access anyone
+    /// @post return.readU256() == this.balance.value
+    // VIOLATION: Returns zero from inside the loop while paused
+    public quote(calldata: Calldata): BytesWriter {
+        const writer: BytesWriter = new BytesWriter(32);
+
+        for (let i: u32 = 0; i < 3; i++) {
+            if (this.paused.value) {
+                writer.writeU256(u256.Zero);
+                return writer;
+            }
+        }
+
+        writer.writeU256(this.balance.value);
+        return writer;
+    }
+
+    /// @access anyone
+    /// @pre !Blockchain.getStorageAt(u256.fromU32(9) - (this.fee.value - u256.One)).isZero()
+    // UNVERIFIED: The guard reads slot 9 - fee - 1, not slot 9 - (fee - 1), so it must not match
+    public probe(calldata: Calldata): BytesWriter {
+        if (Blockchain.getStorageAt(u256.fromU32(9) - this.fee.value - u256.One).isZero()) {
+            throw new Revert('Empty slot');
+        }
+        return new BytesWriter(0);
+    }
+}
+
+class DepositedEvent extends NetEvent {
+    constructor(depositor: Address, amount: u256, balance: u256) {
+        const data: BytesWriter = new BytesWriter(96);
+        data.writeAddress(depositor);
+        data.writeU256(amount);
+        data.writeU256(balance);
+        super('Deposited', data);
+    }
 }
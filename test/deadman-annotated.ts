@@ -23,10 +23,12 @@ const STATUS_CANCELLED: u256 = u256.fromU32(2);
 
 /// @invariant this.heartbeatInterval.value > u256.Zero
 /// @invariant this.gracePeriod.value > u256.Zero
+/// @statefield this.status
 /// @state ACTIVE -> TRIGGERED : trigger() [when currentBlock > lastCheckin + heartbeatInterval]
 /// @state TRIGGERED -> ACTIVE : cancel() [when currentBlock <= triggerBlock + gracePeriod]
 /// @state ACTIVE -> ACTIVE : checkin(), storeData(), updateBeneficiary(), updateInterval()
-/// @temporal checkin() must be called within this.heartbeatInterval.value blocks
+/// @state ACTIVE is initial
+/// @temporal checkin() expires after this.heartbeatInterval.value blocks
 @final
 export class DeadMansSwitch extends OP_NET {
     private readonly lastCheckinPointer: u16 = Blockchain.nextPointer;
@@ -51,7 +53,20 @@ export class DeadMansSwitch extends OP_NET {
         super();
     }
 
-    /// @access owner-only
+    public override onDeployment(calldata: Calldata): void {
+        const interval: u256 = calldata.readU256();
+        const grace: u256 = calldata.readU256();
+        if (interval.isZero() || grace.isZero()) {
+            throw new Revert('Interval and grace period must be greater than zero');
+        }
+
+        this.owner.value = Blockchain.tx.sender;
+        this.heartbeatInterval.value = interval;
+        this.gracePeriod.value = grace;
+        this.lastCheckin.value = Blockchain.block.numberU256;
+    }
+
+    /// @access owner-only(this.owner)
     /// @pre this.status.value == STATUS_ACTIVE  // "Switch must be active"
     /// @post this.lastCheckin.value == Blockchain.block.numberU256
     public checkin(_calldata: Calldata): BytesWriter {
@@ -71,6 +86,7 @@ export class DeadMansSwitch extends OP_NET {
     /// @pre currentBlock > lastCheckin + heartbeatInterval  // "Heartbeat not expired"
     /// @post this.status.value == STATUS_TRIGGERED
     /// @post this.triggerBlock.value == Blockchain.block.numberU256
+    /// @temporal not before this.lastCheckin + this.heartbeatInterval.value
     public trigger(_calldata: Calldata): BytesWriter {
         const currentStatus: u256 = this.status.value;
         if (u256.eq(currentStatus, STATUS_TRIGGERED)) {
@@ -98,11 +114,12 @@ export class DeadMansSwitch extends OP_NET {
         return writer;
     }
 
-    /// @access owner-only
+    /// @access owner-only(this.owner)
     /// @pre this.status.value == STATUS_TRIGGERED  // "Switch must be triggered"
     /// @pre currentBlock <= triggerBlock + gracePeriod  // "Grace period not expired"
     /// @post this.status.value == STATUS_ACTIVE
     /// @post this.lastCheckin.value == Blockchain.block.numberU256
+    /// @temporal within this.gracePeriod.value blocks of this.triggerBlock
     public cancel(_calldata: Calldata): BytesWriter {
         this.ensureOwner();
 
@@ -129,7 +146,7 @@ export class DeadMansSwitch extends OP_NET {
         return writer;
     }
 
-    /// @access owner-only
+    /// @access owner-only(this.owner)
     /// @pre this.status.value == STATUS_ACTIVE  // "Switch must be active"
     /// @pre !newBeneficiary.isZero()  // "Beneficiary cannot be zero"
     public updateBeneficiary(calldata: Calldata): BytesWriter {
@@ -148,7 +165,7 @@ export class DeadMansSwitch extends OP_NET {
         return writer;
     }
 
-    /// @access owner-only
+    /// @access owner-only(this.owner)
     /// @pre this.status.value == STATUS_ACTIVE  // "Switch must be active"
     /// @pre !newInterval.isZero()  // "Interval must be > 0"
     public updateInterval(calldata: Calldata): BytesWriter {
@@ -169,6 +186,7 @@ export class DeadMansSwitch extends OP_NET {
 
     /// @access anyone
     /// @pre this.status.value == STATUS_TRIGGERED  // "Switch must be triggered"
+    /// @view
     public getDecryptionKey(_calldata: Calldata): BytesWriter {
         const currentStatus: u256 = this.status.value;
         if (!u256.eq(currentStatus, STATUS_TRIGGERED)) {
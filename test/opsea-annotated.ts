@@ -21,6 +21,7 @@ import {
     StoredMapU256,
     StoredU256,
     EMPTY_POINTER,
+    NetEvent,
 } from '@btc-vision/btc-runtime/runtime';
 
 import { CallResult } from '@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment';
@@ -28,6 +29,8 @@ import { CallResult } from '@btc-vision/btc-runtime/runtime/env/BlockchainEnviro
 /// @invariant this.platformFeeBps.value <= u256.fromU32(500)  // Max 5%
 /// @invariant this.nextListingId.value >= u256.One  // IDs start at 1
 /// @invariant this.nextBidId.value >= u256.One
+/// @invariant forall id in range(1, this.nextListingId.value) : listingActiveMap.get(id) <= u256.One
+/// @invariant count(listingActiveMap) <= this.totalListings.value  // Active listings never exceed created ones
 /// @opnet selectors-sha256
 /// @opnet no-approve
 @final
@@ -72,6 +75,10 @@ export class NFTMarketplace extends OP_NET {
         super();
     }
 
+    public override onDeployment(_calldata: Calldata): void {
+        this.nextListingId.value = u256.One;
+    }
+
     public override execute(method: Selector, calldata: Calldata): BytesWriter {
         switch (method) {
             case this.listNFTSelector:
@@ -94,6 +101,9 @@ export class NFTMarketplace extends OP_NET {
     /// @pre price > u256.Zero  // "Price must be greater than zero"
     /// @post this.nextListingId.value > old(this.nextListingId.value)
     /// @post this.totalListings.value > old(this.totalListings.value)
+    /// @emits ListingCreated(listingId, sender, price)
+    /// @modifies this.nextListingId, this.totalListings, this.listingActiveMap[listingId]
+    /// @modifies this.listingCollectionMap[listingId], this.listingTokenIdMap[listingId], this.listingSellerMap[listingId], this.listingPriceMap[listingId]
     /// @calls collection : ownerOf(tokenId) -> must-succeed
     /// @calls collection : isApprovedForAll(sender, this) -> must-succeed
     private listNFT(calldata: Calldata): BytesWriter {
@@ -124,6 +134,8 @@ export class NFTMarketplace extends OP_NET {
 
         this.totalListings.value = SafeMath.add(this.totalListings.value, u256.One);
 
+        this.emitEvent(new ListingCreatedEvent(listingId, sender, price));
+
         const writer: BytesWriter = new BytesWriter(32);
         writer.writeU256(listingId);
         return writer;
@@ -132,6 +144,7 @@ export class NFTMarketplace extends OP_NET {
     /// @access anyone
     /// @pre sender == seller  // "Only seller can cancel"
     /// @post listingActiveMap.get(listingId) == INACTIVE
+    /// @modifies this.listingActiveMap[listingId]
     private cancelListing(calldata: Calldata): BytesWriter {
         const listingId: u256 = calldata.readU256();
         const sender: Address = Blockchain.tx.sender;
@@ -155,6 +168,7 @@ export class NFTMarketplace extends OP_NET {
     /// @access anyone
     /// @pre buyer != seller  // "Buyer cannot be seller"
     /// @post this.totalVolume.value >= old(this.totalVolume.value)
+    /// @modifies this.listingActiveMap[listingId], this.totalVolume
     /// @calls collection : safeTransferFrom(seller, buyer, tokenId) -> must-succeed
     /// @ensures CEI
     private buyNFT(calldata: Calldata): BytesWriter {
@@ -201,6 +215,7 @@ export class NFTMarketplace extends OP_NET {
 
     /// @access deployer-only
     /// @pre newFeeBps <= MAX_PLATFORM_FEE_BPS  // "Fee exceeds maximum"
+    /// @modifies this.platformFeeBps
     private setPlatformFee(calldata: Calldata): BytesWriter {
         this.onlyDeployer(Blockchain.tx.sender);
 
@@ -278,3 +293,14 @@ export class NFTMarketplace extends OP_NET {
         }
     }
 }
+
+@final
+class ListingCreatedEvent extends NetEvent {
+    constructor(listingId: u256, seller: Address, price: u256) {
+        const data: BytesWriter = new BytesWriter(96);
+        data.writeU256(listingId);
+        data.writeAddress(seller);
+        data.writeU256(price);
+        super('ListingCreated', data);
+    }
+}